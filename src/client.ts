@@ -20,8 +20,20 @@ import type {
   SearchSort,
   User,
 } from './types/entities.js';
-import type { TenantCredentials } from './types/env.js';
-import { AuthenticationError, NotFoundError, NotionApiError, RateLimitError } from './utils/errors.js';
+import { getAccessToken, type TenantCredentials } from './types/env.js';
+import {
+  AuthenticationError,
+  isRetryableError,
+  NotFoundError,
+  NotionApiError,
+  RateLimitError,
+} from './utils/errors.js';
+import {
+  DEFAULT_RETRY_POLICY,
+  isRetryableWrite,
+  type RetryPolicy,
+  withRetry,
+} from './utils/retry.js';
 
 // =============================================================================
 // Configuration
@@ -30,6 +42,14 @@ import { AuthenticationError, NotFoundError, NotionApiError, RateLimitError } fr
 const API_BASE_URL = 'https://api.notion.com/v1';
 const NOTION_VERSION = '2022-06-28';
 
+/**
+ * Options for creating a Notion client
+ */
+export interface NotionClientOptions {
+  /** Overrides for the retry policy applied to every request */
+  retry?: Partial<RetryPolicy>;
+}
+
 // =============================================================================
 // Notion Client Interface
 // =============================================================================
@@ -133,9 +153,11 @@ export interface NotionClient {
 
 class NotionClientImpl implements NotionClient {
   private credentials: TenantCredentials;
+  private retryPolicy: RetryPolicy;
 
-  constructor(credentials: TenantCredentials) {
+  constructor(credentials: TenantCredentials, options: NotionClientOptions = {}) {
     this.credentials = credentials;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
   }
 
   // ===========================================================================
@@ -143,29 +165,54 @@ class NotionClientImpl implements NotionClient {
   // ===========================================================================
 
   private getAuthHeaders(): Record<string, string> {
-    if (!this.credentials.integrationToken) {
+    const token = getAccessToken(this.credentials);
+    if (!token) {
       throw new AuthenticationError(
-        'No credentials provided. Include X-Notion-Integration-Token header.'
+        'No credentials provided. Include X-Notion-Integration-Token or X-Notion-Session-Key header.'
       );
     }
 
     return {
-      Authorization: `Bearer ${this.credentials.integrationToken}`,
+      Authorization: `Bearer ${token}`,
       'Content-Type': 'application/json',
       'Notion-Version': NOTION_VERSION,
     };
   }
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  /**
+   * Send a request with retries. Writes that are not idempotent are retried
+   * only when rate limited, so a write that succeeded is never repeated.
+   */
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    { idempotent = true }: { idempotent?: boolean } = {}
+  ): Promise<T> {
+    const shouldRetry = idempotent ? isRetryableError : isRetryableWrite;
+    return withRetry(() => this.send<T>(endpoint, options), this.retryPolicy, shouldRetry);
+  }
+
+  private async send<T>(endpoint: string, options: RequestInit): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`;
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...this.getAuthHeaders(),
-        ...(options.headers || {}),
-      },
-    });
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...options,
+        headers: {
+          ...this.getAuthHeaders(),
+          ...(options.headers || {}),
+        },
+      });
+    } catch (error) {
+      if (error instanceof NotionApiError) throw error;
+      throw new NotionApiError(
+        `Network error: ${error instanceof Error ? error.message : String(error)}`,
+        undefined,
+        'NETWORK_ERROR',
+        true
+      );
+    }
 
     // Handle rate limiting
     if (response.status === 429) {
@@ -202,7 +249,9 @@ class NotionClientImpl implements NotionClient {
       } catch {
         // Use default message
       }
-      throw new NotionApiError(message, response.status);
+      // Server errors and conflicts are transient and safe to retry
+      const retryable = response.status >= 500 || response.status === 409;
+      throw new NotionApiError(message, response.status, undefined, retryable);
     }
 
     return response.json() as Promise<T>;
@@ -295,10 +344,11 @@ class NotionClientImpl implements NotionClient {
       body.cover = cover;
     }
 
-    return this.request<Page>('/pages', {
-      method: 'POST',
-      body: JSON.stringify(body),
-    });
+    return this.request<Page>(
+      '/pages',
+      { method: 'POST', body: JSON.stringify(body) },
+      { idempotent: false }
+    );
   }
 
   async updatePage(
@@ -421,10 +471,11 @@ class NotionClientImpl implements NotionClient {
       body.cover = cover;
     }
 
-    return this.request<Database>('/databases', {
-      method: 'POST',
-      body: JSON.stringify(body),
-    });
+    return this.request<Database>(
+      '/databases',
+      { method: 'POST', body: JSON.stringify(body) },
+      { idempotent: false }
+    );
   }
 
   async updateDatabase(
@@ -519,10 +570,11 @@ class NotionClientImpl implements NotionClient {
       has_more: boolean;
       next_cursor: string | null;
       type: string;
-    }>(`/blocks/${blockId}/children`, {
-      method: 'PATCH',
-      body: JSON.stringify({ children }),
-    });
+    }>(
+      `/blocks/${blockId}/children`,
+      { method: 'PATCH', body: JSON.stringify({ children }) },
+      { idempotent: false }
+    );
 
     return {
       object: 'list',
@@ -623,10 +675,11 @@ class NotionClientImpl implements NotionClient {
       rich_text: richText,
     };
 
-    return this.request<Comment>('/comments', {
-      method: 'POST',
-      body: JSON.stringify(body),
-    });
+    return this.request<Comment>(
+      '/comments',
+      { method: 'POST', body: JSON.stringify(body) },
+      { idempotent: false }
+    );
   }
 
   async getComment(commentId: string): Promise<Comment> {
@@ -634,6 +687,163 @@ class NotionClientImpl implements NotionClient {
   }
 }
 
+// =============================================================================
+// Client Decorator
+// =============================================================================
+
+/**
+ * Base class for clients that add behaviour around another client.
+ *
+ * Every method forwards to the wrapped client; subclasses override the ones
+ * they need.
+ */
+export class NotionClientDecorator implements NotionClient {
+  constructor(protected readonly inner: NotionClient) {}
+
+  testConnection(): Promise<{ connected: boolean; message: string }> {
+    return this.inner.testConnection();
+  }
+
+  listUsers(startCursor?: string, pageSize?: number): Promise<PaginatedResponse<User>> {
+    return this.inner.listUsers(startCursor, pageSize);
+  }
+
+  getUser(userId: string): Promise<User> {
+    return this.inner.getUser(userId);
+  }
+
+  getMe(): Promise<User> {
+    return this.inner.getMe();
+  }
+
+  getPage(pageId: string): Promise<Page> {
+    return this.inner.getPage(pageId);
+  }
+
+  createPage(
+    parentId: string,
+    parentType: 'database_id' | 'page_id',
+    properties: Record<string, unknown>,
+    children?: unknown[],
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Page> {
+    return this.inner.createPage(parentId, parentType, properties, children, icon, cover);
+  }
+
+  updatePage(
+    pageId: string,
+    properties?: Record<string, unknown>,
+    archived?: boolean,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Page> {
+    return this.inner.updatePage(pageId, properties, archived, icon, cover);
+  }
+
+  trashPage(pageId: string): Promise<Page> {
+    return this.inner.trashPage(pageId);
+  }
+
+  getPageProperty(
+    pageId: string,
+    propertyId: string,
+    startCursor?: string,
+    pageSize?: number
+  ): Promise<unknown> {
+    return this.inner.getPageProperty(pageId, propertyId, startCursor, pageSize);
+  }
+
+  getDatabase(databaseId: string): Promise<Database> {
+    return this.inner.getDatabase(databaseId);
+  }
+
+  queryDatabase(
+    databaseId: string,
+    filter?: DatabaseFilter,
+    sorts?: DatabaseSort[],
+    startCursor?: string,
+    pageSize?: number
+  ): Promise<PaginatedResponse<Page>> {
+    return this.inner.queryDatabase(databaseId, filter, sorts, startCursor, pageSize);
+  }
+
+  createDatabase(
+    parentPageId: string,
+    title: RichTextItem[],
+    properties: Record<string, unknown>,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Database> {
+    return this.inner.createDatabase(parentPageId, title, properties, icon, cover);
+  }
+
+  updateDatabase(
+    databaseId: string,
+    title?: RichTextItem[],
+    description?: RichTextItem[],
+    properties?: Record<string, unknown>,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Database> {
+    return this.inner.updateDatabase(databaseId, title, description, properties, icon, cover);
+  }
+
+  getBlock(blockId: string): Promise<Block> {
+    return this.inner.getBlock(blockId);
+  }
+
+  updateBlock(blockId: string, content: Record<string, unknown>): Promise<Block> {
+    return this.inner.updateBlock(blockId, content);
+  }
+
+  deleteBlock(blockId: string): Promise<Block> {
+    return this.inner.deleteBlock(blockId);
+  }
+
+  getBlockChildren(
+    blockId: string,
+    startCursor?: string,
+    pageSize?: number
+  ): Promise<PaginatedResponse<Block>> {
+    return this.inner.getBlockChildren(blockId, startCursor, pageSize);
+  }
+
+  appendBlockChildren(blockId: string, children: unknown[]): Promise<PaginatedResponse<Block>> {
+    return this.inner.appendBlockChildren(blockId, children);
+  }
+
+  search(
+    query?: string,
+    filter?: SearchFilter,
+    sort?: SearchSort,
+    startCursor?: string,
+    pageSize?: number
+  ): Promise<PaginatedResponse<Page | Database>> {
+    return this.inner.search(query, filter, sort, startCursor, pageSize);
+  }
+
+  getComments(
+    blockOrPageId: string,
+    startCursor?: string,
+    pageSize?: number
+  ): Promise<PaginatedResponse<Comment>> {
+    return this.inner.getComments(blockOrPageId, startCursor, pageSize);
+  }
+
+  createComment(
+    parentId: string,
+    parentType: 'page_id' | 'discussion_id',
+    richText: RichTextItem[]
+  ): Promise<Comment> {
+    return this.inner.createComment(parentId, parentType, richText);
+  }
+
+  getComment(commentId: string): Promise<Comment> {
+    return this.inner.getComment(commentId);
+  }
+}
+
 // =============================================================================
 // Factory Function
 // =============================================================================
@@ -645,7 +855,11 @@ class NotionClientImpl implements NotionClient {
  * allowing a single server deployment to serve multiple tenants.
  *
  * @param credentials - Tenant credentials parsed from request headers
+ * @param options - Client options such as the retry policy
  */
-export function createNotionClient(credentials: TenantCredentials): NotionClient {
-  return new NotionClientImpl(credentials);
+export function createNotionClient(
+  credentials: TenantCredentials,
+  options: NotionClientOptions = {}
+): NotionClient {
+  return new NotionClientImpl(credentials, options);
 }
@@ -8,27 +8,60 @@
  * Tenant credentials (integration tokens) are parsed from request headers,
  * allowing a single server deployment to serve multiple customers.
  *
- * Required Headers:
+ * Required Headers (one of, for stateful sessions only on the request that
+ * starts the session):
  * - X-Notion-Integration-Token: Notion integration token
+ * - X-Notion-Session-Key: Session key issued by the OAuth flow (see oauth.ts)
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpAgent } from 'agents/mcp';
-import { createNotionClient } from './client.js';
+import { createNotionClient, type NotionClient } from './client.js';
 import {
+  handleOAuthRequest,
+  OAUTH_AUTHORIZE_PATH,
+  OAUTH_CALLBACK_PATH,
+  resolveTenantCredentials,
+} from './oauth.js';
+import {
+  accessPolicyMiddleware,
+  auditMiddleware,
+  cacheBypassMiddleware,
+  characterLimitMiddleware,
   registerBlockTools,
   registerCommentTools,
+  registerContentTools,
   registerDatabaseTools,
+  registerFullTextTools,
+  registerJournalTools,
   registerPageTools,
   registerSearchTools,
   registerUserTools,
+  useToolMiddleware,
 } from './tools/index.js';
 import {
+  type AccessPolicy,
   type Env,
+  getAccessToken,
+  getCharacterLimit,
+  getRetryMaxAttempts,
+  getRetryMaxElapsedMs,
+  parseAccessPolicy,
   type TenantCredentials,
-  parseTenantCredentials,
   validateCredentials,
 } from './types/env.js';
+import { getAuditSinks } from './utils/audit.js';
+import {
+  type CacheStore,
+  createCachedClient,
+  hashToken,
+  kvCacheStore,
+  memoryCacheStore,
+} from './utils/cache.js';
+import { createFullTextIndex } from './utils/fulltext.js';
+import { createChangeJournal, JournaledNotionClient } from './utils/journal.js';
+import { ScopedNotionClient } from './utils/scope.js';
+import { workersAiEmbedder } from './utils/semantic.js';
 
 // =============================================================================
 // MCP Server Configuration
@@ -37,55 +70,101 @@ import {
 const SERVER_NAME = 'primrose-mcp-notion';
 const SERVER_VERSION = '1.0.0';
 
+/** Path of the legacy SSE transport for stateful sessions */
+const SSE_PATH = '/sse';
+
+/** Path of the streamable HTTP transport for stateful sessions */
+const SESSION_MCP_PATH = '/session/mcp';
+
 // =============================================================================
-// MCP Agent (Stateful - uses Durable Objects)
+// Tool Registration
 // =============================================================================
 
 /**
- * McpAgent provides stateful MCP sessions backed by Durable Objects.
- *
- * NOTE: For multi-tenant deployments, use the stateless mode (Option 2) instead.
+ * Stores backing the per-tenant state of the tools
  */
-export class NotionMcpAgent extends McpAgent<Env> {
-  server = new McpServer({
-    name: SERVER_NAME,
-    version: SERVER_VERSION,
-  });
-
-  async init() {
-    throw new Error(
-      'Stateful mode (McpAgent) is not supported for multi-tenant deployments. ' +
-        'Use the stateless /mcp endpoint with X-Notion-Integration-Token header instead.'
-    );
-  }
+interface ToolStores {
+  /** Store for cached read responses; reads are uncached without one */
+  cache?: CacheStore;
+  /** Store for the change journal; writes are not journaled without one */
+  journal?: CacheStore;
+  /** Store for the full-text index; the index tools are not registered without one */
+  index?: CacheStore;
 }
 
-// =============================================================================
-// Stateless MCP Server (Recommended - no Durable Objects needed)
-// =============================================================================
-
 /**
- * Creates a stateless MCP server instance with tenant-specific credentials.
+ * Create a client for the tenant and register every tool on the server.
  *
- * MULTI-TENANT: Each request provides credentials via headers, allowing
- * a single server deployment to serve multiple tenants.
+ * Both the stateless server and stateful sessions use this, so they expose
+ * the same tools.
+ *
+ * @param policy - Access policy deciding which tools are registered and where writes may go
+ * @param waitUntil - Keeps the request alive for work done after the response (audit writes)
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
-  const server = new McpServer({
-    name: SERVER_NAME,
-    version: SERVER_VERSION,
+function registerTools(
+  server: McpServer,
+  credentials: TenantCredentials,
+  env: Env,
+  policy: AccessPolicy,
+  waitUntil: (promise: Promise<unknown>) => void,
+  stores: ToolStores = {}
+): void {
+  // Create client with tenant-specific credentials
+  let client: NotionClient = createNotionClient(credentials, {
+    retry: {
+      maxAttempts: getRetryMaxAttempts(env),
+      maxElapsedMs: getRetryMaxElapsedMs(env),
+    },
   });
 
-  // Create client with tenant-specific credentials
-  const client = createNotionClient(credentials);
+  // Keep every tool response within the configured character limit
+  useToolMiddleware(server, characterLimitMiddleware(getCharacterLimit(env)));
+
+  // Log every tool call, tagged with a fingerprint of the tenant's token
+  useToolMiddleware(
+    server,
+    auditMiddleware(hashToken(getAccessToken(credentials)), getAuditSinks(env), waitUntil)
+  );
+
+  // Record writes with the state they replace, reading it fresh from the API
+  const journal = stores.journal && createChangeJournal(stores.journal, getAccessToken(credentials));
+  if (journal) {
+    client = new JournaledNotionClient(client, journal);
+  }
+
+  // Serve reads from the cache; tools accept noCache to bypass it
+  if (stores.cache) {
+    const cache = createCachedClient(client, stores.cache, getAccessToken(credentials));
+    useToolMiddleware(server, cacheBypassMiddleware(cache));
+    client = cache;
+  }
+
+  // Only register the tools the policy allows, and keep writes under the allowed roots
+  useToolMiddleware(server, accessPolicyMiddleware(policy));
+  if (policy.allowedRoots) {
+    client = new ScopedNotionClient(client, policy.allowedRoots);
+  }
 
   // Register all tools
-  registerUserTools(server, client);
-  registerPageTools(server, client);
-  registerDatabaseTools(server, client);
-  registerBlockTools(server, client);
-  registerSearchTools(server, client);
-  registerCommentTools(server, client);
+  registerUserTools(server, client, env);
+  registerPageTools(server, client, env);
+  registerDatabaseTools(server, client, env);
+  registerBlockTools(server, client, env);
+  registerSearchTools(server, client, env);
+  registerCommentTools(server, client, env);
+  registerContentTools(server, client, env);
+  if (journal) {
+    registerJournalTools(server, client, journal);
+  }
+  // Embed page sections for semantic search when Workers AI is bound
+  if (stores.index) {
+    const embedder = env.AI && workersAiEmbedder(env.AI);
+    registerFullTextTools(
+      server,
+      client,
+      createFullTextIndex(stores.index, getAccessToken(credentials), embedder)
+    );
+  }
 
   // Test connection tool
   server.tool(
@@ -111,10 +190,152 @@ function createStatelessServer(credentials: TenantCredentials): McpServer {
       }
     }
   );
+}
+
+// =============================================================================
+// MCP Agent (Stateful - uses Durable Objects)
+// =============================================================================
+
+/**
+ * Props stored with each stateful session
+ */
+type SessionProps = {
+  /** Tenant credentials captured when the session started */
+  credentials: TenantCredentials;
+  /** Access policy captured when the session started */
+  policy: AccessPolicy;
+};
+
+/**
+ * McpAgent provides stateful MCP sessions backed by Durable Objects.
+ *
+ * MULTI-TENANT: The tenant's credentials are captured from the request that
+ * starts the session and stored with it, so later requests in the session
+ * only need the session ID. Each session has its own Durable Object, which
+ * keeps the client and, when no KV cache is bound, an in-memory cache of
+ * schemas, pages and users for the lifetime of the session. Pagination
+ * continuation tokens are self-contained, so they work across sessions.
+ */
+export class NotionMcpAgent extends McpAgent<Env, unknown, SessionProps> {
+  server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+
+  async init() {
+    const { credentials, policy } = this.props ?? {};
+    if (!credentials || !policy) {
+      throw new Error(
+        'Session has no credentials. Start it with X-Notion-Integration-Token or X-Notion-Session-Key header.'
+      );
+    }
+    validateCredentials(credentials);
+
+    // Without KV, the cache, journal and index last as long as the session
+    const state = this.env.STATE_KV ? kvCacheStore(this.env.STATE_KV) : memoryCacheStore();
+    const waitUntil = (promise: Promise<unknown>) => this.ctx.waitUntil(promise);
+    registerTools(this.server, credentials, this.env, policy, waitUntil, {
+      cache: this.env.CACHE_KV ? kvCacheStore(this.env.CACHE_KV) : memoryCacheStore(),
+      journal: state,
+      index: state,
+    });
+  }
+}
+
+// =============================================================================
+// Stateless MCP Server (Recommended - no Durable Objects needed)
+// =============================================================================
+
+/**
+ * Creates a stateless MCP server instance with tenant-specific credentials.
+ *
+ * MULTI-TENANT: Each request provides credentials via headers, allowing
+ * a single server deployment to serve multiple tenants.
+ */
+function createStatelessServer(
+  credentials: TenantCredentials,
+  policy: AccessPolicy,
+  env: Env,
+  ctx: ExecutionContext
+): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+
+  registerTools(server, credentials, env, policy, (promise) => ctx.waitUntil(promise), {
+    cache: env.CACHE_KV && kvCacheStore(env.CACHE_KV),
+    journal: env.STATE_KV && kvCacheStore(env.STATE_KV),
+    index: env.STATE_KV && kvCacheStore(env.STATE_KV),
+  });
 
   return server;
 }
 
+// =============================================================================
+// Request Helpers
+// =============================================================================
+
+/**
+ * Response for requests without valid tenant credentials
+ */
+function unauthorized(error: unknown): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Unauthorized',
+      message: error instanceof Error ? error.message : 'Invalid credentials',
+      required_headers: ['X-Notion-Integration-Token or X-Notion-Session-Key'],
+    }),
+    {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Response for requests with invalid headers
+ */
+function badRequest(error: unknown): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Invalid request',
+    }),
+    {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Whether a request to a stateful endpoint starts a new session.
+ *
+ * SSE sessions start with a GET on the SSE path; streamable HTTP sessions
+ * start with a POST that carries no Mcp-Session-Id header.
+ */
+function startsSession(request: Request, url: URL): boolean {
+  if (url.pathname === SSE_PATH) {
+    return request.method === 'GET';
+  }
+  return request.method === 'POST' && !request.headers.has('Mcp-Session-Id');
+}
+
+/**
+ * Execution context that hands session props to the agent.
+ *
+ * Props are only set when a session starts; requests within a session pass
+ * none so the stored credentials are never replaced.
+ */
+function sessionContext(ctx: ExecutionContext, props?: SessionProps): ExecutionContext {
+  return {
+    waitUntil: (promise) => ctx.waitUntil(promise),
+    passThroughOnException: () => ctx.passThroughOnException(),
+    props,
+  };
+}
+
 // =============================================================================
 // Worker Export
 // =============================================================================
@@ -133,32 +354,33 @@ export default {
       });
     }
 
+    // OAuth flow for public integrations
+    if (url.pathname === OAUTH_AUTHORIZE_PATH || url.pathname === OAUTH_CALLBACK_PATH) {
+      return handleOAuthRequest(request, env);
+    }
+
     // ==========================================================================
     // Stateless MCP with Streamable HTTP (Recommended for multi-tenant)
     // ==========================================================================
     if (url.pathname === '/mcp' && request.method === 'POST') {
-      // Parse tenant credentials from request headers
-      const credentials = parseTenantCredentials(request);
-
-      // Validate credentials are present
+      // Resolve tenant credentials from request headers and validate they are present
+      let credentials: TenantCredentials;
       try {
+        credentials = await resolveTenantCredentials(request, env);
         validateCredentials(credentials);
       } catch (error) {
-        return new Response(
-          JSON.stringify({
-            error: 'Unauthorized',
-            message: error instanceof Error ? error.message : 'Invalid credentials',
-            required_headers: ['X-Notion-Integration-Token'],
-          }),
-          {
-            status: 401,
-            headers: { 'Content-Type': 'application/json' },
-          }
-        );
+        return unauthorized(error);
+      }
+
+      let policy: AccessPolicy;
+      try {
+        policy = parseAccessPolicy(request, env);
+      } catch (error) {
+        return badRequest(error);
       }
 
       // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      const server = createStatelessServer(credentials, policy, env, ctx);
 
       // Import and use createMcpHandler for streamable HTTP
       const { createMcpHandler } = await import('agents/mcp');
@@ -166,11 +388,37 @@ export default {
       return handler(request, env, ctx);
     }
 
-    // SSE endpoint for legacy clients
-    if (url.pathname === '/sse') {
-      return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
-        status: 501,
-      });
+    // ==========================================================================
+    // Stateful MCP Sessions (Durable Objects): legacy SSE and streamable HTTP
+    // ==========================================================================
+    const isSse = url.pathname === SSE_PATH || url.pathname === `${SSE_PATH}/message`;
+    if (isSse || url.pathname === SESSION_MCP_PATH) {
+      if (!env.MCP_OBJECT) {
+        return new Response('Stateful sessions require the MCP_OBJECT Durable Object binding.', {
+          status: 501,
+        });
+      }
+
+      let props: SessionProps | undefined;
+      if (startsSession(request, url)) {
+        let credentials: TenantCredentials;
+        try {
+          credentials = await resolveTenantCredentials(request, env);
+          validateCredentials(credentials);
+        } catch (error) {
+          return unauthorized(error);
+        }
+        try {
+          props = { credentials, policy: parseAccessPolicy(request, env) };
+        } catch (error) {
+          return badRequest(error);
+        }
+      }
+
+      const handler = isSse
+        ? NotionMcpAgent.serveSSE(SSE_PATH)
+        : NotionMcpAgent.serve(SESSION_MCP_PATH);
+      return handler.fetch(request, env, sessionContext(ctx, props));
     }
 
     // Default response
@@ -181,12 +429,21 @@ export default {
         description: 'Multi-tenant Notion MCP Server',
         endpoints: {
           mcp: '/mcp (POST) - Streamable HTTP MCP endpoint',
+          session: `${SESSION_MCP_PATH} - Stateful streamable HTTP MCP endpoint (Durable Objects)`,
+          sse: `${SSE_PATH} - Stateful legacy SSE MCP endpoint (Durable Objects)`,
           health: '/health - Health check',
+          oauth: `${OAUTH_AUTHORIZE_PATH} - Connect a workspace via OAuth (public integrations)`,
         },
         authentication: {
-          description: 'Pass tenant credentials via request headers',
+          description: 'Pass tenant credentials via request headers (one of)',
           required_headers: {
             'X-Notion-Integration-Token': 'Notion integration token',
+            'X-Notion-Session-Key': `Session key issued by the OAuth flow (${OAUTH_AUTHORIZE_PATH})`,
+          },
+          optional_headers: {
+            'X-Notion-Mode': 'read-only or read-write',
+            'X-Notion-Allowed-Tools': 'Comma-separated tool names to register',
+            'X-Notion-Allowed-Roots': 'Comma-separated page/database IDs that writes must stay under',
           },
         },
         tools: [
@@ -195,12 +452,18 @@ export default {
           'notion_get_user',
           'notion_get_me',
           'notion_get_page',
+          'notion_get_page_markdown',
           'notion_create_page',
           'notion_update_page',
           'notion_trash_page',
+          'notion_duplicate_page',
+          'notion_move_page',
+          'notion_create_from_template',
           'notion_get_page_property',
           'notion_get_database',
           'notion_query_database',
+          'notion_export_database',
+          'notion_import_rows',
           'notion_create_database',
           'notion_update_database',
           'notion_get_block',
@@ -212,6 +475,14 @@ export default {
           'notion_get_comments',
           'notion_create_comment',
           'notion_get_comment',
+          'notion_search_page_content',
+          'notion_find_replace',
+          'notion_list_recent_changes',
+          'notion_undo_change',
+          'notion_index_build',
+          'notion_index_status',
+          'notion_index_query',
+          'notion_semantic_search',
         ],
       }),
       {
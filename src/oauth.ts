@@ -0,0 +1,285 @@
+/**
+ * Notion OAuth
+ *
+ * OAuth 2.0 flow for public integrations, so end users can connect their own
+ * workspaces instead of sharing an integration token.
+ *
+ * 1. GET /oauth/authorize redirects the user to Notion's consent screen.
+ * 2. GET /oauth/callback exchanges the authorization code for an access token,
+ *    stores it in STATE_KV and returns a server-issued session key.
+ * 3. MCP requests send the session key in the X-Notion-Session-Key header.
+ *
+ * The authorization and token URLs are configurable so the flow can be
+ * exercised against a local fake token endpoint.
+ */
+
+import {
+  type Env,
+  getAccessToken,
+  getOAuthAuthorizeUrl,
+  getOAuthTokenUrl,
+  type OAuthCredentials,
+  parseTenantCredentials,
+  type TenantCredentials,
+} from './types/env.js';
+import { hashToken } from './utils/cache.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const OAUTH_AUTHORIZE_PATH = '/oauth/authorize';
+export const OAUTH_CALLBACK_PATH = '/oauth/callback';
+
+/** Seconds a pending authorization (its state value) stays valid */
+const STATE_TTL_SECONDS = 600;
+
+/** Prefix of server-issued session keys */
+const SESSION_KEY_PREFIX = 'nsk_';
+
+/**
+ * Token response of the OAuth token endpoint
+ */
+interface TokenResponse {
+  access_token: string;
+  token_type?: string;
+  bot_id: string;
+  workspace_id: string;
+  workspace_name?: string | null;
+  workspace_icon?: string | null;
+}
+
+/**
+ * OAuth settings required to run the flow
+ */
+interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  kv: KVNamespace;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * JSON response helper
+ */
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Generate a random hex string
+ */
+function randomHex(bytes: number): string {
+  return [...crypto.getRandomValues(new Uint8Array(bytes))]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Get the OAuth settings, or undefined if the flow is not configured
+ */
+function getOAuthConfig(env: Env): OAuthConfig | undefined {
+  const clientId = env.NOTION_OAUTH_CLIENT_ID;
+  const clientSecret = env.NOTION_OAUTH_CLIENT_SECRET;
+  const redirectUri = env.NOTION_OAUTH_REDIRECT_URI;
+  if (!clientId || !clientSecret || !redirectUri || !env.STATE_KV) {
+    return undefined;
+  }
+  return { clientId, clientSecret, redirectUri, kv: env.STATE_KV };
+}
+
+/**
+ * Check that a token endpoint response has the fields a session needs
+ */
+function isTokenResponse(value: unknown): value is TokenResponse {
+  if (typeof value !== 'object' || value === null) return false;
+  const token = value as Record<string, unknown>;
+  return ['access_token', 'workspace_id', 'bot_id'].every(
+    (field) => typeof token[field] === 'string' && token[field] !== ''
+  );
+}
+
+/**
+ * KV key of a stored OAuth session; the session key itself is never stored
+ */
+async function sessionStorageKey(sessionKey: string): Promise<string> {
+  return `oauth:session:${await hashToken(sessionKey)}`;
+}
+
+// =============================================================================
+// Endpoints
+// =============================================================================
+
+/**
+ * Redirect the user to the authorization page
+ */
+async function authorize(config: OAuthConfig, env: Env): Promise<Response> {
+  const state = randomHex(16);
+  await config.kv.put(`oauth:state:${state}`, '1', { expirationTtl: STATE_TTL_SECONDS });
+
+  const url = new URL(getOAuthAuthorizeUrl(env));
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('owner', 'user');
+  url.searchParams.set('redirect_uri', config.redirectUri);
+  url.searchParams.set('state', state);
+
+  return Response.redirect(url.toString(), 302);
+}
+
+/**
+ * Exchange the authorization code for an access token and issue a session key
+ */
+async function callback(config: OAuthConfig, env: Env, url: URL): Promise<Response> {
+  const error = url.searchParams.get('error');
+  if (error) {
+    return json({ error: 'Authorization denied', message: error }, 400);
+  }
+
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  if (!code || !state) {
+    return json({ error: 'Bad Request', message: 'Missing code or state parameter' }, 400);
+  }
+
+  // Each state value is single-use
+  const stateKey = `oauth:state:${state}`;
+  if (!(await config.kv.get(stateKey))) {
+    return json({ error: 'Bad Request', message: 'Unknown or expired state. Start again.' }, 400);
+  }
+  await config.kv.delete(stateKey);
+
+  let response: Response;
+  try {
+    response = await fetch(getOAuthTokenUrl(env), {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${config.clientId}:${config.clientSecret}`)}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: config.redirectUri,
+      }),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return json({ error: 'Token exchange failed', message: `Network error: ${message}` }, 502);
+  }
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as { error?: string; message?: string };
+    return json(
+      {
+        error: 'Token exchange failed',
+        message: body.message || body.error || `Token endpoint returned ${response.status}`,
+      },
+      502
+    );
+  }
+
+  const token: unknown = await response.json().catch(() => undefined);
+  if (!isTokenResponse(token)) {
+    return json(
+      {
+        error: 'Token exchange failed',
+        message: 'Token endpoint response has no access_token, workspace_id or bot_id',
+      },
+      502
+    );
+  }
+  const credentials: OAuthCredentials = {
+    type: 'oauth',
+    accessToken: token.access_token,
+    workspace: {
+      workspaceId: token.workspace_id,
+      workspaceName: token.workspace_name ?? undefined,
+      workspaceIcon: token.workspace_icon ?? undefined,
+      botId: token.bot_id,
+    },
+  };
+
+  const sessionKey = `${SESSION_KEY_PREFIX}${randomHex(32)}`;
+  await config.kv.put(await sessionStorageKey(sessionKey), JSON.stringify(credentials));
+
+  return json({
+    sessionKey,
+    workspace: credentials.workspace,
+    usage: 'Send this key in the X-Notion-Session-Key header of MCP requests',
+  });
+}
+
+/**
+ * Handle a request to one of the OAuth endpoints
+ */
+export async function handleOAuthRequest(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+
+  const config = getOAuthConfig(env);
+  if (!config) {
+    return json(
+      {
+        error: 'Not Implemented',
+        message:
+          'OAuth is not configured. Set NOTION_OAUTH_CLIENT_ID, NOTION_OAUTH_CLIENT_SECRET, ' +
+          'NOTION_OAUTH_REDIRECT_URI and bind STATE_KV.',
+      },
+      501
+    );
+  }
+
+  if (request.method !== 'GET') {
+    return json({ error: 'Method Not Allowed' }, 405);
+  }
+  if (url.pathname === OAUTH_AUTHORIZE_PATH) {
+    return authorize(config, env);
+  }
+  if (url.pathname === OAUTH_CALLBACK_PATH) {
+    return callback(config, env, url);
+  }
+  return json({ error: 'Not Found' }, 404);
+}
+
+// =============================================================================
+// Credential Resolution
+// =============================================================================
+
+/**
+ * Resolve tenant credentials for a request.
+ *
+ * An integration token header takes precedence; otherwise a session key from
+ * the OAuth flow is looked up in STATE_KV. Without either, the empty
+ * credentials are returned for validateCredentials to reject.
+ *
+ * @throws Error if the session key is unknown or sessions are not configured
+ */
+export async function resolveTenantCredentials(
+  request: Request,
+  env: Env
+): Promise<TenantCredentials> {
+  const credentials = parseTenantCredentials(request);
+  const sessionKey = request.headers.get('X-Notion-Session-Key');
+  if (getAccessToken(credentials) || !sessionKey) {
+    return credentials;
+  }
+
+  if (!env.STATE_KV) {
+    throw new Error('OAuth sessions are not configured on this server.');
+  }
+  const stored = await env.STATE_KV.get<OAuthCredentials>(
+    await sessionStorageKey(sessionKey),
+    'json'
+  );
+  if (!stored) {
+    throw new Error(`Unknown session key. Connect again via ${OAUTH_AUTHORIZE_PATH}.`);
+  }
+  return stored;
+}
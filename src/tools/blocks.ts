@@ -7,12 +7,30 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { NotionClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import {
+  type Env,
+  getCharacterLimit,
+  getDefaultPageSize,
+  getMaxPageSize,
+} from '../types/env.js';
+import { appendBlocks, fetchBlockNode, inputToBlockNodes } from '../utils/blocks.js';
+import { diffValues, formatDryRun } from '../utils/diff.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatError, formatListResponse, formatResponse } from '../utils/formatters.js';
+import { blocksToMarkdown, markdownToBlocks } from '../utils/markdown.js';
+import { fetchList, MAX_FETCH_ALL_ITEMS } from '../utils/pagination.js';
+
+/** Nesting depth rendered in the Markdown preview of a block deletion */
+const DELETE_PREVIEW_DEPTH = 3;
 
 /**
  * Register all block-related tools
  */
-export function registerBlockTools(server: McpServer, client: NotionClient): void {
+export function registerBlockTools(server: McpServer, client: NotionClient, env: Env): void {
+  const defaultPageSize = getDefaultPageSize(env);
+  const maxPageSize = getMaxPageSize(env);
+  const characterLimit = getCharacterLimit(env);
+
   // ===========================================================================
   // Get Block
   // ===========================================================================
@@ -55,7 +73,11 @@ Use this to read the content of a page or the nested content of a block.
 Args:
   - blockId: The block ID (or page ID) to get children from
   - startCursor: Pagination cursor from previous response
-  - pageSize: Number of blocks to return (1-100, default: 100)
+  - continuation: Continuation token from a truncated previous response (replaces startCursor)
+  - pageSize: Number of blocks to return (1-${maxPageSize}, default: ${defaultPageSize})
+  - fetchAll: Fetch every page of results in a single call (default: false)
+  - maxItems: Maximum number of blocks to return when fetchAll is set (1-1000, default: 1000)
+  - noCache: Bypass the response cache and read fresh data (default: false)
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -63,13 +85,32 @@ Returns:
     {
       blockId: z.string().describe('The block or page ID'),
       startCursor: z.string().optional().describe('Pagination cursor'),
-      pageSize: z.number().int().min(1).max(100).default(100).describe('Number of blocks'),
+      continuation: z.string().optional().describe('Continuation token from a truncated response'),
+      pageSize: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxPageSize)
+        .default(defaultPageSize)
+        .describe('Number of blocks'),
+      fetchAll: z.boolean().default(false).describe('Fetch all pages of results'),
+      maxItems: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_FETCH_ALL_ITEMS)
+        .default(MAX_FETCH_ALL_ITEMS)
+        .describe('Maximum blocks to return with fetchAll'),
+      noCache: z.boolean().default(false).describe('Bypass the response cache'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ blockId, startCursor, pageSize, format }) => {
+    async ({ blockId, startCursor, continuation, pageSize, fetchAll, maxItems, format }) => {
       try {
-        const result = await client.getBlockChildren(blockId, startCursor, pageSize);
-        return formatResponse(result, format, 'blocks');
+        const result = await fetchList(
+          (cursor, size) => client.getBlockChildren(blockId, cursor, size),
+          { startCursor, continuation, pageSize, fetchAll, maxItems }
+        );
+        return formatListResponse(result, format, 'blocks', characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -102,22 +143,51 @@ Args:
     - Divider: { "type": "divider", "divider": {} }
     - Image: { "type": "image", "image": { "type": "external", "external": { "url": "..." } } }
     - Bookmark: { "type": "bookmark", "bookmark": { "url": "..." } }
+  - markdown: Markdown string to append instead of (or after) children. Supports headings,
+              nested lists, task lists, fenced code, quotes, tables, dividers, images,
+              equations and inline bold/italic/strikethrough/code/links.
+  - dryRun: Preview the content as Markdown without appending it (default: false)
+
+Large or deeply nested content is split into multiple requests automatically.
 
 Returns:
-  The appended blocks.`,
+  The appended top-level blocks.`,
     {
       blockId: z.string().describe('The block or page ID'),
-      children: z.array(z.record(z.string(), z.unknown())).describe('Array of block objects to append'),
+      children: z
+        .array(z.record(z.string(), z.unknown()))
+        .optional()
+        .describe('Array of block objects to append'),
+      markdown: z.string().optional().describe('Markdown content to append'),
+      dryRun: z.boolean().default(false).describe('Preview the change without writing'),
     },
-    async ({ blockId, children }) => {
+    async ({ blockId, children, markdown, dryRun }) => {
       try {
-        const result = await client.appendBlockChildren(blockId, children);
+        const blocks = [...(children ?? []), ...(markdown ? markdownToBlocks(markdown) : [])];
+        if (blocks.length === 0) {
+          throw new ValidationError('Provide children or markdown to append', {
+            children: ['Either children or markdown is required'],
+          });
+        }
+
+        if (dryRun) {
+          // Fetching the target confirms it exists and is accessible
+          await client.getBlock(blockId);
+          return formatDryRun({
+            action: 'notion_append_blocks',
+            target: blockId,
+            changes: [{ path: 'children', before: null, after: `${blocks.length} blocks` }],
+            markdown: blocksToMarkdown(inputToBlockNodes(blocks)),
+          });
+        }
+
+        const result = await appendBlocks(client, blockId, blocks);
         return {
           content: [
             {
               type: 'text' as const,
               text: JSON.stringify(
-                { success: true, message: `Appended ${result.results.length} blocks`, blocks: result },
+                { success: true, message: `Appended ${result.length} blocks`, blocks: result },
                 null,
                 2
               ),
@@ -142,15 +212,34 @@ Args:
   - content: The block content to update. Must include the block type.
              Example for paragraph: { "paragraph": { "rich_text": [{ "type": "text", "text": { "content": "New text" } }] } }
              To archive a block: { "archived": true }
+  - dryRun: Preview the changed values without updating the block (default: false)
 
 Returns:
-  The updated block object.`,
+  The updated block object, or with dryRun, each value's current and new state.`,
     {
       blockId: z.string().describe('The block ID'),
       content: z.record(z.string(), z.unknown()).describe('Block content to update'),
+      dryRun: z.boolean().default(false).describe('Preview the change without writing'),
     },
-    async ({ blockId, content }) => {
+    async ({ blockId, content, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getBlock(blockId);
+          const typeKeys = Object.keys(content).filter(
+            (key) => key !== 'archived' && key !== 'in_trash'
+          );
+          if (typeKeys.some((key) => key !== current.type)) {
+            throw new ValidationError(`Content does not match the block type '${current.type}'`, {
+              content: [`Expected only "${current.type}", "archived" or "in_trash" keys`],
+            });
+          }
+          return formatDryRun({
+            action: 'notion_update_block',
+            target: blockId,
+            changes: diffValues(current, content),
+          });
+        }
+
         const block = await client.updateBlock(blockId, content);
         return {
           content: [
@@ -177,14 +266,28 @@ The block and all its children will be moved to trash.
 
 Args:
   - blockId: The block ID to delete
+  - dryRun: Preview the block and its content as Markdown without deleting it (default: false)
 
 Returns:
   The deleted block object (with archived: true).`,
     {
       blockId: z.string().describe('The block ID to delete'),
+      dryRun: z.boolean().default(false).describe('Preview the change without writing'),
     },
-    async ({ blockId }) => {
+    async ({ blockId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getBlock(blockId);
+          const node = await fetchBlockNode(client, current, { maxDepth: DELETE_PREVIEW_DEPTH });
+          return formatDryRun({
+            action: 'notion_delete_block',
+            target: blockId,
+            changes: diffValues(current.archived, true, 'archived'),
+            type: current.type,
+            markdown: blocksToMarkdown([node]),
+          });
+        }
+
         const block = await client.deleteBlock(blockId);
         return {
           content: [
@@ -7,12 +7,23 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { NotionClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import {
+  type Env,
+  getCharacterLimit,
+  getDefaultPageSize,
+  getMaxPageSize,
+} from '../types/env.js';
+import { formatError, formatListResponse, formatResponse } from '../utils/formatters.js';
+import { fetchList, MAX_FETCH_ALL_ITEMS } from '../utils/pagination.js';
 
 /**
  * Register all comment-related tools
  */
-export function registerCommentTools(server: McpServer, client: NotionClient): void {
+export function registerCommentTools(server: McpServer, client: NotionClient, env: Env): void {
+  const defaultPageSize = getDefaultPageSize(env);
+  const maxPageSize = getMaxPageSize(env);
+  const characterLimit = getCharacterLimit(env);
+
   // ===========================================================================
   // Get Comments
   // ===========================================================================
@@ -25,7 +36,10 @@ Gets all comments associated with a page or specific block.
 Args:
   - blockId: The page ID or block ID to get comments from
   - startCursor: Pagination cursor from previous response
-  - pageSize: Number of comments to return (1-100, default: 100)
+  - continuation: Continuation token from a truncated previous response (replaces startCursor)
+  - pageSize: Number of comments to return (1-${maxPageSize}, default: ${defaultPageSize})
+  - fetchAll: Fetch every page of results in a single call (default: false)
+  - maxItems: Maximum number of comments to return when fetchAll is set (1-1000, default: 1000)
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -33,13 +47,31 @@ Returns:
     {
       blockId: z.string().describe('The page or block ID'),
       startCursor: z.string().optional().describe('Pagination cursor'),
-      pageSize: z.number().int().min(1).max(100).default(100).describe('Number of comments'),
+      continuation: z.string().optional().describe('Continuation token from a truncated response'),
+      pageSize: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxPageSize)
+        .default(defaultPageSize)
+        .describe('Number of comments'),
+      fetchAll: z.boolean().default(false).describe('Fetch all pages of results'),
+      maxItems: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_FETCH_ALL_ITEMS)
+        .default(MAX_FETCH_ALL_ITEMS)
+        .describe('Maximum comments to return with fetchAll'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ blockId, startCursor, pageSize, format }) => {
+    async ({ blockId, startCursor, continuation, pageSize, fetchAll, maxItems, format }) => {
       try {
-        const result = await client.getComments(blockId, startCursor, pageSize);
-        return formatResponse(result, format, 'comments');
+        const result = await fetchList(
+          (cursor, size) => client.getComments(blockId, cursor, size),
+          { startCursor, continuation, pageSize, fetchAll, maxItems }
+        );
+        return formatListResponse(result, format, 'comments', characterLimit);
       } catch (error) {
         return formatError(error);
       }
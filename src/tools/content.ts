@@ -0,0 +1,134 @@
+/**
+ * Content Tools
+ *
+ * MCP tools for finding and editing text across a page's blocks.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { NotionClient } from '../client.js';
+import type { Env } from '../types/env.js';
+import { MAX_SEARCHED_PAGES, searchPageContent } from '../utils/find.js';
+import { formatError } from '../utils/formatters.js';
+import { MAX_PATTERN_LENGTH } from '../utils/regex.js';
+import { findAndReplace, MAX_REPLACEMENTS } from '../utils/replace.js';
+
+/**
+ * Register content search and editing tools
+ */
+export function registerContentTools(server: McpServer, client: NotionClient, _env: Env): void {
+  // ===========================================================================
+  // Search Page Content
+  // ===========================================================================
+  server.tool(
+    'notion_search_page_content',
+    `Search the text of every block of a page, optionally including its child pages.
+
+Unlike notion_search, which matches page titles, this searches block content: paragraphs,
+headings, list items, to-dos, toggles, callouts, quotes, code blocks, table cells and child page
+titles, including nested blocks. Use the returned block IDs with notion_update_block.
+
+Args:
+  - pageId: The page ID to search
+  - query: Text to find, or a regular expression with regex: true
+  - regex: Treat query as a JavaScript regular expression (default: false)
+           (at most ${MAX_PATTERN_LENGTH} characters, without backreferences or nested quantifiers)
+  - caseSensitive: Match case (default: false)
+  - includeChildPages: Also search child pages, recursively (default: false; at most ${MAX_SEARCHED_PAGES} pages)
+  - maxResults: Maximum number of matching blocks to return (default: 50)
+
+Returns:
+  One hit per matching block with its page ID and title, block ID, block type, heading path
+  (the headings the block is under), number of matches and surrounding text (the first match
+  in [[double brackets]]). truncated is set when the search stopped early.`,
+    {
+      pageId: z.string().describe('The page ID to search'),
+      query: z.string().min(1).describe('Text or regular expression to find'),
+      regex: z.boolean().default(false).describe('Treat query as a regular expression'),
+      caseSensitive: z.boolean().default(false).describe('Match case'),
+      includeChildPages: z.boolean().default(false).describe('Also search child pages'),
+      maxResults: z
+        .number()
+        .int()
+        .min(1)
+        .max(500)
+        .default(50)
+        .describe('Maximum number of matching blocks to return'),
+    },
+    async ({ pageId, query, regex, caseSensitive, includeChildPages, maxResults }) => {
+      try {
+        const result = await searchPageContent(
+          client,
+          pageId,
+          { find: query, regex, caseSensitive },
+          { includeChildPages, maxResults }
+        );
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Find and Replace
+  // ===========================================================================
+  server.tool(
+    'notion_find_replace',
+    `Find and replace text across every block of a page.
+
+Searches the rich text of paragraphs, headings, list items, to-dos, toggles, callouts, quotes,
+code blocks and table cells, including nested blocks (but not child pages). Matches may span
+formatting; the replacement keeps the annotations and link of the text where the match starts.
+Matches that include a mention or equation are listed but not replaced.
+
+By default only a preview is returned. Review it, then call again with apply: true.
+
+Args:
+  - pageId: The page ID to search
+  - find: Text to find, or a regular expression with regex: true
+  - replace: Replacement text. With regex, $1, $<name> and $& insert matched groups.
+  - regex: Treat find as a JavaScript regular expression (default: false)
+           (at most ${MAX_PATTERN_LENGTH} characters, without backreferences or nested quantifiers)
+  - caseSensitive: Match case (default: true)
+  - apply: Make the changes instead of previewing them (default: false; at most ${MAX_REPLACEMENTS} matches)
+
+Returns:
+  Each match with its block ID, block type, replacement and surrounding text (the match in
+  [[double brackets]]), and the number of blocks changed.`,
+    {
+      pageId: z.string().describe('The page ID to search'),
+      find: z.string().min(1).describe('Text or regular expression to find'),
+      replace: z.string().describe('Replacement text'),
+      regex: z.boolean().default(false).describe('Treat find as a regular expression'),
+      caseSensitive: z.boolean().default(true).describe('Match case'),
+      apply: z.boolean().default(false).describe('Make the changes instead of previewing'),
+    },
+    async ({ pageId, find, replace, regex, caseSensitive, apply }) => {
+      try {
+        const result = await findAndReplace(
+          client,
+          pageId,
+          { find, replace, regex, caseSensitive },
+          apply
+        );
+        const count = result.matches.length;
+        const message = apply
+          ? `Replaced matches in ${result.blocksChanged} blocks`
+          : `Preview: ${count} matches in ${result.blocksChanged} blocks; call again with apply: true to replace`;
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({ success: true, message, ...result }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
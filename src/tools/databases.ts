@@ -7,13 +7,115 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { NotionClient } from '../client.js';
-import type { DatabaseFilter, DatabaseSort } from '../types/entities.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import type { DatabaseFilter, DatabaseProperty, DatabaseSort, Page } from '../types/entities.js';
+import {
+  type Env,
+  getCharacterLimit,
+  getDefaultPageSize,
+  getMaxPageSize,
+} from '../types/env.js';
+import { hashToken } from '../utils/cache.js';
+import { type DatabaseUpdate, diffDatabase, formatDryRun } from '../utils/diff.js';
+import { ValidationError } from '../utils/errors.js';
+import {
+  EXPORT_METADATA_COLUMNS,
+  type ExportColumns,
+  selectExportColumns,
+  serializeExportHeader,
+  serializeExportRows,
+} from '../utils/export.js';
+import { parseFilterExpression } from '../utils/filters.js';
+import {
+  formatError,
+  formatListResponse,
+  formatResponse,
+  type ToolResponse,
+} from '../utils/formatters.js';
+import { IMPORT_BATCH_ROWS, importRows, MAX_IMPORT_ROWS, parseCsv } from '../utils/import.js';
+import {
+  type Continuation,
+  decodeContinuation,
+  encodeContinuation,
+  fetchList,
+  MAX_FETCH_ALL_ITEMS,
+  type PageFetcher,
+  paginatePages,
+} from '../utils/pagination.js';
+import { flattenPage, normalizeId } from '../utils/properties.js';
+
+/** Characters kept free for the truncation notice of an export */
+const EXPORT_NOTICE_RESERVE = 300;
+
+/**
+ * Combine a raw filter object with a compiled filter expression
+ */
+function combineFilters(
+  filter: DatabaseFilter | undefined,
+  where: string | undefined,
+  schema: Record<string, DatabaseProperty>
+): DatabaseFilter | undefined {
+  if (!where) return filter;
+  const compiled = parseFilterExpression(where, schema);
+  return filter ? { and: [filter, compiled] } : compiled;
+}
+
+/**
+ * Export the rows of a query, fetching page by page and stopping at a row
+ * boundary once the output reaches the character limit. A continued export
+ * only fetches the rows it returns; its token keeps the scope of the start.
+ */
+async function exportRows(
+  fetchPage: PageFetcher<Page>,
+  start: Continuation,
+  columns: ExportColumns,
+  format: 'csv' | 'jsonl' | 'markdown',
+  characterLimit: number
+): Promise<ToolResponse> {
+  const lines = serializeExportHeader(columns, format);
+  const budget = characterLimit - EXPORT_NOTICE_RESERVE;
+
+  let length = lines.reduce((total, line) => total + line.length + 1, 0);
+  let count = 0;
+  let cursor = start.cursor;
+  let skip = start.skip;
+  let next: Continuation | undefined;
+
+  pages: for await (const page of paginatePages(fetchPage, { startCursor: cursor, skip })) {
+    const rows = serializeExportRows(page.results.map(flattenPage), columns, format);
+    for (const [index, row] of rows.entries()) {
+      // Always include at least one row so the continuation makes progress
+      if (count > 0 && length + row.length + 1 > budget) {
+        next = { cursor, skip: skip + index, scope: start.scope };
+        break pages;
+      }
+      length += row.length + 1;
+      lines.push(row);
+      count++;
+    }
+    cursor = page.nextCursor;
+    skip = 0;
+  }
+
+  const content: ToolResponse['content'] = [{ type: 'text', text: lines.join('\n') }];
+  if (next) {
+    content.push({
+      type: 'text',
+      text:
+        `[Truncated: exported ${count} rows to stay within the ${characterLimit} character ` +
+        `limit. Pass continuation "${encodeContinuation(next)}" to export the rest.]`,
+    });
+  }
+  return { content };
+}
 
 /**
  * Register all database-related tools
  */
-export function registerDatabaseTools(server: McpServer, client: NotionClient): void {
+export function registerDatabaseTools(server: McpServer, client: NotionClient, env: Env): void {
+  const defaultPageSize = getDefaultPageSize(env);
+  const maxPageSize = getMaxPageSize(env);
+  const characterLimit = getCharacterLimit(env);
+
   // ===========================================================================
   // Get Database
   // ===========================================================================
@@ -25,12 +127,14 @@ Returns the database object with its schema (properties), title, and metadata.
 
 Args:
   - databaseId: The database ID
+  - noCache: Bypass the response cache and read fresh data (default: false)
   - format: Response format ('json' or 'markdown')
 
 Returns:
   The database object with all properties and their configurations.`,
     {
       databaseId: z.string().describe('The database ID'),
+      noCache: z.boolean().default(false).describe('Bypass the response cache'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
     async ({ databaseId, format }) => {
@@ -55,11 +159,23 @@ Args:
   - filter: Optional filter object using Notion's filter syntax. Example:
             { "property": "Status", "status": { "equals": "Done" } }
             Compound filters use "and" or "or" arrays.
+  - where: Optional filter expression, validated against the database schema and combined with filter.
+           Example: Status = "Done" AND Due < today AND Tags contains "infra"
+           Operators: =, !=, <, <=, >, >=, contains, does not contain, starts with, ends with,
+                      before, after, on or before, on or after, is empty, is not empty
+           Values: "strings", numbers, true/false, dates (2026-11-01), today/tomorrow/yesterday,
+                   offsets like today-7d, and past_week/past_month/next_week/next_month/this_week.
+           Combine with AND/OR and parentheses; quote property names with spaces ("Due Date" or [Due Date]).
   - sorts: Optional array of sort objects. Example:
            [{ "property": "Created", "direction": "descending" }]
            Or use timestamp: [{ "timestamp": "last_edited_time", "direction": "descending" }]
   - startCursor: Pagination cursor from previous response
-  - pageSize: Number of results to return (1-100, default: 100)
+  - continuation: Continuation token from a truncated previous response (replaces startCursor)
+  - pageSize: Number of results to return (1-${maxPageSize}, default: ${defaultPageSize})
+  - fetchAll: Fetch every page of results in a single call (default: false)
+  - maxItems: Maximum number of results to return when fetchAll is set (1-1000, default: 1000)
+  - simplify: Flatten property values to plain scalars/arrays keyed by property name (default: false)
+  - noCache: Bypass the response cache and read fresh data (default: false)
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -67,21 +183,225 @@ Returns:
     {
       databaseId: z.string().describe('The database ID'),
       filter: z.record(z.string(), z.unknown()).optional().describe('Filter object'),
+      where: z.string().optional().describe('Filter expression, e.g. Status = "Done" AND Due < today'),
       sorts: z.array(z.record(z.string(), z.unknown())).optional().describe('Array of sort objects'),
       startCursor: z.string().optional().describe('Pagination cursor'),
-      pageSize: z.number().int().min(1).max(100).default(100).describe('Number of results'),
+      continuation: z.string().optional().describe('Continuation token from a truncated response'),
+      pageSize: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxPageSize)
+        .default(defaultPageSize)
+        .describe('Number of results'),
+      fetchAll: z.boolean().default(false).describe('Fetch all pages of results'),
+      maxItems: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_FETCH_ALL_ITEMS)
+        .default(MAX_FETCH_ALL_ITEMS)
+        .describe('Maximum results to return with fetchAll'),
+      simplify: z.boolean().default(false).describe('Flatten property values to plain values'),
+      noCache: z.boolean().default(false).describe('Bypass the response cache'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ databaseId, filter, sorts, startCursor, pageSize, format }) => {
+    async ({
+      databaseId,
+      filter,
+      where,
+      sorts,
+      startCursor,
+      continuation,
+      pageSize,
+      fetchAll,
+      maxItems,
+      simplify,
+      format,
+    }) => {
       try {
-        const result = await client.queryDatabase(
-          databaseId,
+        const schema = where ? (await client.getDatabase(databaseId)).properties : {};
+        const queryFilter = combineFilters(filter as DatabaseFilter | undefined, where, schema);
+
+        const result = await fetchList(
+          (cursor, size) =>
+            client.queryDatabase(
+              databaseId,
+              queryFilter,
+              sorts as DatabaseSort[] | undefined,
+              cursor,
+              size
+            ),
+          { startCursor, continuation, pageSize, fetchAll, maxItems }
+        );
+        if (simplify) {
+          const rows = { ...result, results: result.results.map(flattenPage) };
+          return formatListResponse(rows, format, 'rows', characterLimit);
+        }
+        return formatListResponse(result, format, 'pages', characterLimit);
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Export Database
+  // ===========================================================================
+  server.tool(
+    'notion_export_database',
+    `Export every row of a Notion database as CSV, JSON Lines or a Markdown table.
+
+All pages of the query are fetched and each row's properties are flattened to
+plain values. Multi-value properties are joined with ", " in CSV and Markdown.
+
+Args:
+  - databaseId: The database ID to export
+  - noCache: Bypass the response cache and read fresh data (default: false)
+  - format: Export format ('csv', 'jsonl' or 'markdown', default: 'csv')
+  - columns: Property names to export, in output order (default: every property in
+             schema order, title first)
+  - metadata: Page metadata columns to prepend: id, url, created_time, last_edited_time
+              (default: ["id"])
+  - filter: Optional filter object using Notion's filter syntax
+  - where: Optional filter expression, as in notion_query_database
+  - sorts: Optional array of sort objects
+  - continuation: Continuation token from a truncated previous export with the same
+                  databaseId, filter, where and sorts
+
+Returns:
+  The serialized rows. If the export exceeds the response size limit, it ends at a
+  row boundary and a notice gives the continuation token for the remaining rows;
+  each continued export repeats the header.`,
+    {
+      databaseId: z.string().describe('The database ID'),
+      noCache: z.boolean().default(false).describe('Bypass the response cache'),
+      format: z.enum(['csv', 'jsonl', 'markdown']).default('csv').describe('Export format'),
+      columns: z.array(z.string()).optional().describe('Property names to export, in order'),
+      metadata: z
+        .array(z.enum(EXPORT_METADATA_COLUMNS))
+        .default(['id'])
+        .describe('Page metadata columns to include'),
+      filter: z.record(z.string(), z.unknown()).optional().describe('Filter object'),
+      where: z.string().optional().describe('Filter expression, e.g. Status = "Done"'),
+      sorts: z.array(z.record(z.string(), z.unknown())).optional().describe('Array of sort objects'),
+      continuation: z.string().optional().describe('Continuation token from a truncated export'),
+    },
+    async ({ databaseId, format, columns, metadata, filter, where, sorts, continuation }) => {
+      try {
+        const database = await client.getDatabase(databaseId);
+        const exportColumns: ExportColumns = {
+          metadata,
+          properties: selectExportColumns(database.properties, columns),
+        };
+        const queryFilter = combineFilters(
           filter as DatabaseFilter | undefined,
-          sorts as DatabaseSort[] | undefined,
-          startCursor,
-          pageSize
+          where,
+          database.properties
+        );
+
+        // Tokens are bound to the database and query, so they cannot skip rows of another
+        const query = await hashToken(JSON.stringify({ filter, where, sorts }));
+        const scope = `${normalizeId(databaseId)}:${query}`;
+        const start = continuation ? decodeContinuation(continuation, scope) : { skip: 0, scope };
+        return await exportRows(
+          (cursor, size) =>
+            client.queryDatabase(
+              databaseId,
+              queryFilter,
+              sorts as DatabaseSort[] | undefined,
+              cursor,
+              size
+            ),
+          start,
+          exportColumns,
+          format,
+          characterLimit
         );
-        return formatResponse(result, format, 'pages');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Import Rows
+  // ===========================================================================
+  server.tool(
+    'notion_import_rows',
+    `Import CSV or JSON rows into a Notion database, creating one page per row.
+
+Columns are matched to schema properties by name (case-insensitive) and values are
+coerced to each property's type, as in notion_create_page's values. Columns that match
+no writable property are ignored and listed in the result. Empty cells are left unset.
+
+Args:
+  - databaseId: The database ID to import into
+  - csv: CSV text with a header row
+  - rows: JSON rows as objects keyed by column name, e.g. [{ "Name": "Task", "Status": "Done" }]
+  - columnMap: Optional column -> property name overrides, e.g. { "Task name": "Name" }
+  - keyProperty: Optional unique key property. Rows whose key matches an existing page
+                 update that page instead of creating a duplicate. Keys are compared as
+                 property values, so "1.0" matches 1 and an email matches its user.
+  - dryRun: Validate every row and report what would happen without writing (default: false)
+  - startRow: 1-based row to start at, from the nextRow of a previous call (default: 1)
+
+Provide exactly one of csv or rows (at most ${MAX_IMPORT_ROWS} rows). Each call writes at
+most ${IMPORT_BATCH_ROWS} rows; pass the same input again with startRow set to the returned
+nextRow to import the rest.
+
+Returns:
+  A summary of created, updated and skipped rows, plus each row's outcome with the
+  page ID and any per-property validation errors. If the import stopped early, nextRow
+  is the row to continue from and error explains any failure; rows before it are committed.`,
+    {
+      databaseId: z.string().describe('The database ID'),
+      csv: z.string().optional().describe('CSV text with a header row'),
+      rows: z
+        .array(z.record(z.string(), z.unknown()))
+        .optional()
+        .describe('Rows as objects keyed by column name'),
+      columnMap: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe('Column name -> property name overrides'),
+      keyProperty: z.string().optional().describe('Unique key property for upserts'),
+      dryRun: z.boolean().default(false).describe('Validate without writing'),
+      startRow: z.number().int().min(1).optional().describe('Row to start at (from nextRow)'),
+    },
+    async ({ databaseId, csv, rows, columnMap, keyProperty, dryRun, startRow }) => {
+      try {
+        if ((csv === undefined) === (rows === undefined)) {
+          throw new ValidationError('Provide exactly one of csv or rows', {
+            csv: ['Pass CSV text with a header row, or JSON rows, but not both'],
+          });
+        }
+
+        const result = await importRows(client, databaseId, rows ?? parseCsv(csv ?? ''), {
+          columnMap,
+          keyProperty,
+          dryRun,
+          startRow,
+        });
+        const { created, updated, skipped } = result.summary;
+        let message = dryRun
+          ? `Dry run: would create ${created}, update ${updated}, skip ${skipped} rows`
+          : `Created ${created}, updated ${updated}, skipped ${skipped} rows`;
+        if (result.nextRow) {
+          message += `. Call again with startRow ${result.nextRow} to import the rest`;
+        }
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                { success: result.error === undefined, message, ...result },
+                null,
+                2
+              ),
+            },
+          ],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -159,9 +479,10 @@ Args:
                 Example: { "New Column": { "checkbox": {} }, "Old Column": null }
   - icon: New icon object, or null to remove
   - cover: New cover object, or null to remove
+  - dryRun: Preview the schema and metadata changes without updating the database (default: false)
 
 Returns:
-  The updated database object.`,
+  The updated database object, or with dryRun, each value's current and new state.`,
     {
       databaseId: z.string().describe('The database ID'),
       title: z.array(z.record(z.string(), z.unknown())).optional().describe('New title as rich text'),
@@ -169,9 +490,20 @@ Returns:
       properties: z.record(z.string(), z.unknown()).optional().describe('Properties to update'),
       icon: z.unknown().optional().describe('New icon'),
       cover: z.unknown().optional().describe('New cover'),
+      dryRun: z.boolean().default(false).describe('Preview the change without writing'),
     },
-    async ({ databaseId, title, description, properties, icon, cover }) => {
+    async ({ databaseId, title, description, properties, icon, cover, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getDatabase(databaseId);
+          const update = { title, description, properties, icon, cover } as DatabaseUpdate;
+          return formatDryRun({
+            action: 'notion_update_database',
+            target: databaseId,
+            changes: diffDatabase(current, update),
+          });
+        }
+
         const database = await client.updateDatabase(
           databaseId,
           title as any,
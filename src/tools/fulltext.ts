@@ -0,0 +1,179 @@
+/**
+ * Full-Text Index Tools
+ *
+ * MCP tools for building and querying a full-text index of a workspace subtree,
+ * with semantic search when Workers AI is bound.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { NotionClient } from '../client.js';
+import { formatError } from '../utils/formatters.js';
+import {
+  BUILD_BATCH_PAGES,
+  type FullTextIndex,
+  INDEX_TTL_SECONDS,
+  MAX_INDEXED_PAGES,
+} from '../utils/fulltext.js';
+
+/** Number of days the index is kept after its last build */
+const INDEX_DAYS = INDEX_TTL_SECONDS / (24 * 60 * 60);
+
+/**
+ * Register the full-text index tools
+ */
+export function registerFullTextTools(
+  server: McpServer,
+  client: NotionClient,
+  index: FullTextIndex
+): void {
+  // ===========================================================================
+  // Build Index
+  // ===========================================================================
+  server.tool(
+    'notion_index_build',
+    `Build or refresh the full-text index of a page or database and everything below it.
+
+Crawls child pages, child databases and database rows from the root, or every page shared with
+the integration when no root is given. Only pages whose last edit time changed since the last
+build are fetched again, so calling this again is cheap. Building from a different root replaces
+the index. The index is kept for ${INDEX_DAYS} days after the last build. When Workers AI is
+bound, page sections are also embedded for notion_semantic_search.
+
+Each call reads at most ${BUILD_BATCH_PAGES} pages and databases. When complete is false, call
+again with the same rootId to continue; the previous index stays searchable until then.
+
+Args:
+  - rootId: Page or database ID to index (default: every page shared with the integration)
+  - maxPages: Maximum number of pages and databases to index (1-${MAX_INDEXED_PAGES}, default: 200)
+  - rebuild: Re-index every page, even unchanged ones, restarting an unfinished build
+    (default: false)
+
+Returns:
+  Whether the build is complete, the number of pages still to read, numbers of pages indexed,
+  updated, unchanged and removed so far, pages that could not be read, and whether the page limit
+  was reached.`,
+    {
+      rootId: z.string().optional().describe('Page or database ID to index'),
+      maxPages: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_INDEXED_PAGES)
+        .default(200)
+        .describe('Maximum number of pages and databases to index'),
+      rebuild: z.boolean().default(false).describe('Re-index every page, even unchanged ones'),
+    },
+    async ({ rootId, maxPages, rebuild }) => {
+      try {
+        const result = await index.build(client, { rootId, maxPages, rebuild });
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({ success: true, ...result }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Index Status
+  // ===========================================================================
+  server.tool(
+    'notion_index_status',
+    `Show the state of the full-text index.
+
+Returns:
+  Whether the index is built, its root, when it was last built, the numbers of pages, databases
+  and distinct terms, whether the last build reached the page limit, whether a build is still in
+  progress and, if pages were embedded for semantic search, the embedding model.`,
+    {},
+    async () => {
+      try {
+        const status = await index.status();
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify(status, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Query Index
+  // ===========================================================================
+  server.tool(
+    'notion_index_query',
+    `Search the full-text index built by notion_index_build.
+
+Matches words anywhere in page titles, properties and content, ignoring case and accents. Pages
+matching more of the query's words rank first, then by relevance (BM25), with title matches
+weighted higher. Results reflect the last build; call notion_index_build to pick up edits.
+
+Args:
+  - query: Words to search for
+  - limit: Maximum number of results (1-50, default: 10)
+
+Returns:
+  Ranked pages and databases with their ID, title, URL, score, matched terms and a snippet of
+  text around the first match (in [[double brackets]]).`,
+    {
+      query: z.string().min(1).describe('Words to search for'),
+      limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of results'),
+    },
+    async ({ query, limit }) => {
+      try {
+        const results = await index.query(query, limit);
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify({ results }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Semantic Search
+  // ===========================================================================
+  server.tool(
+    'notion_semantic_search',
+    `Find the page sections most related in meaning to a question or description.
+
+Searches the index built by notion_index_build, where each page is split into sections at its
+headings and each section embedded with Workers AI. Finds related content even when it uses
+different words. Use the returned block IDs with notion_get_block_children or notion_update_block.
+
+When the server has no Workers AI binding, or the index was built without one, results are ranked
+by keywords instead and mode is keyword.
+
+Args:
+  - query: Question or description of what to find
+  - limit: Maximum number of sections (1-50, default: 10)
+
+Returns:
+  mode (semantic or keyword), a note when falling back to keywords, and sections with their page
+  ID, page title, URL, block ID of the section's heading (or first block), heading path,
+  similarity score and the start of the section's text.`,
+    {
+      query: z.string().min(1).describe('Question or description of what to find'),
+      limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of sections'),
+    },
+    async ({ query, limit }) => {
+      try {
+        const result = await index.semanticSearch(query, limit);
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -2,9 +2,20 @@
  * Tool exports
  */
 
-export { registerUserTools } from './users.js';
-export { registerPageTools } from './pages.js';
-export { registerDatabaseTools } from './databases.js';
 export { registerBlockTools } from './blocks.js';
-export { registerSearchTools } from './search.js';
 export { registerCommentTools } from './comments.js';
+export { registerContentTools } from './content.js';
+export { registerDatabaseTools } from './databases.js';
+export { registerFullTextTools } from './fulltext.js';
+export { registerJournalTools } from './journal.js';
+export {
+  accessPolicyMiddleware,
+  auditMiddleware,
+  cacheBypassMiddleware,
+  characterLimitMiddleware,
+  READ_ONLY_TOOLS,
+  useToolMiddleware,
+} from './middleware.js';
+export { registerPageTools } from './pages.js';
+export { registerSearchTools } from './search.js';
+export { registerUserTools } from './users.js';
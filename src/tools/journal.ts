@@ -0,0 +1,100 @@
+/**
+ * Journal Tools
+ *
+ * MCP tools for reviewing and undoing writes made through this server.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { NotionClient } from '../client.js';
+import { formatError } from '../utils/formatters.js';
+import { type ChangeJournal, JOURNAL_TTL_SECONDS, undoChange } from '../utils/journal.js';
+
+/** Number of days changes stay in the journal */
+const JOURNAL_DAYS = JOURNAL_TTL_SECONDS / (24 * 60 * 60);
+
+/**
+ * Register the change journal tools
+ */
+export function registerJournalTools(
+  server: McpServer,
+  client: NotionClient,
+  journal: ChangeJournal
+): void {
+  // ===========================================================================
+  // List Recent Changes
+  // ===========================================================================
+  server.tool(
+    'notion_list_recent_changes',
+    `List recent writes made through this server, newest first.
+
+Every page, block and database write is recorded with the state it replaced for ${JOURNAL_DAYS} days.
+Use notion_undo_change with a change ID to restore the previous state.
+
+Args:
+  - limit: Number of changes to return (1-100, default: 20)
+  - targetId: Only list changes to this page, block or database
+
+Returns:
+  Changes with their ID, timestamp, operation, target ID, summary and, if undone, undoneAt.`,
+    {
+      limit: z.number().int().min(1).max(100).default(20).describe('Number of changes'),
+      targetId: z.string().optional().describe('Only list changes to this ID'),
+    },
+    async ({ limit, targetId }) => {
+      try {
+        const entries = await journal.list(limit, targetId);
+        const changes = entries.map(({ undo: _undo, ...entry }) => entry);
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify({ changes }, null, 2) }],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Undo Change
+  // ===========================================================================
+  server.tool(
+    'notion_undo_change',
+    `Undo a write made through this server, restoring the previous state.
+
+Updated pages, blocks and databases get their previous values back, trashed pages are restored,
+deleted blocks are taken out of the trash (or, if that fails, a copy saved when they were deleted
+is re-appended to the parent), and created pages, databases and appended blocks are deleted.
+The result names any nested blocks the copy could not include; a deleted block whose content was
+too large to save can only be restored from the trash.
+
+The undo is itself recorded as a change, so it can be undone in turn.
+
+Args:
+  - changeId: ID of the change, from notion_list_recent_changes
+
+Returns:
+  What was restored and the undone change.`,
+    {
+      changeId: z.string().describe('ID of the change to undo'),
+    },
+    async ({ changeId }) => {
+      try {
+        const { change, result } = await undoChange(client, journal, changeId);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                { success: true, message: result, change: { ...change, undo: undefined } },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * Tool Middleware
+ *
+ * Hooks that wrap every tool handler registered on an MCP server.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AccessPolicy } from '../types/env.js';
+import {
+  type AuditRecord,
+  type AuditSink,
+  describeAuditError,
+  extractTargetIds,
+  sanitizeArgs,
+  writeAuditRecord,
+} from '../utils/audit.js';
+import type { CachedNotionClient } from '../utils/cache.js';
+import { getResponseError, limitResponse, type ToolResponse } from '../utils/formatters.js';
+
+/**
+ * A registered tool callback
+ */
+export type ToolHandler = (...args: unknown[]) => Promise<ToolResponse>;
+
+/**
+ * Wraps a tool handler at registration time.
+ *
+ * Return a replacement handler, or undefined to skip registering the tool.
+ */
+export type ToolMiddleware = (name: string, handler: ToolHandler) => ToolHandler | undefined;
+
+/**
+ * Tools that never modify the workspace. Tools not listed here are treated as
+ * writes, so read-only sessions never get a new tool by accident.
+ */
+export const READ_ONLY_TOOLS = new Set([
+  'notion_test_connection',
+  'notion_list_users',
+  'notion_get_user',
+  'notion_get_me',
+  'notion_get_page',
+  'notion_get_page_markdown',
+  'notion_get_page_property',
+  'notion_get_database',
+  'notion_query_database',
+  'notion_export_database',
+  'notion_get_block',
+  'notion_get_block_children',
+  'notion_search',
+  'notion_get_comments',
+  'notion_get_comment',
+  'notion_search_page_content',
+  'notion_list_recent_changes',
+  'notion_index_build',
+  'notion_index_status',
+  'notion_index_query',
+  'notion_semantic_search',
+]);
+
+/**
+ * Apply a middleware to every tool registered on the server from now on.
+ *
+ * Must be called before the tools are registered. Middlewares applied earlier
+ * wrap the ones applied later.
+ */
+export function useToolMiddleware(server: McpServer, middleware: ToolMiddleware): void {
+  const register = server.tool.bind(server) as (...args: unknown[]) => unknown;
+
+  server.tool = ((name: string, ...rest: unknown[]) => {
+    // The handler is always the last argument, whichever overload is used
+    const handler = middleware(name, rest.pop() as ToolHandler);
+    return handler ? register(name, ...rest, handler) : undefined;
+  }) as typeof server.tool;
+}
+
+/**
+ * Middleware that keeps every tool response within the character limit
+ */
+export function characterLimitMiddleware(characterLimit: number): ToolMiddleware {
+  return (_name, handler) =>
+    async (...args) =>
+      limitResponse(await handler(...args), characterLimit);
+}
+
+/**
+ * Middleware that bypasses the response cache for calls made with noCache set
+ */
+export function cacheBypassMiddleware(cache: CachedNotionClient): ToolMiddleware {
+  return (_name, handler) =>
+    async (...args) => {
+      const noCache = (args[0] as { noCache?: boolean } | undefined)?.noCache;
+      return noCache ? cache.bypass(() => handler(...args)) : handler(...args);
+    };
+}
+
+/**
+ * Middleware that only registers the tools an access policy allows
+ */
+export function accessPolicyMiddleware(policy: AccessPolicy): ToolMiddleware {
+  return (name, handler) => {
+    if (policy.mode === 'read-only' && !READ_ONLY_TOOLS.has(name)) return undefined;
+    if (policy.allowedTools && !policy.allowedTools.includes(name)) return undefined;
+    return handler;
+  };
+}
+
+/**
+ * Middleware that writes an audit record for every tool call
+ *
+ * @param tenant - Fingerprint of the tenant's token
+ * @param waitUntil - Keeps the worker alive for a write made after the response
+ */
+export function auditMiddleware(
+  tenant: Promise<string>,
+  sinks: AuditSink[],
+  waitUntil: (promise: Promise<unknown>) => void
+): ToolMiddleware {
+  return (name, handler) =>
+    async (...args) => {
+      const started = Date.now();
+      // Records are written in the background so logging never delays a response
+      const log = (error?: unknown) => {
+        const record: Omit<AuditRecord, 'tenant'> = {
+          type: 'tool_call',
+          timestamp: new Date(started).toISOString(),
+          tool: name,
+          args: sanitizeArgs(args[0]),
+          targetIds: extractTargetIds(args[0]),
+          durationMs: Date.now() - started,
+          status: error === undefined ? 'success' : 'error',
+          ...(error !== undefined && { error: describeAuditError(error) }),
+        };
+        waitUntil(
+          tenant.then((fingerprint) => writeAuditRecord(sinks, { ...record, tenant: fingerprint }))
+        );
+      };
+
+      let response: ToolResponse;
+      try {
+        response = await handler(...args);
+      } catch (error) {
+        log(error);
+        throw error;
+      }
+      // Handlers report failures as error responses rather than throwing
+      const error = response.isError
+        ? (getResponseError(response) ?? 'Tool returned an error')
+        : undefined;
+      log(error);
+      return response;
+    };
+}
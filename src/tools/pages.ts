@@ -7,12 +7,38 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { NotionClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import { type Env, getCharacterLimit } from '../types/env.js';
+import {
+  appendBlocks,
+  type BlockNode,
+  fetchAllChildren,
+  fetchBlockNode,
+  fitsInRequest,
+  inputToBlockNodes,
+} from '../utils/blocks.js';
+import { copyPage, createCopyReport, movePage, siblingTarget } from '../utils/copy.js';
+import {
+  diffPageProperties,
+  diffValues,
+  formatDryRun,
+  validatePropertyNames,
+} from '../utils/diff.js';
+import { ValidationError } from '../utils/errors.js';
+import { formatError, formatResponse, getPageTitle } from '../utils/formatters.js';
+import { type BlockInput, blocksToMarkdown, markdownToBlocks } from '../utils/markdown.js';
+import { decodeContinuation, encodeContinuation } from '../utils/pagination.js';
+import { buildPagePropertyValues, flattenPage, normalizeId } from '../utils/properties.js';
+import { createTemplateSubstitution } from '../utils/template.js';
+
+/** Characters kept free for the truncation notice of a Markdown export */
+const MARKDOWN_NOTICE_RESERVE = 200;
 
 /**
  * Register all page-related tools
  */
-export function registerPageTools(server: McpServer, client: NotionClient): void {
+export function registerPageTools(server: McpServer, client: NotionClient, env: Env): void {
+  const characterLimit = getCharacterLimit(env);
+
   // ===========================================================================
   // Get Page
   // ===========================================================================
@@ -22,18 +48,96 @@ export function registerPageTools(server: McpServer, client: NotionClient): void
 
 Args:
   - pageId: The page ID (can be with or without hyphens)
+  - simplify: Flatten property values to plain scalars/arrays keyed by property name (default: false)
+  - noCache: Bypass the response cache and read fresh data (default: false)
   - format: Response format ('json' or 'markdown')
 
 Returns:
   The page object with all properties, metadata, and parent information.`,
     {
       pageId: z.string().describe('The page ID'),
+      simplify: z.boolean().default(false).describe('Flatten property values to plain values'),
+      noCache: z.boolean().default(false).describe('Bypass the response cache'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ pageId, format }) => {
+    async ({ pageId, simplify, format }) => {
       try {
         const page = await client.getPage(pageId);
-        return formatResponse(page, format, 'page');
+        return formatResponse(simplify ? flattenPage(page) : page, format, 'page');
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Get Page as Markdown
+  // ===========================================================================
+  server.tool(
+    'notion_get_page_markdown',
+    `Export the full content of a Notion page as Markdown.
+
+Walks the page's entire block tree (including nested blocks) and renders headings, lists,
+to-dos, code, quotes, callouts, tables, toggles, equations, media and child page links.
+Child pages and databases are rendered as links; their content is not included.
+
+Long pages are cut at a top-level block boundary to fit the response size limit; the
+response then ends with a continuation token to pass back to read the rest.
+
+Args:
+  - pageId: The page ID (or any block ID with children)
+  - includeTitle: Prepend the page title as a top-level heading (default: true)
+  - maxDepth: Optional maximum nesting depth to descend into
+  - continuation: Continuation token from a truncated previous response
+  - noCache: Bypass the response cache and read fresh data (default: false)
+
+Returns:
+  The page content as Markdown.`,
+    {
+      pageId: z.string().describe('The page ID'),
+      includeTitle: z.boolean().default(true).describe('Prepend the page title as a heading'),
+      maxDepth: z.number().int().min(1).optional().describe('Maximum nesting depth'),
+      continuation: z.string().optional().describe('Continuation token from a truncated response'),
+      noCache: z.boolean().default(false).describe('Bypass the response cache'),
+    },
+    async ({ pageId, includeTitle, maxDepth, continuation }) => {
+      try {
+        // Tokens are bound to the page, so they cannot resume a different one
+        const scope = normalizeId(pageId);
+        const { skip } = continuation ? decodeContinuation(continuation, scope) : { skip: 0 };
+
+        let header = '';
+        if (includeTitle && skip === 0) {
+          const page = await client.getPage(pageId);
+          header = `# ${getPageTitle(page)}\n\n`;
+        }
+
+        // Render top-level blocks one at a time until the limit is reached
+        const blocks = await fetchAllChildren(client, pageId);
+        const budget = characterLimit - MARKDOWN_NOTICE_RESERVE;
+        const nodes: BlockNode[] = [];
+        let markdown = header;
+        let next: number | undefined;
+
+        for (let i = skip; i < blocks.length; i++) {
+          const node = await fetchBlockNode(client, blocks[i], { maxDepth });
+          const rendered = header + blocksToMarkdown([...nodes, node]);
+          if (rendered.length > budget && nodes.length > 0) {
+            next = i;
+            break;
+          }
+          nodes.push(node);
+          markdown = rendered;
+        }
+
+        if (next !== undefined) {
+          const token = encodeContinuation({ skip: next, scope });
+          markdown += `\n\n<!-- Truncated to fit the character limit. Call again with continuation "${token}" to read the rest. -->`;
+        }
+
+        return {
+          content: [{ type: 'text' as const, text: markdown }],
+        };
       } catch (error) {
         return formatError(error);
       }
@@ -54,32 +158,103 @@ Args:
   - parentType: Type of parent - 'database_id' for database pages, 'page_id' for child pages
   - properties: Page properties object. For database pages, must include properties matching the database schema.
                 For child pages, typically just { "title": { "title": [{ "text": { "content": "Page Title" } }] } }
+  - values: Simplified property values, coerced using the database schema (alternative to properties).
+            Example: { "Name": "Launch", "Status": "Done", "Due": "2026-11-01", "Tags": ["a", "b"], "Owner": "user@x.com" }
+            Dates accept YYYY-MM-DD or ISO date-times (or { "start", "end" }), people accept user IDs or emails,
+            relations accept page IDs. For child pages, use { "title": "Page Title" }.
   - children: Optional array of block objects to add as page content
+  - markdown: Optional Markdown string to add as page content (appended after children).
+              Supports headings, nested lists, task lists, fenced code, quotes, tables, dividers,
+              images, equations and inline bold/italic/strikethrough/code/links.
   - icon: Optional icon object { "type": "emoji", "emoji": "..." } or { "type": "external", "external": { "url": "..." } }
   - cover: Optional cover object { "type": "external", "external": { "url": "..." } }
+  - dryRun: Validate the input and preview the page without creating it (default: false)
 
 Returns:
-  The created page object.`,
+  The created page object, or with dryRun, the properties and Markdown content it would have.`,
     {
       parentId: z.string().describe('Parent database or page ID'),
       parentType: z
         .enum(['database_id', 'page_id'])
         .describe('Type of parent: database_id or page_id'),
-      properties: z.record(z.string(), z.unknown()).describe('Page properties object'),
+      properties: z.record(z.string(), z.unknown()).optional().describe('Page properties object'),
+      values: z
+        .record(z.string(), z.unknown())
+        .optional()
+        .describe('Simplified property values coerced using the database schema'),
       children: z.array(z.unknown()).optional().describe('Array of block objects for page content'),
+      markdown: z.string().optional().describe('Markdown content for the page'),
       icon: z.unknown().optional().describe('Icon object'),
       cover: z.unknown().optional().describe('Cover image object'),
+      dryRun: z.boolean().default(false).describe('Preview the change without writing'),
     },
-    async ({ parentId, parentType, properties, children, icon, cover }) => {
+    async ({
+      parentId,
+      parentType,
+      properties,
+      values,
+      children,
+      markdown,
+      icon,
+      cover,
+      dryRun,
+    }) => {
       try {
+        if (!properties && !values) {
+          throw new ValidationError('Provide properties or values', {
+            properties: ['Either properties or values is required'],
+          });
+        }
+        const pageProperties = {
+          ...(values &&
+            (await buildPagePropertyValues(
+              client,
+              parentType === 'database_id' ? parentId : undefined,
+              values
+            ))),
+          ...properties,
+        };
+
+        const blocks = [
+          ...((children ?? []) as BlockInput[]),
+          ...(markdown ? markdownToBlocks(markdown) : []),
+        ];
+
+        if (dryRun) {
+          // Fetching the parent confirms it exists and is accessible
+          if (parentType === 'database_id') {
+            const database = await client.getDatabase(parentId);
+            validatePropertyNames(database.properties, properties ?? {});
+          } else {
+            await client.getPage(parentId);
+          }
+          return formatDryRun({
+            action: 'notion_create_page',
+            target: parentId,
+            changes: [
+              ...diffPageProperties(undefined, pageProperties),
+              ...diffValues(undefined, icon, 'icon'),
+              ...diffValues(undefined, cover, 'cover'),
+            ],
+            blocks: blocks.length,
+            markdown: blocksToMarkdown(inputToBlockNodes(blocks)),
+          });
+        }
+
+        // Content within Notion's per-request limits is sent with the page itself;
+        // anything larger is appended once the page exists.
+        const inline = fitsInRequest(blocks);
         const page = await client.createPage(
           parentId,
           parentType,
-          properties,
-          children,
+          pageProperties,
+          inline ? blocks : undefined,
           icon,
           cover
         );
+        if (!inline && blocks.length > 0) {
+          await appendBlocks(client, page.id, blocks);
+        }
         return {
           content: [
             {
@@ -104,22 +279,56 @@ Returns:
 Args:
   - pageId: The page ID to update
   - properties: Properties to update (only include properties you want to change)
+  - values: Simplified property values to update, coerced using the parent database's schema.
+            Example: { "Status": "Done", "Due": "2026-11-01", "Tags": ["a", "b"], "Owner": "user@x.com" }
+            Use null to clear a value.
   - archived: Set to true to archive the page, false to unarchive
   - icon: New icon object, or null to remove
   - cover: New cover object, or null to remove
+  - dryRun: Preview the changed values without updating the page (default: false)
 
 Returns:
-  The updated page object.`,
+  The updated page object, or with dryRun, each value's current and new state.`,
     {
       pageId: z.string().describe('The page ID to update'),
       properties: z.record(z.string(), z.unknown()).optional().describe('Properties to update'),
+      values: z
+        .record(z.string(), z.unknown())
+        .optional()
+        .describe('Simplified property values coerced using the database schema'),
       archived: z.boolean().optional().describe('Archive or unarchive the page'),
       icon: z.unknown().optional().describe('New icon object'),
       cover: z.unknown().optional().describe('New cover object'),
+      dryRun: z.boolean().default(false).describe('Preview the change without writing'),
     },
-    async ({ pageId, properties, archived, icon, cover }) => {
+    async ({ pageId, properties, values, archived, icon, cover, dryRun }) => {
       try {
-        const page = await client.updatePage(pageId, properties, archived, icon, cover);
+        let pageProperties = properties;
+        const current = values || dryRun ? await client.getPage(pageId) : undefined;
+        if (values && current) {
+          const databaseId =
+            current.parent.type === 'database_id' ? current.parent.database_id : undefined;
+          pageProperties = {
+            ...(await buildPagePropertyValues(client, databaseId, values)),
+            ...properties,
+          };
+        }
+
+        if (dryRun && current) {
+          if (properties) validatePropertyNames(current.properties, properties);
+          return formatDryRun({
+            action: 'notion_update_page',
+            target: pageId,
+            changes: [
+              ...diffPageProperties(current, pageProperties ?? {}),
+              ...(archived !== undefined ? diffValues(current.archived, archived, 'archived') : []),
+              ...(icon !== undefined ? diffValues(current.icon, icon, 'icon') : []),
+              ...(cover !== undefined ? diffValues(current.cover, cover, 'cover') : []),
+            ],
+          });
+        }
+
+        const page = await client.updatePage(pageId, pageProperties, archived, icon, cover);
         return {
           content: [
             {
@@ -145,14 +354,27 @@ This is equivalent to deleting the page. The page can be restored from trash wit
 
 Args:
   - pageId: The page ID to trash
+  - dryRun: Preview which page would be trashed without trashing it (default: false)
 
 Returns:
   The trashed page object.`,
     {
       pageId: z.string().describe('The page ID to trash'),
+      dryRun: z.boolean().default(false).describe('Preview the change without writing'),
     },
-    async ({ pageId }) => {
+    async ({ pageId, dryRun }) => {
       try {
+        if (dryRun) {
+          const current = await client.getPage(pageId);
+          return formatDryRun({
+            action: 'notion_trash_page',
+            target: pageId,
+            changes: diffValues(current.in_trash, true, 'in_trash'),
+            title: getPageTitle(current),
+            url: current.url,
+          });
+        }
+
         const page = await client.trashPage(pageId);
         return {
           content: [
@@ -168,6 +390,213 @@ Returns:
     }
   );
 
+  // ===========================================================================
+  // Duplicate Page
+  // ===========================================================================
+  server.tool(
+    'notion_duplicate_page',
+    `Duplicate a Notion page with its properties, icon, cover and full content.
+
+The block tree is copied recursively, including nested children. Properties are matched by name
+to the target database's schema; under a page, only the title is kept. Databases, files uploaded
+to Notion and other blocks the API cannot create are skipped and reported.
+
+Args:
+  - pageId: The page ID to duplicate
+  - parentId: Parent database or page ID for the copy (default: the source page's parent)
+  - parentType: Type of parent - 'database_id' or 'page_id' (required with parentId)
+  - title: Title of the copy (default: the source title)
+  - includeChildPages: Also duplicate child pages, recursively (default: false)
+
+Returns:
+  The new page, with counts of copied pages and blocks and any skipped properties or blocks.`,
+    {
+      pageId: z.string().describe('The page ID to duplicate'),
+      parentId: z.string().optional().describe('Parent database or page ID for the copy'),
+      parentType: z
+        .enum(['database_id', 'page_id'])
+        .optional()
+        .describe('Type of parent: database_id or page_id'),
+      title: z.string().optional().describe('Title of the copy'),
+      includeChildPages: z.boolean().default(false).describe('Also duplicate child pages'),
+    },
+    async ({ pageId, parentId, parentType, title, includeChildPages }) => {
+      try {
+        if (parentId && !parentType) {
+          throw new ValidationError('Provide parentType with parentId', {
+            parentType: ['Required when parentId is set'],
+          });
+        }
+        const target =
+          parentId && parentType
+            ? { parentId, parentType }
+            : siblingTarget(await client.getPage(pageId));
+
+        const report = createCopyReport();
+        const page = await copyPage(client, pageId, target, { includeChildPages, title }, report);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                { success: true, message: 'Page duplicated', page, ...report },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Move Page
+  // ===========================================================================
+  server.tool(
+    'notion_move_page',
+    `Move a Notion page to another page or database.
+
+The API cannot change a page's parent, so the page is re-created under the new parent (properties
+mapped by name to the target database's schema, full content and child pages copied) and the
+original is moved to trash. The moved page gets a new ID and URL.
+
+If any property could not be mapped or any block could not be copied, the original is kept and
+the report lists what was left behind; review it, then trash the original with notion_trash_page,
+or call with force to trash it regardless.
+
+Args:
+  - pageId: The page ID to move
+  - parentId: The new parent database or page ID
+  - parentType: Type of parent - 'database_id' or 'page_id'
+  - force: Trash the original even if some content could not be copied (default: false)
+
+Returns:
+  The page at its new location, whether the original was trashed, and any properties or blocks
+  that could not be copied.`,
+    {
+      pageId: z.string().describe('The page ID to move'),
+      parentId: z.string().describe('The new parent database or page ID'),
+      parentType: z
+        .enum(['database_id', 'page_id'])
+        .describe('Type of parent: database_id or page_id'),
+      force: z
+        .boolean()
+        .default(false)
+        .describe('Trash the original even if content was left behind'),
+    },
+    async ({ pageId, parentId, parentType, force }) => {
+      try {
+        const { page, trashedOriginal, report } = await movePage(
+          client,
+          pageId,
+          { parentId, parentType },
+          force
+        );
+        const message = trashedOriginal
+          ? 'Page moved'
+          : 'Page copied, but the original was kept because some content could not be moved';
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                { success: true, message, page, trashedOriginal, ...report },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Create From Template
+  // ===========================================================================
+  server.tool(
+    'notion_create_from_template',
+    `Create a page from a template page, filling in {{placeholders}}.
+
+The template's properties, icon, cover and full content are copied, and every {{name}} in rich
+text, titles and property values (text, select options, URLs, emails, phone numbers) is replaced
+by the matching variable. {{date}} defaults to today's date (YYYY-MM-DD). Placeholders without a
+value are left as they are and reported. A placeholder must not be split by formatting.
+
+Args:
+  - templateId: The template page ID
+  - variables: Values for the placeholders, e.g. { "team": "Payments", "severity": "SEV-2" }
+  - parentId: Parent database or page ID for the new page (default: the template's parent)
+  - parentType: Type of parent - 'database_id' or 'page_id' (required with parentId)
+  - title: Title of the new page, which may contain placeholders (default: the template title)
+  - includeChildPages: Also copy the template's child pages (default: false)
+
+Returns:
+  The new page, any placeholders without a value, and any skipped properties or blocks.`,
+    {
+      templateId: z.string().describe('The template page ID'),
+      variables: z
+        .record(z.string(), z.string())
+        .default({})
+        .describe('Values for the {{placeholders}}'),
+      parentId: z.string().optional().describe('Parent database or page ID for the new page'),
+      parentType: z
+        .enum(['database_id', 'page_id'])
+        .optional()
+        .describe('Type of parent: database_id or page_id'),
+      title: z.string().optional().describe('Title of the new page'),
+      includeChildPages: z.boolean().default(false).describe("Also copy the template's child pages"),
+    },
+    async ({ templateId, variables, parentId, parentType, title, includeChildPages }) => {
+      try {
+        if (parentId && !parentType) {
+          throw new ValidationError('Provide parentType with parentId', {
+            parentType: ['Required when parentId is set'],
+          });
+        }
+        const target =
+          parentId && parentType
+            ? { parentId, parentType }
+            : siblingTarget(await client.getPage(templateId));
+
+        const substitution = createTemplateSubstitution(variables);
+        const report = createCopyReport();
+        const page = await copyPage(
+          client,
+          templateId,
+          target,
+          { includeChildPages, title, transformText: substitution.transform },
+          report
+        );
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: 'Page created from template',
+                  page,
+                  missingVariables: [...substitution.missing],
+                  ...report,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
   // ===========================================================================
   // Get Page Property
   // ===========================================================================
@@ -8,12 +8,31 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { NotionClient } from '../client.js';
 import type { SearchFilter, SearchSort } from '../types/entities.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import {
+  type Env,
+  getCharacterLimit,
+  getDefaultPageSize,
+  getMaxPageSize,
+} from '../types/env.js';
+import { formatError, formatListResponse } from '../utils/formatters.js';
+import { fetchList, MAX_FETCH_ALL_ITEMS, refineList } from '../utils/pagination.js';
+import { flattenResult } from '../utils/properties.js';
+import { MAX_PATTERN_LENGTH } from '../utils/regex.js';
+import {
+  buildResultPredicate,
+  compareTitleMatch,
+  hasResultFilter,
+  type SearchResultFilter,
+} from '../utils/search.js';
 
 /**
  * Register search-related tools
  */
-export function registerSearchTools(server: McpServer, client: NotionClient): void {
+export function registerSearchTools(server: McpServer, client: NotionClient, env: Env): void {
+  const defaultPageSize = getDefaultPageSize(env);
+  const maxPageSize = getMaxPageSize(env);
+  const characterLimit = getCharacterLimit(env);
+
   // ===========================================================================
   // Search
   // ===========================================================================
@@ -21,7 +40,11 @@ export function registerSearchTools(server: McpServer, client: NotionClient): vo
     'notion_search',
     `Search for pages and databases in Notion by title.
 
-Searches across all pages and databases that have been shared with the integration.
+Searches across all pages and databases that have been shared with the integration. With a query
+and no sort, exact title matches come first, then titles starting with or containing the query.
+
+The result filters (parentId to titlePattern) are applied by this server after paginating through
+the search: up to maxItems results are scanned, and pageSize matches returned (all with fetchAll).
 
 Args:
   - query: Optional search query string. Searches by title match.
@@ -32,8 +55,23 @@ Args:
   - sort: Optional sort configuration.
           Example: { "direction": "ascending", "timestamp": "last_edited_time" }
           Or: { "direction": "descending", "timestamp": "last_edited_time" }
+  - parentId: Only results whose direct parent is this page, database or block
+  - createdAfter / createdBefore: Only results created in this range (ISO 8601 date or date-time;
+                                  after is inclusive, before exclusive)
+  - editedAfter / editedBefore: Only results last edited in this range
+  - createdBy / lastEditedBy: Only results created or last edited by this user ID
+  - archived: Only results in (true) or out of (false) the trash
+  - titlePattern: Only results whose title matches this regular expression (ignoring case; at
+                  most ${MAX_PATTERN_LENGTH} characters, without backreferences or nested
+                  quantifiers such as (a+)+)
   - startCursor: Pagination cursor from previous response
-  - pageSize: Number of results to return (1-100, default: 100)
+  - continuation: Continuation token from a truncated previous response (replaces startCursor)
+  - pageSize: Number of results to return (1-${maxPageSize}, default: ${defaultPageSize})
+  - fetchAll: Fetch every page of results in a single call (default: false)
+  - maxItems: Maximum number of results to return when fetchAll is set, or to scan with result
+              filters (1-1000, default: 1000)
+  - simplify: Flatten property values to plain scalars/arrays keyed by property name (default: false).
+              Databases are flattened to their title and property types.
   - format: Response format ('json' or 'markdown')
 
 Returns:
@@ -42,20 +80,78 @@ Returns:
       query: z.string().optional().describe('Search query string'),
       filter: z.record(z.string(), z.unknown()).optional().describe('Filter for pages or databases only'),
       sort: z.record(z.string(), z.unknown()).optional().describe('Sort configuration'),
+      parentId: z.string().optional().describe('Only results with this direct parent'),
+      createdAfter: z.string().optional().describe('Only results created at or after this date'),
+      createdBefore: z.string().optional().describe('Only results created before this date'),
+      editedAfter: z.string().optional().describe('Only results edited at or after this date'),
+      editedBefore: z.string().optional().describe('Only results edited before this date'),
+      createdBy: z.string().optional().describe('Only results created by this user ID'),
+      lastEditedBy: z.string().optional().describe('Only results last edited by this user ID'),
+      archived: z.boolean().optional().describe('Only results in (true) or out of the trash'),
+      titlePattern: z
+        .string()
+        .max(MAX_PATTERN_LENGTH)
+        .optional()
+        .describe('Regular expression the title must match'),
       startCursor: z.string().optional().describe('Pagination cursor'),
-      pageSize: z.number().int().min(1).max(100).default(100).describe('Number of results'),
+      continuation: z.string().optional().describe('Continuation token from a truncated response'),
+      pageSize: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxPageSize)
+        .default(defaultPageSize)
+        .describe('Number of results'),
+      fetchAll: z.boolean().default(false).describe('Fetch all pages of results'),
+      maxItems: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_FETCH_ALL_ITEMS)
+        .default(MAX_FETCH_ALL_ITEMS)
+        .describe('Maximum results to return with fetchAll'),
+      simplify: z.boolean().default(false).describe('Flatten property values to plain values'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
-    async ({ query, filter, sort, startCursor, pageSize, format }) => {
+    async ({
+      query,
+      filter,
+      sort,
+      startCursor,
+      continuation,
+      pageSize,
+      fetchAll,
+      maxItems,
+      simplify,
+      format,
+      ...conditions
+    }) => {
       try {
-        const result = await client.search(
-          query,
-          filter as SearchFilter | undefined,
-          sort as SearchSort | undefined,
-          startCursor,
-          pageSize
+        const resultFilter: SearchResultFilter = conditions;
+        const filtered = hasResultFilter(resultFilter);
+        const keep = buildResultPredicate(resultFilter);
+        const rank = query && !sort ? compareTitleMatch(query) : undefined;
+
+        // Result filters scan up to maxItems results, whether or not fetchAll is set
+        const fetched = await fetchList(
+          (cursor, size) =>
+            client.search(
+              query,
+              filter as SearchFilter | undefined,
+              sort as SearchSort | undefined,
+              cursor,
+              size
+            ),
+          { startCursor, continuation, pageSize, fetchAll: fetchAll || filtered, maxItems }
         );
-        return formatResponse(result, format, 'search results');
+        const result = filtered || rank ? refineList(fetched, keep, rank, continuation) : fetched;
+        const limit = fetchAll ? result.results.length : pageSize;
+
+        if (simplify) {
+          const rows = { ...result, results: result.results.map(flattenResult) };
+          return formatListResponse(rows, format, 'rows', characterLimit, limit);
+        }
+        return formatListResponse(result, format, 'search results', characterLimit, limit);
       } catch (error) {
         return formatError(error);
       }
@@ -7,12 +7,23 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { NotionClient } from '../client.js';
-import { formatError, formatResponse } from '../utils/formatters.js';
+import {
+  type Env,
+  getCharacterLimit,
+  getDefaultPageSize,
+  getMaxPageSize,
+} from '../types/env.js';
+import { formatError, formatListResponse, formatResponse } from '../utils/formatters.js';
+import { fetchList, MAX_FETCH_ALL_ITEMS } from '../utils/pagination.js';
 
 /**
  * Register all user-related tools
  */
-export function registerUserTools(server: McpServer, client: NotionClient): void {
+export function registerUserTools(server: McpServer, client: NotionClient, env: Env): void {
+  const defaultPageSize = getDefaultPageSize(env);
+  const maxPageSize = getMaxPageSize(env);
+  const characterLimit = getCharacterLimit(env);
+
   // ===========================================================================
   // List Users
   // ===========================================================================
@@ -24,20 +35,43 @@ Returns a paginated list of all users (people and bots) that have access to the
 
 Args:
   - startCursor: Pagination cursor from previous response
-  - pageSize: Number of users to return (1-100, default: 100)
+  - continuation: Continuation token from a truncated previous response (replaces startCursor)
+  - pageSize: Number of users to return (1-${maxPageSize}, default: ${defaultPageSize})
+  - fetchAll: Fetch every page of results in a single call (default: false)
+  - maxItems: Maximum number of users to return when fetchAll is set (1-1000, default: 1000)
+  - noCache: Bypass the response cache and read fresh data (default: false)
   - format: Response format ('json' or 'markdown')
 
 Returns:
   List of users with their IDs, names, types, and email addresses.`,
     {
       startCursor: z.string().optional().describe('Pagination cursor from previous response'),
-      pageSize: z.number().int().min(1).max(100).default(100).describe('Number of users to return'),
+      continuation: z.string().optional().describe('Continuation token from a truncated response'),
+      pageSize: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxPageSize)
+        .default(defaultPageSize)
+        .describe('Number of users to return'),
+      fetchAll: z.boolean().default(false).describe('Fetch all pages of results'),
+      maxItems: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_FETCH_ALL_ITEMS)
+        .default(MAX_FETCH_ALL_ITEMS)
+        .describe('Maximum users to return with fetchAll'),
+      noCache: z.boolean().default(false).describe('Bypass the response cache'),
       format: z.enum(['json', 'markdown']).default('json').describe('Response format'),
     },
-    async ({ startCursor, pageSize, format }) => {
+    async ({ startCursor, continuation, pageSize, fetchAll, maxItems, format }) => {
       try {
-        const result = await client.listUsers(startCursor, pageSize);
-        return formatResponse(result, format, 'users');
+        const result = await fetchList(
+          (cursor, size) => client.listUsers(cursor, size),
+          { startCursor, continuation, pageSize, fetchAll, maxItems }
+        );
+        return formatListResponse(result, format, 'users', characterLimit);
       } catch (error) {
         return formatError(error);
       }
@@ -53,12 +87,14 @@ Returns:
 
 Args:
   - userId: The user's Notion ID
+  - noCache: Bypass the response cache and read fresh data (default: false)
   - format: Response format ('json' or 'markdown')
 
 Returns:
   The user object with all available details.`,
     {
       userId: z.string().describe('The user ID'),
+      noCache: z.boolean().default(false).describe('Bypass the response cache'),
       format: z.enum(['json', 'markdown']).default('json'),
     },
     async ({ userId, format }) => {
@@ -8,19 +8,47 @@
  * are passed via request headers, NOT stored in wrangler secrets. This allows a single
  * server instance to serve multiple customers.
  *
- * Request Headers:
- * - X-Notion-Integration-Token: Notion integration token (required)
+ * Request Headers (one of):
+ * - X-Notion-Integration-Token: Notion integration token
+ * - X-Notion-Session-Key: Session key issued by the OAuth flow
  */
 
 // =============================================================================
 // Tenant Credentials (parsed from request headers)
 // =============================================================================
 
-export interface TenantCredentials {
+/**
+ * Credentials from a static internal integration token
+ */
+export interface IntegrationTokenCredentials {
+  type: 'integration';
   /** Notion Integration Token (from X-Notion-Integration-Token header) */
   integrationToken: string;
 }
 
+/**
+ * Workspace an OAuth access token was granted for
+ */
+export interface OAuthWorkspace {
+  workspaceId: string;
+  workspaceName?: string;
+  workspaceIcon?: string;
+  /** ID of the bot user that acts for the public integration in this workspace */
+  botId: string;
+}
+
+/**
+ * Credentials from the OAuth flow of a public integration
+ */
+export interface OAuthCredentials {
+  type: 'oauth';
+  /** OAuth access token (looked up by the X-Notion-Session-Key header) */
+  accessToken: string;
+  workspace: OAuthWorkspace;
+}
+
+export type TenantCredentials = IntegrationTokenCredentials | OAuthCredentials;
+
 /**
  * Parse tenant credentials from request headers
  */
@@ -28,19 +56,88 @@ export function parseTenantCredentials(request: Request): TenantCredentials {
   const headers = request.headers;
 
   return {
+    type: 'integration',
     integrationToken: headers.get('X-Notion-Integration-Token') || '',
   };
 }
 
+/**
+ * Get the token to send to the Notion API
+ */
+export function getAccessToken(credentials: TenantCredentials): string {
+  return credentials.type === 'oauth' ? credentials.accessToken : credentials.integrationToken;
+}
+
 /**
  * Validate that required credentials are present
  */
 export function validateCredentials(credentials: TenantCredentials): void {
-  if (!credentials.integrationToken) {
-    throw new Error('Missing credentials. Provide X-Notion-Integration-Token header.');
+  if (!getAccessToken(credentials)) {
+    throw new Error(
+      'Missing credentials. Provide X-Notion-Integration-Token header, ' +
+        'or X-Notion-Session-Key header from the OAuth flow.'
+    );
   }
 }
 
+// =============================================================================
+// Access Policy (parsed from request headers)
+// =============================================================================
+
+/**
+ * Access mode: read-only sessions only get read tools
+ */
+export type AccessMode = 'read-only' | 'read-write';
+
+/**
+ * Restrictions on what a tenant's session may do
+ */
+export interface AccessPolicy {
+  mode: AccessMode;
+  /** Only these tools are registered (default: all tools allowed by the mode) */
+  allowedTools?: string[];
+  /** Writes must target these pages/databases or their descendants (default: anywhere) */
+  allowedRoots?: string[];
+}
+
+/**
+ * Split a comma-separated header into its non-empty values
+ */
+function parseList(value: string | null): string[] | undefined {
+  const items = value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+/**
+ * Parse the access policy from request headers.
+ *
+ * The server-wide ACCESS_MODE can only be tightened by the X-Notion-Mode
+ * header, never loosened.
+ *
+ * Request Headers (all optional):
+ * - X-Notion-Mode: read-only | read-write
+ * - X-Notion-Allowed-Tools: Comma-separated tool names
+ * - X-Notion-Allowed-Roots: Comma-separated page/database IDs that writes must stay under
+ *
+ * @throws Error for an unknown mode, so a typo never grants write access
+ */
+export function parseAccessPolicy(request: Request, env: Env): AccessPolicy {
+  const headers = request.headers;
+  const mode = headers.get('X-Notion-Mode')?.trim().toLowerCase() || 'read-write';
+  if (mode !== 'read-only' && mode !== 'read-write') {
+    throw new Error(`Invalid X-Notion-Mode '${mode}'. Use read-only or read-write.`);
+  }
+
+  return {
+    mode: env.ACCESS_MODE === 'read-only' ? 'read-only' : mode,
+    allowedTools: parseList(headers.get('X-Notion-Allowed-Tools')),
+    allowedRoots: parseList(headers.get('X-Notion-Allowed-Roots')),
+  };
+}
+
 // =============================================================================
 // Environment Configuration (from wrangler.jsonc vars and bindings)
 // =============================================================================
@@ -59,6 +156,30 @@ export interface Env {
   /** Maximum page size allowed */
   MAX_PAGE_SIZE: string;
 
+  /** Maximum number of attempts per Notion API request (including the first) */
+  RETRY_MAX_ATTEMPTS?: string;
+
+  /** Total time budget in milliseconds for retrying a Notion API request */
+  RETRY_MAX_ELAPSED_MS?: string;
+
+  /** Server-wide access mode: 'read-only' registers only read tools for every tenant */
+  ACCESS_MODE?: string;
+
+  /** OAuth client ID of the public integration (enables the /oauth endpoints) */
+  NOTION_OAUTH_CLIENT_ID?: string;
+
+  /** OAuth client secret of the public integration (set as a secret) */
+  NOTION_OAUTH_CLIENT_SECRET?: string;
+
+  /** Redirect URI registered for the public integration, ending in /oauth/callback */
+  NOTION_OAUTH_REDIRECT_URI?: string;
+
+  /** Authorization URL (default: Notion's; override to test against a fake) */
+  NOTION_OAUTH_AUTHORIZE_URL?: string;
+
+  /** Token exchange URL (default: Notion's; override to test against a fake) */
+  NOTION_OAUTH_TOKEN_URL?: string;
+
   // ===========================================================================
   // Bindings
   // ===========================================================================
@@ -66,7 +187,19 @@ export interface Env {
   /** KV namespace for caching */
   CACHE_KV?: KVNamespace;
 
-  /** Cloudflare AI binding (optional) */
+  /** KV namespace for server state such as OAuth sessions, the change journal and search index */
+  STATE_KV?: KVNamespace;
+
+  /** KV namespace that keeps audit records of tool calls (optional) */
+  AUDIT_KV?: KVNamespace;
+
+  /** Queue that receives audit records of tool calls (optional) */
+  AUDIT_QUEUE?: Queue;
+
+  /** Durable Object namespace for stateful MCP sessions (NotionMcpAgent) */
+  MCP_OBJECT?: DurableObjectNamespace;
+
+  /** Cloudflare AI binding, used to embed pages for semantic search (optional) */
   AI?: Ai;
 }
 
@@ -106,3 +239,31 @@ export function getDefaultPageSize(env: Env): number {
 export function getMaxPageSize(env: Env): number {
   return getEnvNumber(env, 'MAX_PAGE_SIZE', 100);
 }
+
+/**
+ * Get the maximum number of attempts per API request from environment
+ */
+export function getRetryMaxAttempts(env: Env): number {
+  return getEnvNumber(env, 'RETRY_MAX_ATTEMPTS', 3);
+}
+
+/**
+ * Get the total retry time budget in milliseconds from environment
+ */
+export function getRetryMaxElapsedMs(env: Env): number {
+  return getEnvNumber(env, 'RETRY_MAX_ELAPSED_MS', 30000);
+}
+
+/**
+ * Get the OAuth authorization URL from environment
+ */
+export function getOAuthAuthorizeUrl(env: Env): string {
+  return env.NOTION_OAUTH_AUTHORIZE_URL || 'https://api.notion.com/v1/oauth/authorize';
+}
+
+/**
+ * Get the OAuth token exchange URL from environment
+ */
+export function getOAuthTokenUrl(env: Env): string {
+  return env.NOTION_OAUTH_TOKEN_URL || 'https://api.notion.com/v1/oauth/token';
+}
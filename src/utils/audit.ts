@@ -0,0 +1,157 @@
+/**
+ * Audit Logging
+ *
+ * Structured records of tool calls, written to the Workers console and
+ * optionally to a KV namespace or a Queue for retention across tenants.
+ */
+
+import type { Env } from '../types/env.js';
+import { NotionApiError } from './errors.js';
+
+/** Seconds an audit record is kept in KV */
+export const AUDIT_KV_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * String arguments logged verbatim besides IDs: options that never carry
+ * workspace content. Other strings are logged by length.
+ */
+const LOGGED_STRING_ARGS = new Set(['format', 'parentType', 'startCursor', 'continuation']);
+
+/** Arguments that name pages, blocks, databases, users or comments */
+const ID_ARG_PATTERN = /Id$/;
+
+/** Argument names whose values are never logged */
+const SENSITIVE_ARG_PATTERN = /token|secret|password|authorization/i;
+
+/**
+ * Record of a single tool call
+ */
+export interface AuditRecord {
+  type: 'tool_call';
+  timestamp: string;
+  /** Fingerprint of the tenant's token (a truncated hash, never the token itself) */
+  tenant: string;
+  tool: string;
+  /** Arguments with IDs and options kept, and anything else replaced by its size */
+  args: Record<string, unknown>;
+  /** Page, block, database, user and comment IDs named in the arguments */
+  targetIds: string[];
+  durationMs: number;
+  status: 'success' | 'error';
+  error?: {
+    code: string;
+    /** HTTP status code of the failed Notion request, if one was made */
+    statusCode?: number;
+    message: string;
+  };
+}
+
+/**
+ * Destination for audit records
+ */
+export type AuditSink = (record: AuditRecord) => Promise<void>;
+
+// =============================================================================
+// Sinks
+// =============================================================================
+
+/**
+ * Sink that writes each record as a single JSON line to the Workers console
+ */
+export const consoleAuditSink: AuditSink = async (record) => {
+  console.log(JSON.stringify(record));
+};
+
+/**
+ * Sink that stores records in KV, listable per tenant in time order
+ */
+export function kvAuditSink(kv: KVNamespace): AuditSink {
+  return (record) =>
+    kv.put(
+      `audit:${record.tenant}:${record.timestamp}:${crypto.randomUUID().slice(0, 8)}`,
+      JSON.stringify(record),
+      { expirationTtl: AUDIT_KV_TTL_SECONDS }
+    );
+}
+
+/**
+ * Sink that sends records to a Queue for a consumer to ship elsewhere
+ */
+export function queueAuditSink(queue: Queue): AuditSink {
+  return async (record) => {
+    await queue.send(record);
+  };
+}
+
+/**
+ * Get the sinks configured for the environment; the console is always included
+ */
+export function getAuditSinks(env: Env): AuditSink[] {
+  return [
+    consoleAuditSink,
+    ...(env.AUDIT_KV ? [kvAuditSink(env.AUDIT_KV)] : []),
+    ...(env.AUDIT_QUEUE ? [queueAuditSink(env.AUDIT_QUEUE)] : []),
+  ];
+}
+
+/**
+ * Write a record to every sink. Sink failures are ignored so logging never
+ * fails a tool call.
+ */
+export async function writeAuditRecord(sinks: AuditSink[], record: AuditRecord): Promise<void> {
+  await Promise.all(sinks.map((sink) => sink(record).catch(() => undefined)));
+}
+
+// =============================================================================
+// Record Helpers
+// =============================================================================
+
+/**
+ * Replace argument content with its size so records carry no workspace data.
+ * Only IDs, numbers, booleans and the string options in LOGGED_STRING_ARGS
+ * are kept as they are.
+ */
+export function sanitizeArgs(args: unknown): Record<string, unknown> {
+  if (typeof args !== 'object' || args === null) return {};
+
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (value === undefined) continue;
+    if (SENSITIVE_ARG_PATTERN.test(key)) {
+      sanitized[key] = '[redacted]';
+    } else if (typeof value === 'string') {
+      const logged = ID_ARG_PATTERN.test(key) || LOGGED_STRING_ARGS.has(key);
+      sanitized[key] = logged ? value : `[${value.length} characters]`;
+    } else if (Array.isArray(value)) {
+      sanitized[key] = `[${value.length} items]`;
+    } else if (typeof value === 'object' && value !== null) {
+      sanitized[key] = `[${Object.keys(value).length} keys]`;
+    } else {
+      sanitized[key] = value;
+    }
+  }
+  return sanitized;
+}
+
+/**
+ * Collect the IDs named in tool arguments (pageId, blockId, parentId, ...)
+ */
+export function extractTargetIds(args: unknown): string[] {
+  if (typeof args !== 'object' || args === null) return [];
+  return Object.entries(args)
+    .filter(([key, value]) => ID_ARG_PATTERN.test(key) && typeof value === 'string' && value !== '')
+    .map(([, value]) => value as string);
+}
+
+/**
+ * Describe a tool call failure for an audit record
+ */
+export function describeAuditError(error: unknown): NonNullable<AuditRecord['error']> {
+  if (error instanceof NotionApiError) {
+    return { code: error.code, statusCode: error.statusCode, message: error.message };
+  }
+  return {
+    code: error instanceof Error ? error.name : 'UNKNOWN_ERROR',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * Block Tree Utilities
+ *
+ * Helpers for walking a Notion block tree and reading block content.
+ */
+
+import type { NotionClient } from '../client.js';
+import type { Block, RichTextItem } from '../types/entities.js';
+import { paginate } from './pagination.js';
+
+/**
+ * A block together with its (recursively fetched) children
+ */
+export interface BlockNode {
+  block: Block;
+  children: BlockNode[];
+}
+
+/**
+ * Options for fetching a block tree
+ */
+export interface BlockTreeOptions {
+  /** Maximum nesting depth to descend into (default: unlimited) */
+  maxDepth?: number;
+}
+
+/**
+ * Block types whose children are separate pages or databases, not inline content
+ */
+const OPAQUE_BLOCK_TYPES = new Set(['child_page', 'child_database']);
+
+/** Maximum number of blocks Notion accepts in a single children array */
+const MAX_BLOCKS_PER_REQUEST = 100;
+
+/** Maximum nesting depth of children Notion accepts in a single request */
+const MAX_NESTING_PER_REQUEST = 2;
+
+/** Maximum number of blocks, at every level, Notion accepts in a single request */
+const MAX_BLOCKS_PER_PAYLOAD = 1000;
+
+/**
+ * Fetch all children of a block or page, following pagination
+ */
+export async function fetchAllChildren(client: NotionClient, blockId: string): Promise<Block[]> {
+  const blocks: Block[] = [];
+  for await (const block of paginate((cursor, size) => client.getBlockChildren(blockId, cursor, size))) {
+    blocks.push(block);
+  }
+  return blocks;
+}
+
+/**
+ * Recursively fetch the block tree below a block or page.
+ *
+ * Children of child pages and child databases are not fetched, since they
+ * belong to a different page.
+ */
+export async function fetchBlockTree(
+  client: NotionClient,
+  blockId: string,
+  options: BlockTreeOptions = {},
+  depth = 0
+): Promise<BlockNode[]> {
+  const blocks = await fetchAllChildren(client, blockId);
+  const nodes: BlockNode[] = [];
+
+  for (const block of blocks) {
+    nodes.push(await fetchBlockNode(client, block, options, depth));
+  }
+
+  return nodes;
+}
+
+/**
+ * Fetch the subtree below an already retrieved block
+ */
+export async function fetchBlockNode(
+  client: NotionClient,
+  block: Block,
+  options: BlockTreeOptions = {},
+  depth = 0
+): Promise<BlockNode> {
+  const descend =
+    block.has_children &&
+    !OPAQUE_BLOCK_TYPES.has(block.type) &&
+    (options.maxDepth === undefined || depth + 1 < options.maxDepth);
+
+  return {
+    block,
+    children: descend ? await fetchBlockTree(client, block.id, options, depth + 1) : [],
+  };
+}
+
+/**
+ * Get the type-specific content object of a block (e.g. block.paragraph)
+ */
+export function getBlockContent(block: Block): Record<string, unknown> {
+  const content = block[block.type];
+  return typeof content === 'object' && content !== null
+    ? (content as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Get the rich text of a block, or an empty array for blocks without text
+ */
+export function getBlockRichText(block: Block): RichTextItem[] {
+  const richText = getBlockContent(block).rich_text;
+  return Array.isArray(richText) ? (richText as RichTextItem[]) : [];
+}
+
+/**
+ * Get the children array nested inside a block input object, if any
+ */
+function getInputChildren(block: Record<string, unknown>): Record<string, unknown>[] {
+  const content = block[block.type as string] as Record<string, unknown> | undefined;
+  return Array.isArray(content?.children) ? (content.children as Record<string, unknown>[]) : [];
+}
+
+/**
+ * Return a copy of a block input object with its nested children removed
+ */
+function withoutChildren(block: Record<string, unknown>): Record<string, unknown> {
+  const type = block.type as string;
+  const { children: _children, ...content } = (block[type] ?? {}) as Record<string, unknown>;
+  return { ...block, [type]: content };
+}
+
+/**
+ * Convert block input objects into a tree of nodes, e.g. to render them as
+ * Markdown before they are written
+ */
+export function inputToBlockNodes(blocks: Record<string, unknown>[]): BlockNode[] {
+  return blocks.map((block) => ({
+    block: withoutChildren(block) as unknown as Block,
+    children: inputToBlockNodes(getInputChildren(block)),
+  }));
+}
+
+/**
+ * Children to append once a block sent in a request exists
+ */
+interface DeferredChildren {
+  /** Positions of the nested block they belong to, below the top-level block */
+  path: number[];
+  children: Record<string, unknown>[];
+}
+
+/**
+ * Split a block input object into what is sent inline and the children to
+ * append afterwards.
+ *
+ * The first MAX_BLOCKS_PER_REQUEST children of each block are kept inline,
+ * down to the two levels Notion accepts per request, so blocks that need
+ * children on creation (table rows, columns and their content) always get
+ * them. Further children, and anything nested deeper, are deferred.
+ */
+function splitInline(
+  block: Record<string, unknown>,
+  deferred: DeferredChildren[],
+  path: number[] = []
+): Record<string, unknown> {
+  const children = getInputChildren(block);
+  if (children.length === 0) return block;
+  if (path.length >= MAX_NESTING_PER_REQUEST) {
+    deferred.push({ path, children });
+    return withoutChildren(block);
+  }
+
+  const rest = children.slice(MAX_BLOCKS_PER_REQUEST);
+  if (rest.length > 0) deferred.push({ path, children: rest });
+  const inline = children
+    .slice(0, MAX_BLOCKS_PER_REQUEST)
+    .map((child, i) => splitInline(child, deferred, [...path, i]));
+  const type = block.type as string;
+  return { ...block, [type]: { ...(block[type] as Record<string, unknown>), children: inline } };
+}
+
+/**
+ * Number of blocks in a block input object, including its nested children
+ */
+function countBlocks(block: Record<string, unknown>): number {
+  return getInputChildren(block).reduce((sum, child) => sum + countBlocks(child), 1);
+}
+
+/**
+ * Check whether a list of block objects can be sent in a single request
+ */
+export function fitsInRequest(blocks: Record<string, unknown>[]): boolean {
+  const deferred: DeferredChildren[] = [];
+  for (const block of blocks) splitInline(block, deferred);
+  const total = blocks.reduce((sum, block) => sum + countBlocks(block), 0);
+  return (
+    blocks.length <= MAX_BLOCKS_PER_REQUEST &&
+    deferred.length === 0 &&
+    total <= MAX_BLOCKS_PER_PAYLOAD
+  );
+}
+
+/**
+ * Find a block created in a request from its position below a top-level block
+ */
+async function findCreated(client: NotionClient, rootId: string, path: number[]): Promise<string> {
+  let id = rootId;
+  for (const index of path) {
+    const child = (await fetchAllChildren(client, id))[index];
+    if (!child) throw new Error(`Created block ${path.join('.')} not found below ${rootId}`);
+    id = child.id;
+  }
+  return id;
+}
+
+/**
+ * Append block objects to a block or page, working around Notion's limits.
+ *
+ * Blocks are sent in batches of at most 100 top-level blocks and
+ * MAX_BLOCKS_PER_PAYLOAD blocks in all. Children beyond the first 100 of a
+ * block, or nested deeper than the two levels Notion accepts per request, are
+ * appended in follow-up requests to the newly created blocks.
+ *
+ * @returns The created top-level blocks, in order
+ */
+export async function appendBlocks(
+  client: NotionClient,
+  parentId: string,
+  blocks: Record<string, unknown>[]
+): Promise<Block[]> {
+  const created: Block[] = [];
+
+  let start = 0;
+  while (start < blocks.length) {
+    const payload: Record<string, unknown>[] = [];
+    const deferred: DeferredChildren[][] = [];
+    let size = 0;
+    while (start + payload.length < blocks.length && payload.length < MAX_BLOCKS_PER_REQUEST) {
+      const pending: DeferredChildren[] = [];
+      const inline = splitInline(blocks[start + payload.length], pending);
+      const count = countBlocks(inline);
+      // A single oversized block still goes on its own
+      if (payload.length > 0 && size + count > MAX_BLOCKS_PER_PAYLOAD) break;
+      payload.push(inline);
+      deferred.push(pending);
+      size += count;
+    }
+    start += payload.length;
+
+    const response = await client.appendBlockChildren(parentId, payload);
+    created.push(...response.results);
+
+    for (let i = 0; i < payload.length; i++) {
+      const target = response.results[i];
+      if (!target) continue;
+      for (const { path, children } of deferred[i]) {
+        await appendBlocks(client, await findCreated(client, target.id, path), children);
+      }
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Build the notion.so URL for a page, database or block ID
+ */
+export function notionUrl(id: string): string {
+  return `https://www.notion.so/${id.replace(/-/g, '')}`;
+}
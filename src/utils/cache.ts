@@ -0,0 +1,363 @@
+/**
+ * Response Cache
+ *
+ * Cache for read operations of the Notion client, keyed per tenant and backed
+ * by KV or, for a single session, by memory.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { type NotionClient, NotionClientDecorator } from '../client.js';
+import type {
+  Block,
+  Database,
+  Page,
+  PaginatedResponse,
+  RichTextItem,
+  User,
+} from '../types/entities.js';
+import { getParentId, normalizeId } from './properties.js';
+
+/**
+ * Time to live in seconds for each cached entity (KV requires at least 60)
+ */
+export const CACHE_TTLS = {
+  database: 300,
+  user: 3600,
+  users: 600,
+  page: 60,
+  children: 60,
+} as const;
+
+export type CachedEntity = keyof typeof CACHE_TTLS;
+
+/**
+ * Key-value storage for cached responses
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** List the keys that start with a prefix */
+  list(prefix: string): Promise<string[]>;
+}
+
+/**
+ * Cache store backed by a KV namespace, shared by every request of a tenant
+ */
+export function kvCacheStore(kv: KVNamespace): CacheStore {
+  return {
+    get: (key) => kv.get(key),
+    put: (key, value, ttlSeconds) => kv.put(key, value, { expirationTtl: ttlSeconds }),
+    delete: (key) => kv.delete(key),
+    list: async (prefix) => {
+      // KV returns at most 1000 keys per call
+      const names: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await kv.list({ prefix, cursor });
+        names.push(...page.keys.map(({ name }) => name));
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+      return names;
+    },
+  };
+}
+
+/**
+ * Cache store held in memory, for state scoped to a single session
+ */
+export function memoryCacheStore(): CacheStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt > Date.now()) return entry.value;
+      entries.delete(key);
+      return null;
+    },
+    put: async (key, value, ttlSeconds) => {
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    },
+    list: async (prefix) => [...entries.keys()].filter((key) => key.startsWith(prefix)),
+  };
+}
+
+/**
+ * Hash an integration token so cache keys never contain the token itself
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)]
+    .slice(0, 16)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Notion client that serves reads from a cache and invalidates entries on writes.
+ *
+ * Writes only invalidate entries for changes made through this server; edits
+ * made in Notion itself become visible when the entry expires. KV is
+ * eventually consistent, so other locations may serve a stale entry for up
+ * to a minute after an invalidation.
+ */
+export class CachedNotionClient extends NotionClientDecorator {
+  /** Set for the duration of each call that bypasses the cache */
+  private readonly bypassed = new AsyncLocalStorage<boolean>();
+
+  constructor(
+    inner: NotionClient,
+    private readonly store: CacheStore,
+    private readonly tenantKey: Promise<string>
+  ) {
+    super(inner);
+  }
+
+  /**
+   * Run an operation with reads going straight to the Notion API.
+   *
+   * The bypass only applies to reads made by the operation itself, so
+   * concurrent calls of a session still use the cache. Fresh results are
+   * still written to the cache.
+   */
+  bypass<T>(operation: () => Promise<T>): Promise<T> {
+    return this.bypassed.run(true, operation);
+  }
+
+  // ===========================================================================
+  // Cache Helpers
+  // ===========================================================================
+
+  /**
+   * Build the key of an entry. IDs are normalized so reads and invalidations
+   * agree however the ID was written (with or without hyphens, any case).
+   */
+  private async key(
+    entity: CachedEntity,
+    id: string | undefined,
+    ...parts: Array<string | number | undefined>
+  ) {
+    const tenant = `notion:${await this.tenantKey}`;
+    const normalized = id ? normalizeId(id) : '-';
+    return [tenant, entity, normalized, ...parts.map((part) => part ?? '-')].join(':');
+  }
+
+  private async cached<T>(
+    entity: CachedEntity,
+    id: string | undefined,
+    parts: Array<string | number | undefined>,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const key = await this.key(entity, id, ...parts);
+
+    if (!this.bypassed.getStore()) {
+      try {
+        const hit = await this.store.get(key);
+        if (hit !== null) return JSON.parse(hit) as T;
+      } catch {
+        // A cache outage must not break reads; fall through to the API
+      }
+    }
+
+    const value = await load();
+    try {
+      await this.store.put(key, JSON.stringify(value), CACHE_TTLS[entity]);
+    } catch {
+      // Ignore cache write failures
+    }
+    return value;
+  }
+
+  private async invalidate(entity: CachedEntity, id: string | undefined): Promise<void> {
+    if (!id) return;
+    try {
+      if (entity === 'children') {
+        // Children are cached per cursor and page size
+        const prefix = `${await this.key('children', id)}:`;
+        const keys = await this.store.list(prefix);
+        await Promise.all(keys.map((key) => this.store.delete(key)));
+      } else {
+        await this.store.delete(await this.key(entity, id));
+      }
+    } catch {
+      // Entries expire on their own if invalidation fails
+    }
+  }
+
+  // ===========================================================================
+  // Cached Reads
+  // ===========================================================================
+
+  override listUsers(startCursor?: string, pageSize?: number): Promise<PaginatedResponse<User>> {
+    return this.cached('users', undefined, [startCursor, pageSize], () =>
+      super.listUsers(startCursor, pageSize)
+    );
+  }
+
+  override getUser(userId: string): Promise<User> {
+    return this.cached('user', userId, [], () => super.getUser(userId));
+  }
+
+  override getPage(pageId: string): Promise<Page> {
+    return this.cached('page', pageId, [], () => super.getPage(pageId));
+  }
+
+  override getDatabase(databaseId: string): Promise<Database> {
+    return this.cached('database', databaseId, [], () => super.getDatabase(databaseId));
+  }
+
+  override getBlockChildren(
+    blockId: string,
+    startCursor?: string,
+    pageSize?: number
+  ): Promise<PaginatedResponse<Block>> {
+    return this.cached('children', blockId, [startCursor, pageSize], () =>
+      super.getBlockChildren(blockId, startCursor, pageSize)
+    );
+  }
+
+  // ===========================================================================
+  // Invalidating Writes
+  // ===========================================================================
+
+  override async createPage(
+    parentId: string,
+    parentType: 'database_id' | 'page_id',
+    properties: Record<string, unknown>,
+    children?: unknown[],
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Page> {
+    const page = await super.createPage(parentId, parentType, properties, children, icon, cover);
+    await this.invalidate('children', parentId);
+    return page;
+  }
+
+  override async updatePage(
+    pageId: string,
+    properties?: Record<string, unknown>,
+    archived?: boolean,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Page> {
+    const page = await super.updatePage(pageId, properties, archived, icon, cover);
+    await this.invalidatePage(page);
+    return page;
+  }
+
+  override async trashPage(pageId: string): Promise<Page> {
+    const page = await super.trashPage(pageId);
+    await this.invalidatePage(page);
+    return page;
+  }
+
+  override async createDatabase(
+    parentPageId: string,
+    title: RichTextItem[],
+    properties: Record<string, unknown>,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Database> {
+    const database = await super.createDatabase(parentPageId, title, properties, icon, cover);
+    await this.invalidate('children', parentPageId);
+    return database;
+  }
+
+  override async updateDatabase(
+    databaseId: string,
+    title?: RichTextItem[],
+    description?: RichTextItem[],
+    properties?: Record<string, unknown>,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Database> {
+    const database = await super.updateDatabase(
+      databaseId,
+      title,
+      description,
+      properties,
+      icon,
+      cover
+    );
+    await Promise.all([
+      this.invalidate('database', databaseId),
+      this.invalidate('children', getParentId(database.parent)),
+    ]);
+    return database;
+  }
+
+  override async updateBlock(blockId: string, content: Record<string, unknown>): Promise<Block> {
+    const block = await super.updateBlock(blockId, content);
+    await this.invalidateBlock(block);
+    return block;
+  }
+
+  override async deleteBlock(blockId: string): Promise<Block> {
+    const block = await super.deleteBlock(blockId);
+    await Promise.all([
+      this.invalidateBlock(block),
+      this.invalidateListing(getParentId(block.parent)),
+    ]);
+    return block;
+  }
+
+  override async appendBlockChildren(
+    blockId: string,
+    children: unknown[]
+  ): Promise<PaginatedResponse<Block>> {
+    const result = await super.appendBlockChildren(blockId, children);
+    await Promise.all([this.invalidate('children', blockId), this.invalidateListing(blockId)]);
+    return result;
+  }
+
+  /**
+   * Invalidate a page and its parent's children, which include its title
+   */
+  private async invalidatePage(page: Page): Promise<void> {
+    await Promise.all([
+      this.invalidate('page', page.id),
+      this.invalidate('children', getParentId(page.parent)),
+    ]);
+  }
+
+  /**
+   * Invalidate the children listing that contains a block, since the block's
+   * has_children changes when children are appended to or deleted from it.
+   * Costs one read of the block to find its parent.
+   */
+  private async invalidateListing(blockId: string | undefined): Promise<void> {
+    if (!blockId) return;
+    try {
+      const block = await this.inner.getBlock(blockId);
+      await this.invalidate('children', getParentId(block.parent));
+    } catch {
+      // Entries expire on their own if the parent cannot be read
+    }
+  }
+
+  /**
+   * Invalidate a block's parent children; child page blocks are pages too
+   */
+  private async invalidateBlock(block: Block): Promise<void> {
+    await Promise.all([
+      this.invalidate('children', getParentId(block.parent)),
+      block.type === 'child_page' ? this.invalidate('page', block.id) : undefined,
+      block.type === 'child_database' ? this.invalidate('database', block.id) : undefined,
+    ]);
+  }
+}
+
+/**
+ * Wrap a client with a cache for the given tenant token
+ */
+export function createCachedClient(
+  client: NotionClient,
+  store: CacheStore,
+  accessToken: string
+): CachedNotionClient {
+  return new CachedNotionClient(client, store, hashToken(accessToken));
+}
@@ -0,0 +1,544 @@
+/**
+ * Page Copying
+ *
+ * Convert pages and blocks read from the API back into write payloads, and
+ * copy whole pages (properties, icon, cover and block tree) to a new parent.
+ */
+
+import type { NotionClient } from '../client.js';
+import type {
+  DatabaseProperty,
+  Page,
+  PropertyValue,
+  RichTextItem,
+} from '../types/entities.js';
+import { appendBlocks, type BlockNode, fetchBlockTree } from './blocks.js';
+import { NotionApiError, ValidationError } from './errors.js';
+import type { BlockInput } from './markdown.js';
+import {
+  buildPropertyValues,
+  createUserResolver,
+  findSchemaProperty,
+  flattenPropertyValue,
+  READ_ONLY_PROPERTY_TYPES,
+} from './properties.js';
+import { ScopedNotionClient } from './scope.js';
+
+/**
+ * Block types that can be re-created from their content. Media blocks are
+ * only supported with external URLs.
+ */
+const COPYABLE_BLOCK_TYPES = new Set([
+  'paragraph',
+  'heading_1',
+  'heading_2',
+  'heading_3',
+  'bulleted_list_item',
+  'numbered_list_item',
+  'to_do',
+  'toggle',
+  'quote',
+  'callout',
+  'code',
+  'equation',
+  'divider',
+  'table_of_contents',
+  'breadcrumb',
+  'bookmark',
+  'embed',
+  'link_to_page',
+  'table',
+  'table_row',
+  'column_list',
+  'column',
+  'synced_block',
+  'image',
+  'video',
+  'audio',
+  'file',
+  'pdf',
+]);
+
+/** Block types whose content is a file */
+const MEDIA_BLOCK_TYPES = new Set(['image', 'video', 'audio', 'file', 'pdf']);
+
+/**
+ * Where a page is created
+ */
+export interface PageTarget {
+  parentId: string;
+  parentType: 'database_id' | 'page_id';
+}
+
+/**
+ * Options for copying a page
+ */
+export interface CopyOptions {
+  /** Copy child pages recursively instead of skipping them (default: false) */
+  includeChildPages?: boolean;
+  /** Title of the copy (default: the source title) */
+  title?: string;
+  /** Rewrite the text of rich text and property values, e.g. to fill in placeholders */
+  transformText?: (text: string) => string;
+}
+
+/**
+ * Content that could not be copied
+ */
+export interface CopyReport {
+  /** Pages created, including the top-level copy */
+  pages: number;
+  /** Blocks copied, including nested ones */
+  blocks: number;
+  /** Properties that could not be written to the target */
+  unmappedProperties: Array<{ property: string; reason: string }>;
+  /** Blocks that were skipped */
+  unsupportedBlocks: Array<{ id: string; type: string; reason: string }>;
+}
+
+// =============================================================================
+// Write Payloads
+// =============================================================================
+
+/**
+ * Convert rich text read from the API to rich text that can be written.
+ *
+ * Read-only fields are dropped, user mentions keep only the user ID, and link
+ * previews (which cannot be created) become links.
+ */
+export function writableRichText(richText: RichTextItem[]): RichTextItem[] {
+  return richText.map(({ plain_text: plainText, href, ...item }) => {
+    if (item.type === 'mention' && item.mention?.type === 'link_preview') {
+      const url = item.mention.link_preview?.url ?? href ?? '';
+      return {
+        type: 'text',
+        text: { content: plainText || url, link: url ? { url } : null },
+        annotations: item.annotations,
+      };
+    }
+    if (item.type === 'mention' && item.mention?.user) {
+      const user = { object: 'user', id: item.mention.user.id } as const;
+      return { ...item, mention: { type: 'user', user } } as RichTextItem;
+    }
+    return item as RichTextItem;
+  });
+}
+
+/**
+ * Check whether a value looks like a rich text array read from the API
+ */
+function isReadRichText(value: unknown): value is RichTextItem[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => typeof item === 'object' && item !== null && 'plain_text' in item)
+  );
+}
+
+/**
+ * Convert block content read from the API to content that can be written,
+ * including rich text nested in captions and table cells
+ */
+export function writableBlockContent(content: unknown): unknown {
+  if (isReadRichText(content)) return writableRichText(content);
+  if (Array.isArray(content)) return content.map(writableBlockContent);
+  if (typeof content !== 'object' || content === null) return content;
+  return Object.fromEntries(
+    Object.entries(content).map(([key, value]) => [key, writableBlockContent(value)])
+  );
+}
+
+/**
+ * Convert a page property value to the payload that writes it, or undefined
+ * for computed properties
+ */
+export function writablePropertyValue(value: PropertyValue): Record<string, unknown> | undefined {
+  const { type } = value;
+  if (READ_ONLY_PROPERTY_TYPES.has(type)) return undefined;
+  const content = (value as unknown as Record<string, unknown>)[type];
+
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return { [type]: writableRichText(content as RichTextItem[]) };
+    case 'select':
+    case 'status': {
+      const option = content as { name: string } | null;
+      return { [type]: option ? { name: option.name } : null };
+    }
+    case 'multi_select':
+      return { [type]: (content as Array<{ name: string }>).map(({ name }) => ({ name })) };
+    case 'people':
+    case 'relation':
+      return { [type]: (content as Array<{ id: string }>).map(({ id }) => ({ id })) };
+    case 'files':
+      // Files uploaded to Notion have expiring URLs and cannot be written back
+      return {
+        [type]: (content as Array<{ type: string }>).filter((file) => file.type === 'external'),
+      };
+    default:
+      return { [type]: content };
+  }
+}
+
+/**
+ * Rewrite the text items of rich text nested anywhere in a value
+ */
+function transformRichText(value: unknown, transform: (text: string) => string): unknown {
+  if (Array.isArray(value)) return value.map((item) => transformRichText(item, transform));
+  if (typeof value !== 'object' || value === null) return value;
+
+  const item = value as RichTextItem;
+  if (item.type === 'text' && item.text) {
+    return { ...item, text: { ...item.text, content: transform(item.text.content) } };
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nested]) => [key, transformRichText(nested, transform)])
+  );
+}
+
+/**
+ * Rewrite the text of a property value payload: rich text, option names and
+ * plain strings such as URLs
+ */
+function transformPropertyValue(
+  payload: Record<string, unknown>,
+  transform: (text: string) => string
+): Record<string, unknown> {
+  const [[type, content]] = Object.entries(payload);
+  if (typeof content === 'string') return { [type]: transform(content) };
+  if (type === 'select' || type === 'status') {
+    const option = content as { name: string } | null;
+    return { [type]: option ? { name: transform(option.name) } : null };
+  }
+  if (type === 'multi_select') {
+    const options = content as Array<{ name: string }>;
+    return { [type]: options.map(({ name }) => ({ name: transform(name) })) };
+  }
+  return transformRichText(payload, transform) as Record<string, unknown>;
+}
+
+/**
+ * Keep an icon or cover only if it can be written (emoji or external URL)
+ */
+function writableFile(value: unknown): unknown {
+  const file = value as { type?: string } | null | undefined;
+  return file && (file.type === 'emoji' || file.type === 'external') ? file : undefined;
+}
+
+// =============================================================================
+// Properties
+// =============================================================================
+
+/**
+ * Check whether a property value is empty
+ */
+function isEmptyValue(value: PropertyValue): boolean {
+  const flat = flattenPropertyValue(value);
+  return flat === null || flat === '' || (Array.isArray(flat) && flat.length === 0);
+}
+
+/**
+ * Map a page's property values to a target database schema, or to the title
+ * of a page that is not in a database.
+ *
+ * Properties are matched by name. Values of the same type are copied as they
+ * are; values of a different type are converted from their plain value, e.g.
+ * a select to text. The source title always becomes the target title.
+ * Computed properties are never copied.
+ */
+export async function mapPageProperties(
+  client: NotionClient,
+  page: Page,
+  schema: Record<string, DatabaseProperty> | undefined,
+  options: Pick<CopyOptions, 'title' | 'transformText'> = {}
+): Promise<{ properties: Record<string, unknown>; unmapped: CopyReport['unmappedProperties'] }> {
+  const properties: Record<string, unknown> = {};
+  const unmapped: CopyReport['unmappedProperties'] = [];
+  const resolveUser = createUserResolver(client);
+  const { title, transformText } = options;
+
+  const targetTitle = schema
+    ? Object.entries(schema).find(([, property]) => property.type === 'title')?.[0]
+    : 'title';
+
+  for (const [name, value] of Object.entries(page.properties)) {
+    if (READ_ONLY_PROPERTY_TYPES.has(value.type)) continue;
+
+    if (value.type === 'title') {
+      if (targetTitle) {
+        properties[targetTitle] =
+          title !== undefined
+            ? { title: [{ type: 'text', text: { content: title } }] }
+            : writablePropertyValue(value);
+      }
+      continue;
+    }
+    if (isEmptyValue(value)) continue;
+
+    const match = schema && findSchemaProperty(schema, name);
+    if (!match) {
+      unmapped.push({
+        property: name,
+        reason: schema ? 'Not in the target schema' : 'Pages outside a database only have a title',
+      });
+    } else if (match[1].type === value.type) {
+      properties[match[0]] = writablePropertyValue(value);
+    } else if (READ_ONLY_PROPERTY_TYPES.has(match[1].type)) {
+      unmapped.push({ property: name, reason: `Target property is computed (${match[1].type})` });
+    } else {
+      // Convert through the plain value; people are matched by ID
+      const plain =
+        value.type === 'people'
+          ? (value.people as Array<{ id: string }>).map(({ id }) => id)
+          : flattenPropertyValue(value);
+      try {
+        const converted = await buildPropertyValues(schema, { [match[0]]: plain }, resolveUser);
+        Object.assign(properties, converted);
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        const reason = Object.values(error.details).flat()[0] ?? error.message;
+        unmapped.push({
+          property: name,
+          reason: `Cannot convert ${value.type} to ${match[1].type}: ${reason}`,
+        });
+      }
+    }
+  }
+
+  if (transformText) {
+    for (const [name, payload] of Object.entries(properties)) {
+      properties[name] = transformPropertyValue(payload as Record<string, unknown>, transformText);
+    }
+  }
+  return { properties, unmapped };
+}
+
+// =============================================================================
+// Blocks
+// =============================================================================
+
+/**
+ * Convert a fetched block and its children to a block input object, or
+ * undefined (recorded in the report) if it cannot be re-created
+ */
+export function nodeToInput(
+  node: BlockNode,
+  options: CopyOptions,
+  report: CopyReport
+): BlockInput | undefined {
+  const { block } = node;
+  const skip = (reason: string) => {
+    report.unsupportedBlocks.push({ id: block.id, type: block.type, reason });
+    return undefined;
+  };
+
+  if (block.type === 'child_page') {
+    return skip('Child pages can only be copied at the top level of a page');
+  }
+  if (block.type === 'child_database') return skip('Databases are not copied');
+  if (!COPYABLE_BLOCK_TYPES.has(block.type)) {
+    return skip('Block type cannot be created through the API');
+  }
+
+  let content = writableBlockContent(block[block.type]) as Record<string, unknown>;
+  if (MEDIA_BLOCK_TYPES.has(block.type) && content.type !== 'external') {
+    return skip('Files uploaded to Notion cannot be copied');
+  }
+  if (block.type === 'callout' && content.icon !== undefined) {
+    content = { ...content, icon: writableFile(content.icon) };
+  }
+  if (options.transformText) {
+    content = transformRichText(content, options.transformText) as Record<string, unknown>;
+  }
+
+  const children = node.children
+    .map((child) => nodeToInput(child, options, report))
+    .filter((child): child is BlockInput => child !== undefined);
+  if (children.length > 0) content = { ...content, children };
+
+  report.blocks++;
+  return { object: 'block', type: block.type, [block.type]: content };
+}
+
+/**
+ * Append copies of fetched blocks to the end of a page or block.
+ *
+ * Top-level child pages are copied recursively when includeChildPages is
+ * set; the content around them is appended in order, in batches that stay
+ * within Notion's per-request limits.
+ */
+async function appendCopies(
+  client: NotionClient,
+  nodes: BlockNode[],
+  targetId: string,
+  options: CopyOptions,
+  report: CopyReport
+): Promise<void> {
+  let pending: BlockInput[] = [];
+
+  const flush = async () => {
+    if (pending.length > 0) await appendBlocks(client, targetId, pending);
+    pending = [];
+  };
+
+  for (const node of nodes) {
+    if (node.block.type === 'child_page') {
+      if (!options.includeChildPages) {
+        report.unsupportedBlocks.push({
+          id: node.block.id,
+          type: 'child_page',
+          reason: 'Child pages are only copied with includeChildPages',
+        });
+        continue;
+      }
+      await flush();
+      await copyPage(
+        client,
+        node.block.id,
+        { parentId: targetId, parentType: 'page_id' },
+        { ...options, title: undefined },
+        report
+      );
+      continue;
+    }
+
+    const input = nodeToInput(node, options, report);
+    if (input) pending.push(input);
+  }
+  await flush();
+}
+
+/**
+ * Copy the block tree of a page or block to the end of another
+ */
+export async function copyBlocks(
+  client: NotionClient,
+  sourceId: string,
+  targetId: string,
+  options: CopyOptions,
+  report: CopyReport
+): Promise<void> {
+  await appendCopies(client, await fetchBlockTree(client, sourceId), targetId, options, report);
+}
+
+// =============================================================================
+// Pages
+// =============================================================================
+
+/**
+ * Create an empty report
+ */
+export function createCopyReport(): CopyReport {
+  return { pages: 0, blocks: 0, unmappedProperties: [], unsupportedBlocks: [] };
+}
+
+/**
+ * Copy a page (properties, icon, cover and block tree) to a new parent.
+ *
+ * Properties are mapped to the target's schema; see mapPageProperties.
+ * Skipped properties and blocks are recorded in the report.
+ *
+ * @returns The created page
+ */
+export async function copyPage(
+  client: NotionClient,
+  pageId: string,
+  target: PageTarget,
+  options: CopyOptions = {},
+  report: CopyReport = createCopyReport()
+): Promise<Page> {
+  const source = await client.getPage(pageId);
+  const schema =
+    target.parentType === 'database_id'
+      ? (await client.getDatabase(target.parentId)).properties
+      : undefined;
+
+  const { properties, unmapped } = await mapPageProperties(client, source, schema, options);
+  report.unmappedProperties.push(...unmapped);
+
+  // Read the content first, so a copy placed inside its source is not copied into itself
+  const nodes = await fetchBlockTree(client, pageId);
+
+  const page = await client.createPage(
+    target.parentId,
+    target.parentType,
+    properties,
+    undefined,
+    writableFile(source.icon),
+    writableFile(source.cover)
+  );
+  report.pages++;
+
+  try {
+    await appendCopies(client, nodes, page.id, options, report);
+  } catch (error) {
+    if (error instanceof NotionApiError) {
+      const prefix = `Page ${page.id} was created, but copying its content failed`;
+      error.message = `${prefix}: ${error.message}`;
+    }
+    throw error;
+  }
+  return page;
+}
+
+/**
+ * Get the target for a copy next to the source page
+ *
+ * @throws ValidationError if the source is not under a page or database
+ */
+export function siblingTarget(page: Page): PageTarget {
+  if (page.parent.type === 'database_id') {
+    return { parentId: page.parent.database_id, parentType: 'database_id' };
+  }
+  if (page.parent.type === 'page_id') {
+    return { parentId: page.parent.page_id, parentType: 'page_id' };
+  }
+  throw new ValidationError('Choose a parent for the copy', {
+    parentId: [`The source page's parent (${page.parent.type}) cannot be written through the API`],
+  });
+}
+
+/**
+ * Outcome of moving a page
+ */
+export interface MoveResult {
+  /** The page at its new location */
+  page: Page;
+  /** Whether the original was moved to trash */
+  trashedOriginal: boolean;
+  report: CopyReport;
+}
+
+/**
+ * Move a page to another parent by copying it, with its child pages, and
+ * trashing the original. The moved page gets a new ID.
+ *
+ * If any property or block could not be copied, the original is kept unless
+ * force is set, so nothing is lost without review.
+ *
+ * @throws ValidationError if the target is the page itself or one of its descendants
+ */
+export async function movePage(
+  client: NotionClient,
+  pageId: string,
+  target: PageTarget,
+  force = false
+): Promise<MoveResult> {
+  // Trashing the original would also trash a copy placed inside it
+  if (await new ScopedNotionClient(client, [pageId]).isWithinRoots(target.parentId)) {
+    throw new ValidationError('Cannot move a page into itself', {
+      parentId: ['The new parent is the page or one of its descendants'],
+    });
+  }
+
+  const report = createCopyReport();
+  const page = await copyPage(client, pageId, target, { includeChildPages: true }, report);
+
+  const lossy = report.unmappedProperties.length > 0 || report.unsupportedBlocks.length > 0;
+  if (lossy && !force) {
+    return { page, trashedOriginal: false, report };
+  }
+  await client.trashPage(pageId);
+  return { page, trashedOriginal: true, report };
+}
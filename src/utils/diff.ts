@@ -0,0 +1,218 @@
+/**
+ * Dry-Run Diffs
+ *
+ * Compare the current state of a page, block or database with a requested
+ * change, so a write can be previewed without calling the write endpoint.
+ */
+
+import type { Database, Page, PropertyValue, RichTextItem } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+import { richTextToPlain, type ToolResponse } from './formatters.js';
+import { richTextToMarkdown } from './markdown.js';
+import { type FlatValue, findSchemaProperty, flattenPropertyValue } from './properties.js';
+
+/**
+ * A single value that would change
+ */
+export interface Change {
+  /** Dotted path of the changed value, e.g. "properties.Status" */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Preview of a write that was not made
+ */
+export interface DryRunPreview {
+  /** Tool that would have made the write */
+  action: string;
+  /** ID of the page, block or database that would be written */
+  target: string;
+  changes: Change[];
+  /** Additional details, such as Markdown of content that would be added or removed */
+  [key: string]: unknown;
+}
+
+// =============================================================================
+// Generic Diff
+// =============================================================================
+
+/**
+ * Check whether a value looks like a rich text array
+ */
+function isRichText(value: unknown): value is RichTextItem[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (item) =>
+        typeof item === 'object' &&
+        item !== null &&
+        ('plain_text' in item || 'text' in item || 'equation' in item || 'mention' in item)
+    )
+  );
+}
+
+/**
+ * Make a value readable and comparable: rich text becomes inline Markdown
+ */
+function normalize(value: unknown): unknown {
+  return isRichText(value) ? richTextToMarkdown(value) : value;
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare a partial update against the current value.
+ *
+ * Only keys present in the update are compared, since unspecified keys keep
+ * their current value.
+ */
+export function diffValues(before: unknown, after: unknown, path = ''): Change[] {
+  if (isObject(before) && isObject(after)) {
+    return Object.entries(after).flatMap(([key, value]) =>
+      diffValues(before[key], value, path ? `${path}.${key}` : key)
+    );
+  }
+
+  const normalizedBefore = normalize(before) ?? null;
+  const normalizedAfter = normalize(after) ?? null;
+  if (JSON.stringify(normalizedBefore) === JSON.stringify(normalizedAfter)) {
+    return [];
+  }
+  return [{ path, before: normalizedBefore, after: normalizedAfter }];
+}
+
+// =============================================================================
+// Pages
+// =============================================================================
+
+/**
+ * Flatten a property value, or a property value payload being written, to a
+ * comparable plain value. People are compared by ID since payloads only
+ * carry IDs.
+ */
+function comparablePropertyValue(value: Record<string, unknown>): FlatValue {
+  const type = (value.type as string | undefined) ?? Object.keys(value)[0];
+  if (type === 'people') {
+    return ((value.people as Array<{ id: string }> | undefined) ?? []).map((person) => person.id);
+  }
+  return flattenPropertyValue({ ...value, type } as PropertyValue);
+}
+
+/**
+ * Diff property value payloads against a page's current values
+ */
+export function diffPageProperties(
+  page: Page | undefined,
+  properties: Record<string, unknown>
+): Change[] {
+  return Object.entries(properties).flatMap(([name, payload]) => {
+    const current = page?.properties[name];
+    const before = current ? comparablePropertyValue(current as unknown as Record<string, unknown>) : null;
+    const after = isObject(payload) ? comparablePropertyValue(payload) : payload;
+    if (JSON.stringify(before) === JSON.stringify(after)) return [];
+    return [{ path: `properties.${name}`, before, after }];
+  });
+}
+
+/**
+ * Check raw property payloads against a schema before a write
+ *
+ * @throws ValidationError listing properties that are not in the schema
+ */
+export function validatePropertyNames(
+  schema: Record<string, unknown>,
+  properties: Record<string, unknown>
+): void {
+  const details: Record<string, string[]> = {};
+  for (const name of Object.keys(properties)) {
+    if (!findSchemaProperty(schema as Database['properties'], name)) {
+      details[name] = [`Unknown property. Available: ${Object.keys(schema).join(', ')}`];
+    }
+  }
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Some properties are not in the schema', details);
+  }
+}
+
+// =============================================================================
+// Databases
+// =============================================================================
+
+/**
+ * Requested changes to a database
+ */
+export interface DatabaseUpdate {
+  title?: RichTextItem[];
+  description?: RichTextItem[];
+  properties?: Record<string, unknown>;
+  icon?: unknown;
+  cover?: unknown;
+}
+
+/**
+ * Diff a database update against the current database
+ */
+export function diffDatabase(database: Database, update: DatabaseUpdate): Change[] {
+  const changes: Change[] = [];
+
+  if (update.title) {
+    changes.push(...diffValues(richTextToPlain(database.title), richTextToPlain(update.title), 'title'));
+  }
+  if (update.description) {
+    changes.push(
+      ...diffValues(
+        richTextToPlain(database.description ?? []),
+        richTextToPlain(update.description),
+        'description'
+      )
+    );
+  }
+
+  for (const [name, config] of Object.entries(update.properties ?? {})) {
+    const path = `properties.${name}`;
+    const current = database.properties[name];
+    if (config === null) {
+      if (current) changes.push({ path, before: current.type, after: null });
+    } else if (!current) {
+      const type = isObject(config) ? Object.keys(config).find((key) => key !== 'name') : undefined;
+      changes.push({ path, before: null, after: type ?? config });
+    } else {
+      changes.push(...diffValues(current, config, path));
+    }
+  }
+
+  if (update.icon !== undefined) changes.push(...diffValues(database.icon, update.icon, 'icon'));
+  if (update.cover !== undefined) changes.push(...diffValues(database.cover, update.cover, 'cover'));
+  return changes;
+}
+
+// =============================================================================
+// Response
+// =============================================================================
+
+/**
+ * Format a dry-run preview as a tool response
+ */
+export function formatDryRun(preview: DryRunPreview): ToolResponse {
+  const summary = preview.changes.length === 1 ? '1 change' : `${preview.changes.length} changes`;
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          { dryRun: true, message: `Dry run: no changes were made (${summary})`, ...preview },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
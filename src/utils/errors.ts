@@ -11,6 +11,8 @@ export class NotionApiError extends Error {
   public statusCode?: number;
   public code: string;
   public retryable: boolean;
+  /** Number of attempts made before the error was raised */
+  public attempts?: number;
 
   constructor(message: string, statusCode?: number, code?: string, retryable = false) {
     super(message);
@@ -54,6 +56,16 @@ export class NotFoundError extends NotionApiError {
   }
 }
 
+/**
+ * Permission denied by the tenant's access policy
+ */
+export class PermissionDeniedError extends NotionApiError {
+  constructor(message: string) {
+    super(message, 403, 'PERMISSION_DENIED', false);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
 /**
  * Validation error
  */
@@ -76,10 +88,9 @@ export function isRetryableError(error: unknown): boolean {
   }
   if (error instanceof Error) {
     // Network errors are typically retryable
+    const message = error.message.toLowerCase();
     return (
-      error.message.includes('network') ||
-      error.message.includes('timeout') ||
-      error.message.includes('ECONNRESET')
+      message.includes('network') || message.includes('timeout') || message.includes('econnreset')
     );
   }
   return false;
@@ -96,6 +107,7 @@ export function formatErrorForLogging(error: unknown): Record<string, unknown> {
       code: error.code,
       statusCode: error.statusCode,
       retryable: error.retryable,
+      ...(error.attempts !== undefined && { attempts: error.attempts }),
       ...(error instanceof RateLimitError && { retryAfterSeconds: error.retryAfterSeconds }),
       ...(error instanceof ValidationError && { details: error.details }),
     };
@@ -0,0 +1,141 @@
+/**
+ * Export Utilities
+ *
+ * Serialize flattened database rows as CSV, JSON Lines or a Markdown table.
+ */
+
+import type { DatabaseProperty } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+import { formatCellValue } from './formatters.js';
+import { type FlatPage, type FlatValue, findSchemaProperty } from './properties.js';
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = 'csv' | 'jsonl' | 'markdown';
+
+/**
+ * Page metadata that can be exported alongside the properties
+ */
+export const EXPORT_METADATA_COLUMNS = ['id', 'url', 'created_time', 'last_edited_time'] as const;
+
+export type ExportMetadataColumn = (typeof EXPORT_METADATA_COLUMNS)[number];
+
+/**
+ * Columns of an export, in output order
+ */
+export interface ExportColumns {
+  metadata: ExportMetadataColumn[];
+  properties: string[];
+}
+
+/**
+ * Resolve the property columns to export.
+ *
+ * Without a selection, every property is exported in schema order with the
+ * title property first. A selection keeps its own order and is matched
+ * against the schema case-insensitively.
+ *
+ * @throws ValidationError listing selected columns missing from the schema
+ */
+export function selectExportColumns(
+  schema: Record<string, DatabaseProperty>,
+  selection?: string[]
+): string[] {
+  if (!selection?.length) {
+    const names = Object.keys(schema);
+    const title = names.find((name) => schema[name].type === 'title');
+    return title ? [title, ...names.filter((name) => name !== title)] : names;
+  }
+
+  const columns: string[] = [];
+  const unknown: string[] = [];
+  for (const name of selection) {
+    const match = findSchemaProperty(schema, name);
+    if (!match) {
+      unknown.push(`Unknown property '${name}'. Available: ${Object.keys(schema).join(', ')}`);
+    } else if (!columns.includes(match[0])) {
+      columns.push(match[0]);
+    }
+  }
+
+  if (unknown.length > 0) {
+    throw new ValidationError('Some columns are not in the database schema', { columns: unknown });
+  }
+  return columns;
+}
+
+/**
+ * Get the value of a column for a row
+ */
+function getColumnValue(row: FlatPage, columns: ExportColumns, index: number): FlatValue {
+  if (index < columns.metadata.length) {
+    return row[columns.metadata[index]];
+  }
+  return row.properties[columns.properties[index - columns.metadata.length]] ?? null;
+}
+
+/**
+ * Column headers in output order
+ */
+function getHeaders(columns: ExportColumns): string[] {
+  return [...columns.metadata, ...columns.properties];
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ */
+function csvField(value: FlatValue): string {
+  if (value === null) return '';
+  const text = Array.isArray(value)
+    ? value.map((item) => (item === null ? '' : String(item))).join(', ')
+    : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize one row in the given format
+ */
+function serializeRow(row: FlatPage, columns: ExportColumns, format: ExportFormat): string {
+  const headers = getHeaders(columns);
+  const values = headers.map((_, index) => getColumnValue(row, columns, index));
+
+  switch (format) {
+    case 'csv':
+      return values.map(csvField).join(',');
+    case 'jsonl':
+      return JSON.stringify(Object.fromEntries(headers.map((header, i) => [header, values[i]])));
+    case 'markdown':
+      return `| ${values.map(formatCellValue).join(' | ')} |`;
+  }
+}
+
+/**
+ * Serialize the header lines for the given format (none for JSON Lines)
+ */
+export function serializeExportHeader(columns: ExportColumns, format: ExportFormat): string[] {
+  const headers = getHeaders(columns);
+
+  switch (format) {
+    case 'csv':
+      return [headers.map(csvField).join(',')];
+    case 'jsonl':
+      return [];
+    case 'markdown':
+      return [
+        `| ${headers.map(formatCellValue).join(' | ')} |`,
+        `|${headers.map(() => '---').join('|')}|`,
+      ];
+  }
+}
+
+/**
+ * Serialize rows, one line per row
+ */
+export function serializeExportRows(
+  rows: FlatPage[],
+  columns: ExportColumns,
+  format: ExportFormat
+): string[] {
+  return rows.map((row) => serializeRow(row, columns, format));
+}
@@ -0,0 +1,626 @@
+/**
+ * Filter Expression Utilities
+ *
+ * Parses compact filter expressions such as
+ *   Status = "Done" AND Due < today AND Tags contains "infra"
+ * and compiles them into Notion database filter JSON, validated against the
+ * database schema.
+ */
+
+import type { DatabaseFilter, DatabaseProperty } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+import { findSchemaProperty } from './properties.js';
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+type TokenType = 'string' | 'number' | 'date' | 'word' | 'symbol' | 'lparen' | 'rparen' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const SYMBOLS = ['!=', '<=', '>=', '=', '<', '>'];
+const DATE_LITERAL = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?/;
+const NUMBER_LITERAL = /^-?\d+(\.\d+)?(?![\w-])/;
+const WORD = /^[A-Za-z_][\w.]*([+-]\d+d?)?/;
+
+/**
+ * Error raised at a specific position of the expression
+ */
+class FilterSyntaxError extends Error {
+  constructor(
+    message: string,
+    public position: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+    const rest = expression.slice(i);
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    // Quoted string, or [bracketed property name]
+    if (char === '"' || char === "'" || char === '[') {
+      const closing = char === '[' ? ']' : char;
+      let value = '';
+      let j = i + 1;
+      while (j < expression.length && expression[j] !== closing) {
+        if (expression[j] === '\\' && j + 1 < expression.length) j++;
+        value += expression[j];
+        j++;
+      }
+      if (j >= expression.length) {
+        throw new FilterSyntaxError(`Unterminated ${char === '[' ? 'bracket' : 'string'}`, i);
+      }
+      tokens.push({ type: char === '[' ? 'word' : 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((candidate) => rest.startsWith(candidate));
+    if (symbol) {
+      tokens.push({ type: 'symbol', value: symbol, position: i });
+      i += symbol.length;
+      continue;
+    }
+
+    const date = rest.match(DATE_LITERAL);
+    if (date) {
+      tokens.push({ type: 'date', value: date[0], position: i });
+      i += date[0].length;
+      continue;
+    }
+
+    const number = rest.match(NUMBER_LITERAL);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = rest.match(WORD);
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new FilterSyntaxError(`Unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ type: 'end', value: '', position: expression.length });
+  return tokens;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/**
+ * Comparison operators, normalized
+ */
+type Operator =
+  | 'equals'
+  | 'does_not_equal'
+  | 'greater_than'
+  | 'less_than'
+  | 'greater_than_or_equal_to'
+  | 'less_than_or_equal_to'
+  | 'contains'
+  | 'does_not_contain'
+  | 'starts_with'
+  | 'ends_with'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'before'
+  | 'after'
+  | 'on_or_before'
+  | 'on_or_after';
+
+type Value =
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'date'; value: string }
+  | { kind: 'relative'; value: string };
+
+type Expression =
+  | { kind: 'compound'; operator: 'and' | 'or'; operands: Expression[] }
+  | {
+      kind: 'condition';
+      property: string;
+      operator: Operator;
+      value?: Value;
+      position: number;
+      valuePosition: number;
+    };
+
+const SYMBOL_OPERATORS: Record<string, Operator> = {
+  '=': 'equals',
+  '!=': 'does_not_equal',
+  '>': 'greater_than',
+  '<': 'less_than',
+  '>=': 'greater_than_or_equal_to',
+  '<=': 'less_than_or_equal_to',
+};
+
+/**
+ * Word operators, longest first so multi-word forms win
+ */
+const WORD_OPERATORS: Array<[string[], Operator]> = [
+  [['is', 'not', 'empty'], 'is_not_empty'],
+  [['does', 'not', 'contain'], 'does_not_contain'],
+  [['on', 'or', 'before'], 'on_or_before'],
+  [['on', 'or', 'after'], 'on_or_after'],
+  [['not', 'contains'], 'does_not_contain'],
+  [['starts', 'with'], 'starts_with'],
+  [['ends', 'with'], 'ends_with'],
+  [['is', 'empty'], 'is_empty'],
+  [['contains'], 'contains'],
+  [['before'], 'before'],
+  [['after'], 'after'],
+];
+
+const OPERATOR_START_WORDS = new Set(WORD_OPERATORS.map(([words]) => words[0]));
+
+/** Relative date keywords that map directly to Notion date filter conditions */
+const RELATIVE_DATE_CONDITIONS = new Set([
+  'past_week',
+  'past_month',
+  'past_year',
+  'next_week',
+  'next_month',
+  'next_year',
+  'this_week',
+]);
+
+/**
+ * Recursive descent parser over the token list
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Expression {
+    const expression = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new FilterSyntaxError(
+        `Unexpected '${token.value}', expected AND, OR or end of expression`,
+        token.position
+      );
+    }
+    return expression;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private parseOr(): Expression {
+    return this.parseCompound('or', () => this.parseAnd());
+  }
+
+  private parseAnd(): Expression {
+    return this.parseCompound('and', () => this.parsePrimary());
+  }
+
+  private parseCompound(operator: 'and' | 'or', parseOperand: () => Expression): Expression {
+    const operands = [parseOperand()];
+    while (this.isKeyword(this.peek(), operator)) {
+      this.next();
+      operands.push(parseOperand());
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'compound', operator, operands };
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      this.next();
+      const expression = this.parseOr();
+      const closing = this.next();
+      if (closing.type !== 'rparen') {
+        throw new FilterSyntaxError(
+          `Expected ')' but found '${closing.value || 'end of expression'}'`,
+          closing.position
+        );
+      }
+      return expression;
+    }
+
+    return this.parseCondition();
+  }
+
+  private parseCondition(): Expression {
+    const start = this.peek();
+
+    // Property name: a quoted string, a [bracketed] name, or bare words up to the operator
+    let property: string;
+    if (start.type === 'string') {
+      property = this.next().value;
+    } else if (start.type === 'word' && !OPERATOR_START_WORDS.has(start.value.toLowerCase())) {
+      const words = [this.next().value];
+      while (this.peek().type === 'word' && !this.startsWordOperator()) {
+        words.push(this.next().value);
+      }
+      property = words.join(' ');
+    } else {
+      throw new FilterSyntaxError(
+        `Expected a property name but found '${start.value || 'end of expression'}'`,
+        start.position
+      );
+    }
+
+    const operatorToken = this.peek();
+    const operator = this.parseOperator();
+    if (operator === 'is_empty' || operator === 'is_not_empty') {
+      return {
+        kind: 'condition',
+        property,
+        operator,
+        position: start.position,
+        valuePosition: operatorToken.position,
+      };
+    }
+
+    const valueToken = this.peek();
+    return {
+      kind: 'condition',
+      property,
+      operator,
+      value: this.parseValue(),
+      position: start.position,
+      valuePosition: valueToken.position,
+    };
+  }
+
+  private startsWordOperator(): boolean {
+    return WORD_OPERATORS.some(([words]) =>
+      words.every((word, offset) => this.isKeyword(this.peek(offset), word))
+    );
+  }
+
+  private parseOperator(): Operator {
+    const token = this.peek();
+
+    if (token.type === 'symbol') {
+      this.next();
+      return SYMBOL_OPERATORS[token.value];
+    }
+
+    for (const [words, operator] of WORD_OPERATORS) {
+      if (words.every((word, offset) => this.isKeyword(this.peek(offset), word))) {
+        this.index += words.length;
+        return operator;
+      }
+    }
+
+    throw new FilterSyntaxError(
+      `Expected an operator (=, !=, <, <=, >, >=, contains, starts with, is empty, ...) but found '${token.value || 'end of expression'}'`,
+      token.position
+    );
+  }
+
+  private parseValue(): Value {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'string':
+        return { kind: 'string', value: token.value };
+      case 'number':
+        return { kind: 'number', value: Number(token.value) };
+      case 'date':
+        return { kind: 'date', value: token.value };
+      case 'word': {
+        const word = token.value.toLowerCase();
+        if (word === 'true' || word === 'false') {
+          return { kind: 'boolean', value: word === 'true' };
+        }
+        if (RELATIVE_DATE_CONDITIONS.has(word)) {
+          return { kind: 'relative', value: word };
+        }
+        const date = resolveDateKeyword(word);
+        if (date) {
+          return { kind: 'date', value: date };
+        }
+        if (word === 'and' || word === 'or') break;
+        // Bare single words are accepted as strings
+        return { kind: 'string', value: token.value };
+      }
+      default:
+        break;
+    }
+
+    throw new FilterSyntaxError(
+      `Expected a value but found '${token.value || 'end of expression'}'`,
+      token.position
+    );
+  }
+}
+
+/**
+ * Resolve today, tomorrow, yesterday and offsets like today-7d to a date (UTC)
+ */
+function resolveDateKeyword(word: string): string | undefined {
+  const match = word.match(/^(today|tomorrow|yesterday)(?:([+-])(\d+)d?)?$/);
+  if (!match) return undefined;
+
+  const base = { today: 0, tomorrow: 1, yesterday: -1 }[
+    match[1] as 'today' | 'tomorrow' | 'yesterday'
+  ];
+  const offset = match[2] ? Number(match[3]) * (match[2] === '-' ? -1 : 1) : 0;
+  const date = new Date(Date.now() + (base + offset) * 24 * 60 * 60 * 1000);
+  return date.toISOString().slice(0, 10);
+}
+
+// =============================================================================
+// Compiler
+// =============================================================================
+
+const TEXT_OPERATORS: Operator[] = [
+  'equals',
+  'does_not_equal',
+  'contains',
+  'does_not_contain',
+  'starts_with',
+  'ends_with',
+  'is_empty',
+  'is_not_empty',
+];
+const NUMBER_OPERATORS: Operator[] = [
+  'equals',
+  'does_not_equal',
+  'greater_than',
+  'less_than',
+  'greater_than_or_equal_to',
+  'less_than_or_equal_to',
+  'is_empty',
+  'is_not_empty',
+];
+const DATE_OPERATORS: Operator[] = [
+  'equals',
+  'before',
+  'after',
+  'on_or_before',
+  'on_or_after',
+  'is_empty',
+  'is_not_empty',
+];
+const OPTION_OPERATORS: Operator[] = ['equals', 'does_not_equal', 'is_empty', 'is_not_empty'];
+const LIST_OPERATORS: Operator[] = ['contains', 'does_not_contain', 'is_empty', 'is_not_empty'];
+
+/**
+ * Comparison symbols on dates read as before/after
+ */
+const DATE_OPERATOR_ALIASES: Partial<Record<Operator, Operator>> = {
+  less_than: 'before',
+  greater_than: 'after',
+  less_than_or_equal_to: 'on_or_before',
+  greater_than_or_equal_to: 'on_or_after',
+};
+
+/** Operators and expected value kind for each filterable property type */
+const PROPERTY_TYPE_RULES: Record<string, { operators: Operator[]; value: Value['kind'] }> = {
+  title: { operators: TEXT_OPERATORS, value: 'string' },
+  rich_text: { operators: TEXT_OPERATORS, value: 'string' },
+  url: { operators: TEXT_OPERATORS, value: 'string' },
+  email: { operators: TEXT_OPERATORS, value: 'string' },
+  phone_number: { operators: TEXT_OPERATORS, value: 'string' },
+  number: { operators: NUMBER_OPERATORS, value: 'number' },
+  unique_id: { operators: NUMBER_OPERATORS.slice(0, 6), value: 'number' },
+  checkbox: { operators: ['equals', 'does_not_equal'], value: 'boolean' },
+  select: { operators: OPTION_OPERATORS, value: 'string' },
+  status: { operators: OPTION_OPERATORS, value: 'string' },
+  multi_select: { operators: LIST_OPERATORS, value: 'string' },
+  people: { operators: LIST_OPERATORS, value: 'string' },
+  created_by: { operators: LIST_OPERATORS, value: 'string' },
+  last_edited_by: { operators: LIST_OPERATORS, value: 'string' },
+  relation: { operators: LIST_OPERATORS, value: 'string' },
+  files: { operators: ['is_empty', 'is_not_empty'], value: 'string' },
+  date: { operators: DATE_OPERATORS, value: 'date' },
+  created_time: { operators: DATE_OPERATORS, value: 'date' },
+  last_edited_time: { operators: DATE_OPERATORS, value: 'date' },
+};
+
+/** Timestamps that can be filtered even when they are not database properties */
+const TIMESTAMP_PROPERTIES = new Set(['created_time', 'last_edited_time']);
+
+/** Maximum nesting of compound filters Notion accepts */
+const MAX_COMPOUND_DEPTH = 2;
+
+/**
+ * Formula result filter key and the property type whose rules apply to it,
+ * implied by the kind of value being compared
+ */
+const FORMULA_RESULT_TYPES: Record<Value['kind'], [string, string]> = {
+  string: ['string', 'rich_text'],
+  number: ['number', 'number'],
+  boolean: ['checkbox', 'checkbox'],
+  date: ['date', 'date'],
+  relative: ['date', 'date'],
+};
+
+/**
+ * Build the condition object for one property type
+ */
+function buildCondition(
+  type: string,
+  expression: Extract<Expression, { kind: 'condition' }>,
+  property?: DatabaseProperty
+): Record<string, unknown> {
+  const rules = PROPERTY_TYPE_RULES[type];
+  if (!rules) {
+    throw new FilterSyntaxError(
+      `Filtering on '${type}' properties is not supported`,
+      expression.position
+    );
+  }
+
+  const operator =
+    rules.value === 'date'
+      ? (DATE_OPERATOR_ALIASES[expression.operator] ?? expression.operator)
+      : expression.operator;
+  if (!rules.operators.includes(operator)) {
+    const hint = type === 'multi_select' && operator === 'equals' ? " (use 'contains')" : '';
+    throw new FilterSyntaxError(
+      `Operator '${operator}' is not valid for ${type} property '${expression.property}'${hint}. Valid: ${rules.operators.join(', ')}`,
+      expression.position
+    );
+  }
+
+  if (operator === 'is_empty' || operator === 'is_not_empty') {
+    return { [operator]: true };
+  }
+
+  const value = expression.value as Value;
+  if (value.kind === 'relative' && rules.value === 'date') {
+    if (operator !== 'equals') {
+      throw new FilterSyntaxError(
+        `Use '= ${value.value}' for relative dates`,
+        expression.valuePosition
+      );
+    }
+    return { [value.value]: {} };
+  }
+
+  const accepted = value.kind === rules.value || (rules.value === 'string' && value.kind === 'number');
+  if (!accepted) {
+    throw new FilterSyntaxError(
+      `Expected a ${rules.value} value for ${type} property '${expression.property}'`,
+      expression.valuePosition
+    );
+  }
+
+  // Select-like values must name an existing option
+  if (property && ['select', 'status', 'multi_select'].includes(type)) {
+    const config = property[type] as { options?: Array<{ name: string }> } | undefined;
+    const options = config?.options?.map((option) => option.name) ?? [];
+    const name = String(value.value);
+    const match = options.find((option) => option.toLowerCase() === name.toLowerCase());
+    if (!match) {
+      throw new FilterSyntaxError(
+        `Unknown option '${name}' for '${expression.property}'. Options: ${options.join(', ')}`,
+        expression.valuePosition
+      );
+    }
+    return { [operator]: match };
+  }
+
+  return { [operator]: rules.value === 'string' ? String(value.value) : value.value };
+}
+
+/**
+ * Compile a parsed expression into Notion filter JSON
+ */
+function compile(
+  expression: Expression,
+  schema: Record<string, DatabaseProperty>,
+  depth = 0
+): DatabaseFilter {
+  if (expression.kind === 'compound') {
+    if (depth >= MAX_COMPOUND_DEPTH) {
+      throw new FilterSyntaxError(
+        `Filters can nest AND/OR groups at most ${MAX_COMPOUND_DEPTH} levels deep`,
+        0
+      );
+    }
+    return {
+      [expression.operator]: expression.operands.map((operand) =>
+        compile(operand, schema, depth + 1)
+      ),
+    };
+  }
+
+  const match = findSchemaProperty(schema, expression.property);
+  if (!match) {
+    const timestamp = expression.property.toLowerCase();
+    if (TIMESTAMP_PROPERTIES.has(timestamp)) {
+      return { timestamp, [timestamp]: buildCondition(timestamp, expression) };
+    }
+    throw new FilterSyntaxError(
+      `Unknown property '${expression.property}'. Available: ${Object.keys(schema).join(', ')}`,
+      expression.position
+    );
+  }
+
+  const [name, property] = match;
+
+  if (property.type === 'formula') {
+    const [resultKey, ruleType] = FORMULA_RESULT_TYPES[expression.value?.kind ?? 'string'];
+    return { property: name, formula: { [resultKey]: buildCondition(ruleType, expression) } };
+  }
+
+  return { property: name, [property.type]: buildCondition(property.type, expression, property) };
+}
+
+/**
+ * Render an error message with a caret under the offending position
+ */
+function pointAt(expression: string, position: number, message: string): string {
+  return `${message} at position ${position}\n  ${expression}\n  ${' '.repeat(position)}^`;
+}
+
+/**
+ * Parse a filter expression and compile it into Notion filter JSON.
+ *
+ * Syntax: conditions of the form `Property operator value`, combined with AND,
+ * OR and parentheses. Property names with spaces can be quoted or written as
+ * [Due Date]. Operators: =, !=, <, <=, >, >=, contains, does not contain,
+ * starts with, ends with, before, after, on or before, on or after, is empty,
+ * is not empty. Values: "strings", numbers, true/false, dates (2026-11-01),
+ * today/tomorrow/yesterday (optionally offset, e.g. today-7d) and relative
+ * ranges (past_week, next_month, ...).
+ *
+ * @throws ValidationError pointing at the offending token
+ */
+export function parseFilterExpression(
+  expression: string,
+  schema: Record<string, DatabaseProperty>
+): DatabaseFilter {
+  try {
+    return compile(new Parser(tokenize(expression)).parse(), schema);
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      throw new ValidationError(`Invalid filter expression: ${error.message}`, {
+        where: [pointAt(expression, error.position, error.message)],
+      });
+    }
+    throw error;
+  }
+}
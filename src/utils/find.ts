@@ -0,0 +1,196 @@
+/**
+ * Page Content Search
+ *
+ * Search the plain text of every block of a page, or of a page and its child
+ * pages, returning block-level hits.
+ */
+
+import type { NotionClient } from '../client.js';
+import type { Block, RichTextItem } from '../types/entities.js';
+import { type BlockNode, fetchBlockTree, getBlockRichText } from './blocks.js';
+import { ValidationError } from './errors.js';
+import { getPageTitle, richTextToPlain } from './formatters.js';
+import { compileUserRegex } from './regex.js';
+
+/** Characters of context shown on each side of the first match in a block */
+const CONTEXT_LENGTH = 60;
+
+/** Largest number of pages searched in one call, including the root page */
+export const MAX_SEARCHED_PAGES = 50;
+
+/**
+ * Text to look for
+ */
+export interface TextPattern {
+  find: string;
+  /** Treat find as a regular expression */
+  regex?: boolean;
+  caseSensitive?: boolean;
+}
+
+/**
+ * A block whose text matches
+ */
+export interface ContentHit {
+  pageId: string;
+  pageTitle: string;
+  blockId: string;
+  blockType: string;
+  /** Headings the block is under, outermost first */
+  headingPath: string[];
+  /** Number of matches in the block */
+  matches: number;
+  /** Text around the first match, with the match in [[double brackets]] */
+  context: string;
+}
+
+/**
+ * Outcome of a page content search
+ */
+export interface ContentSearchResult {
+  hits: ContentHit[];
+  pagesSearched: number;
+  /** Set when maxResults or the page limit may have cut the search short */
+  truncated: boolean;
+}
+
+/**
+ * Options for searching page content
+ */
+export interface ContentSearchOptions {
+  /** Also search child pages, recursively (default: false) */
+  includeChildPages?: boolean;
+  /** Stop after this many hits */
+  maxResults: number;
+}
+
+/**
+ * Build the global regular expression for a text pattern
+ *
+ * @throws ValidationError for an empty or invalid pattern
+ */
+export function buildPattern(pattern: TextPattern): RegExp {
+  if (pattern.find === '') {
+    throw new ValidationError('Nothing to find', { find: ['Must not be empty'] });
+  }
+  const flags = pattern.caseSensitive === false ? 'gi' : 'g';
+  if (pattern.regex) return compileUserRegex(pattern.find, flags, 'find');
+  return new RegExp(pattern.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags);
+}
+
+/**
+ * Plain text of a block: its rich text, table cells or child page title
+ */
+export function getBlockText(block: Block): string {
+  if (block.type === 'table_row') {
+    const cells = (block.table_row as { cells?: RichTextItem[][] }).cells ?? [];
+    return cells.map(richTextToPlain).join(' | ');
+  }
+  if (block.type === 'child_page') {
+    return (block.child_page as { title?: string }).title ?? '';
+  }
+  return richTextToPlain(getBlockRichText(block));
+}
+
+/** Heading block types and their levels */
+const HEADING_LEVELS: Record<string, number> = { heading_1: 1, heading_2: 2, heading_3: 3 };
+
+/**
+ * Search a page's block tree, collecting hits and the child pages to search next
+ */
+class PageSearch {
+  readonly hits: ContentHit[] = [];
+  readonly childPages: Array<{ id: string; title: string }> = [];
+
+  constructor(
+    private readonly pattern: RegExp,
+    private readonly pageId: string,
+    private readonly pageTitle: string,
+    private readonly maxResults: number
+  ) {}
+
+  get full(): boolean {
+    return this.hits.length >= this.maxResults;
+  }
+
+  /**
+   * Search sibling blocks in order, tracking the headings above each one
+   */
+  search(nodes: BlockNode[], inherited: string[] = []): void {
+    const headings: Array<{ level: number; text: string }> = [];
+
+    for (const { block, children } of nodes) {
+      if (this.full) return;
+      const text = getBlockText(block);
+      const path = [...inherited, ...headings.map((heading) => heading.text)];
+      this.match(block, text, path);
+
+      const level = HEADING_LEVELS[block.type];
+      if (level) {
+        while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+        headings.push({ level, text });
+      }
+      if (block.type === 'child_page') {
+        this.childPages.push({ id: block.id, title: text });
+      }
+
+      // Children of a toggle heading are under that heading
+      const childPath = level ? [...path, text] : path;
+      this.search(children, childPath);
+    }
+  }
+
+  private match(block: Block, text: string, headingPath: string[]): void {
+    const found = [...text.matchAll(this.pattern)].filter((match) => match[0] !== '');
+    if (found.length === 0) return;
+
+    const [first] = found;
+    const start = first.index ?? 0;
+    const end = start + first[0].length;
+    this.hits.push({
+      pageId: this.pageId,
+      pageTitle: this.pageTitle,
+      blockId: block.id,
+      blockType: block.type,
+      headingPath,
+      matches: found.length,
+      context:
+        text.slice(Math.max(0, start - CONTEXT_LENGTH), start) +
+        `[[${first[0]}]]` +
+        text.slice(end, end + CONTEXT_LENGTH),
+    });
+  }
+}
+
+/**
+ * Search the plain text of every block of a page.
+ *
+ * With includeChildPages, child pages are searched breadth first, up to
+ * MAX_SEARCHED_PAGES pages in total.
+ */
+export async function searchPageContent(
+  client: NotionClient,
+  pageId: string,
+  text: TextPattern,
+  options: ContentSearchOptions
+): Promise<ContentSearchResult> {
+  const pattern = buildPattern(text);
+  const hits: ContentHit[] = [];
+  const queue = [{ id: pageId, title: getPageTitle(await client.getPage(pageId)) }];
+  let pagesSearched = 0;
+
+  while (queue.length > 0 && pagesSearched < MAX_SEARCHED_PAGES) {
+    const page = queue.shift() as { id: string; title: string };
+    const search = new PageSearch(pattern, page.id, page.title, options.maxResults - hits.length);
+    search.search(await fetchBlockTree(client, page.id));
+    pagesSearched++;
+
+    hits.push(...search.hits);
+    if (hits.length >= options.maxResults) {
+      return { hits, pagesSearched, truncated: true };
+    }
+    if (options.includeChildPages) queue.push(...search.childPages);
+  }
+
+  return { hits, pagesSearched, truncated: queue.length > 0 };
+}
@@ -14,7 +14,8 @@ import type {
   RichTextItem,
   User,
 } from '../types/entities.js';
-import { NotionApiError, formatErrorForLogging } from './errors.js';
+import { formatErrorForLogging, NotionApiError } from './errors.js';
+import { type CollectedList, continuationAt } from './pagination.js';
 
 /**
  * MCP tool response type
@@ -43,6 +44,170 @@ export function formatResponse(
   };
 }
 
+/**
+ * Paginated response that was cut short to fit the character limit
+ */
+interface TruncatedResponse<T> extends PaginatedResponse<T> {
+  truncated?: boolean;
+  continuation?: string;
+}
+
+/**
+ * Format a list response, keeping it within the character limit.
+ *
+ * When the full list does not fit, results are dropped from the end at item
+ * boundaries and the response carries a continuation token that resumes at
+ * the first dropped item. At most maxResults items are returned, with a
+ * continuation for the rest.
+ */
+export function formatListResponse<T>(
+  list: CollectedList<T>,
+  format: ResponseFormat,
+  entityType: string,
+  characterLimit: number,
+  maxResults = list.results.length
+): ToolResponse {
+  const render = (count: number): ToolResponse => {
+    const data: TruncatedResponse<T> = {
+      object: 'list',
+      results: list.results.slice(0, count),
+      hasMore: list.hasMore,
+      nextCursor: list.nextCursor,
+      type: list.type,
+    };
+    if (count < list.results.length) {
+      data.hasMore = true;
+      data.nextCursor = undefined;
+      data.truncated = true;
+      data.continuation = continuationAt(list, count);
+    }
+    return formatResponse(data, format, entityType);
+  };
+
+  const count = Math.min(list.results.length, maxResults);
+  const full = render(count);
+  if (responseLength(full) <= characterLimit) {
+    return full;
+  }
+
+  // Binary search for the largest number of items that fits
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (responseLength(render(mid)) <= characterLimit) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  // Always return at least one item so the continuation makes progress
+  return limitResponse(render(Math.max(low, 1)), characterLimit);
+}
+
+/**
+ * Total text length of a tool response
+ */
+function responseLength(response: ToolResponse): number {
+  return response.content.reduce((total, item) => total + item.text.length, 0);
+}
+
+/**
+ * Truncate text to a character limit, appending a notice when cut
+ */
+export function truncateText(text: string, characterLimit: number): string {
+  if (text.length <= characterLimit) {
+    return text;
+  }
+  const notice = `\n\n[Truncated: response exceeded the ${characterLimit} character limit. Request fewer items or a narrower selection.]`;
+  return text.slice(0, Math.max(0, characterLimit - notice.length)) + notice;
+}
+
+/**
+ * Shorten a JSON value: arrays keep at most maxItems entries and strings at
+ * most maxLength characters
+ */
+function shrinkJson(value: unknown, maxItems: number, maxLength: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > maxLength ? `${value.slice(0, maxLength)}…` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.slice(0, maxItems).map((item) => shrinkJson(item, maxItems, maxLength));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, shrinkJson(item, maxItems, maxLength)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Truncate a JSON object to a character limit while keeping it valid JSON,
+ * by shortening its arrays and strings. Returns undefined if the text is not
+ * a JSON object or cannot be made to fit.
+ */
+function truncateJson(text: string, characterLimit: number): string | undefined {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return undefined;
+  }
+
+  const notice = `Response exceeded the ${characterLimit} character limit, so long arrays and strings were shortened. Request fewer items or a narrower selection.`;
+  const render = (size: number): string =>
+    JSON.stringify({ ...(shrinkJson(data, size, size) as object), truncated: true, notice }, null, 2);
+
+  // Binary search for the largest array and string size that fits
+  let low = 0;
+  let high = characterLimit;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (render(mid).length <= characterLimit) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  const truncated = render(low);
+  return truncated.length <= characterLimit ? truncated : undefined;
+}
+
+/**
+ * Enforce the character limit on every text item of a tool response. JSON
+ * objects stay valid JSON; other text is cut with a notice.
+ */
+export function limitResponse(response: ToolResponse, characterLimit: number): ToolResponse {
+  if (responseLength(response) <= characterLimit) {
+    return response;
+  }
+  return {
+    ...response,
+    content: response.content.map((item) => ({
+      ...item,
+      text:
+        item.text.length <= characterLimit
+          ? item.text
+          : (truncateJson(item.text, characterLimit) ?? truncateText(item.text, characterLimit)),
+    })),
+  };
+}
+
+/** Errors behind the responses built by formatError, for logging */
+const responseErrors = new WeakMap<ToolResponse, unknown>();
+
+/**
+ * Get the error an error response was built from, if any
+ */
+export function getResponseError(response: ToolResponse): unknown {
+  return responseErrors.get(response);
+}
+
 /**
  * Format an error response
  */
@@ -61,7 +226,7 @@ export function formatError(error: unknown): ToolResponse {
     message = `Error: ${String(error)}`;
   }
 
-  return {
+  const response: ToolResponse = {
     content: [
       {
         type: 'text',
@@ -70,6 +235,8 @@ export function formatError(error: unknown): ToolResponse {
     ],
     isError: true,
   };
+  responseErrors.set(response, error);
+  return response;
 }
 
 /**
@@ -116,7 +283,12 @@ function formatPaginatedAsMarkdown(data: PaginatedResponse<unknown>, entityType:
 
   lines.push(`**Count:** ${data.results.length}`);
 
-  if (data.hasMore) {
+  const truncated = data as TruncatedResponse<unknown>;
+  if (truncated.continuation) {
+    lines.push(
+      `**Truncated:** Yes, to fit the character limit (continuation: \`${truncated.continuation}\`)`
+    );
+  } else if (data.hasMore) {
     lines.push(`**More available:** Yes (cursor: \`${data.nextCursor}\`)`);
   }
   lines.push('');
@@ -143,6 +315,9 @@ function formatPaginatedAsMarkdown(data: PaginatedResponse<unknown>, entityType:
     case 'comments':
       lines.push(formatCommentsTable(data.results as Comment[]));
       break;
+    case 'rows':
+      lines.push(formatRowsTable(data.results as FlatRow[]));
+      break;
     default:
       lines.push(formatGenericTable(data.results));
   }
@@ -216,6 +391,41 @@ function formatBlocksTable(blocks: Block[]): string {
   return lines.join('\n');
 }
 
+/**
+ * A result with flattened properties (see simplify options)
+ */
+interface FlatRow {
+  id: string;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Format a flattened value as a single Markdown table cell
+ */
+export function formatCellValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '-';
+  const text = Array.isArray(value) ? value.map(formatCellValue).join(', ') : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Format results with flattened properties as a Markdown table, one column per property
+ */
+function formatRowsTable(rows: FlatRow[]): string {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row.properties)))];
+
+  const lines: string[] = [];
+  lines.push(`| ID | ${columns.join(' | ')} |`);
+  lines.push(`|---|${columns.map(() => '---').join('|')}|`);
+
+  for (const row of rows) {
+    const cells = columns.map((column) => formatCellValue(row.properties[column]));
+    lines.push(`| ${row.id} | ${cells.join(' | ')} |`);
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format comments as Markdown table
  */
@@ -0,0 +1,937 @@
+/**
+ * Full-Text Index
+ *
+ * Per-tenant inverted index over the pages reachable from a root page or
+ * database (or every page shared with the integration), kept in a cache
+ * store and refreshed incrementally.
+ */
+
+import type { NotionClient } from '../client.js';
+import type { Database, Page } from '../types/entities.js';
+import { type BlockNode, fetchBlockTree } from './blocks.js';
+import { type CacheStore, hashToken } from './cache.js';
+import { ValidationError } from './errors.js';
+import { getBlockText } from './find.js';
+import { formatCellValue, getPageTitle, richTextToPlain } from './formatters.js';
+import { collectPages } from './pagination.js';
+import { flattenPropertyValue, normalizeId } from './properties.js';
+import {
+  type ChunkMatch,
+  type ContentChunk,
+  chunkByHeading,
+  type Embedder,
+  embedChunks,
+  rankChunks,
+  type StoredChunk,
+} from './semantic.js';
+
+/** Seconds the index is kept after its last build */
+export const INDEX_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Largest number of pages and databases indexed in one build */
+export const MAX_INDEXED_PAGES = 500;
+
+/** Pages and databases read per call to build; larger builds continue on the next call */
+export const BUILD_BATCH_PAGES = 25;
+
+/** Seconds an unfinished build can be continued */
+const PROGRESS_TTL_SECONDS = 24 * 60 * 60;
+
+/** Characters of each page's text kept for indexing and snippets */
+const MAX_DOCUMENT_LENGTH = 20_000;
+
+/** Number of stored values the posting lists are split across, by term */
+const POSTING_SHARDS = 32;
+
+/** Number of stored values the embeddings are split across, by page */
+const VECTOR_SHARDS = 16;
+
+/** Characters of context shown on each side of a snippet's match */
+const SNIPPET_CONTEXT_LENGTH = 80;
+
+/** Title terms count this many times, so title matches rank higher */
+const TITLE_WEIGHT = 3;
+
+/** BM25 ranking parameters */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * A page or database in the index
+ */
+interface IndexedPage {
+  id: string;
+  object: 'page' | 'database';
+  title: string;
+  url: string;
+  lastEditedTime: string;
+  /** When the page's text was last stored */
+  indexedAt: string;
+  /** Build that stored the page's text, which is part of its document key */
+  generation: string;
+  /** Number of terms, with title terms weighted */
+  length: number;
+  /** Embedding model of the page's stored vectors; unset if it was not embedded */
+  embeddingModel?: string;
+  /** Child pages and databases found in the page's blocks */
+  children: CrawlTarget[];
+}
+
+/**
+ * The index's list of pages, stored apart from the postings
+ */
+interface IndexManifest {
+  /** Root the index was built from; every shared page if unset */
+  rootId?: string;
+  builtAt: string;
+  /** Whether the last build stopped at the page limit */
+  truncated: boolean;
+  terms: number;
+  /** Embedding model of the stored vectors; unset if pages were not embedded */
+  embeddingModel?: string;
+  /** Build that stored each posting and vector shard, by shard name such as postings:3 */
+  shards: Record<string, string>;
+  pages: Record<string, IndexedPage>;
+}
+
+/**
+ * An indexed page, with its text and term counts if it was (re-)indexed
+ */
+interface IndexedEntry {
+  page: IndexedPage;
+  document?: { text: string; counts: Record<string, number>; chunks: ContentChunk[] };
+  /** Whether the database's rows were listed only up to the page limit */
+  truncated?: boolean;
+}
+
+/**
+ * State of a build that continues over several calls.
+ *
+ * Text, postings and vectors are written under keys suffixed with the build's
+ * generation, so the last complete index is untouched until the build ends.
+ */
+interface BuildProgress {
+  rootId?: string;
+  generation: string;
+  /** Build that stored each shard this build reads and writes, by shard name */
+  shards: Record<string, string>;
+  /** Whether unchanged pages from the last build are kept */
+  reusePages: boolean;
+  /** Whether vectors from the last build are kept for unchanged pages */
+  reuseVectors: boolean;
+  /** Whether listing the shared pages or a database's rows stopped at the page limit */
+  listingTruncated: boolean;
+  queue: CrawlTarget[];
+  visited: string[];
+  pages: Record<string, IndexedPage>;
+  updated: number;
+  failed: IndexBuildResult['failed'];
+}
+
+/**
+ * Stored chunks with their embeddings, by page ID
+ */
+type Vectors = Record<string, StoredChunk[]>;
+
+/**
+ * Term frequencies by term, then by page ID
+ */
+type Postings = Record<string, Record<string, number>>;
+
+/**
+ * Page or database to visit while crawling
+ */
+interface CrawlTarget {
+  id: string;
+  object: 'page' | 'database';
+}
+
+/**
+ * Options for building the index
+ */
+export interface IndexBuildOptions {
+  /** Page or database to crawl from (default: every page shared with the integration) */
+  rootId?: string;
+  /** Stop after this many pages and databases */
+  maxPages: number;
+  /** Re-index every page, even unchanged ones */
+  rebuild?: boolean;
+}
+
+/**
+ * Outcome of a build
+ */
+export interface IndexBuildResult {
+  rootId?: string;
+  /** Whether the build finished; if not, call build again to continue it */
+  complete: boolean;
+  /** Pages and databases found but not read yet */
+  remaining: number;
+  pagesIndexed: number;
+  /** Pages whose text was (re-)indexed */
+  updated: number;
+  unchanged: number;
+  /** Pages dropped because they are no longer reachable (once the build is complete) */
+  removed: number;
+  /** Pages that could not be read */
+  failed: Array<{ id: string; error: string }>;
+  truncated: boolean;
+}
+
+/**
+ * State of a tenant's index
+ */
+export interface IndexStatus {
+  built: boolean;
+  rootId?: string;
+  builtAt?: string;
+  pages: number;
+  databases: number;
+  terms: number;
+  truncated: boolean;
+  /** Whether a build was started and has not finished */
+  building: boolean;
+  /** Embedding model of the stored vectors, if pages were embedded for semantic search */
+  embeddingModel?: string;
+}
+
+/**
+ * A section of a page that matched a semantic search
+ */
+export interface SemanticHit {
+  pageId: string;
+  pageTitle: string;
+  url: string;
+  /** Heading or first block of the section; unset for keyword matches */
+  blockId?: string;
+  headingPath: string[];
+  score: number;
+  text: string;
+}
+
+/**
+ * Outcome of a semantic search
+ */
+export interface SemanticSearchResult {
+  /** keyword when no embeddings are available and results come from the text index */
+  mode: 'semantic' | 'keyword';
+  /** Why the search fell back to keywords */
+  note?: string;
+  results: SemanticHit[];
+}
+
+/**
+ * A ranked query result
+ */
+export interface IndexHit {
+  id: string;
+  object: 'page' | 'database';
+  title: string;
+  url: string;
+  score: number;
+  matchedTerms: string[];
+  /** Text around the first match, with the match in [[double brackets]] */
+  snippet: string;
+}
+
+// =============================================================================
+// Text Extraction
+// =============================================================================
+
+/**
+ * Split text into lowercase terms, ignoring accents and single characters
+ */
+export function tokenize(text: string): string[] {
+  const normalized = text.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '');
+  return (normalized.match(/[\p{L}\p{N}]+/gu) ?? []).filter((term) => term.length > 1);
+}
+
+/**
+ * Plain text of a block tree, one line per block, and the child pages and
+ * databases found in it
+ */
+function extractTree(nodes: BlockNode[], lines: string[], children: CrawlTarget[]): void {
+  for (const { block, children: nested } of nodes) {
+    const text = getBlockText(block);
+    if (text) lines.push(text);
+    if (block.type === 'child_page') children.push({ id: block.id, object: 'page' });
+    if (block.type === 'child_database') children.push({ id: block.id, object: 'database' });
+    extractTree(nested, lines, children);
+  }
+}
+
+/**
+ * Plain text of a page's properties other than its title
+ */
+function propertiesText(page: Page): string[] {
+  return Object.values(page.properties)
+    .filter((value) => value.type !== 'title' && value.type !== 'relation')
+    .map((value) => flattenPropertyValue(value))
+    .filter((value) => value !== null && value !== '' && typeof value !== 'boolean')
+    .map(formatCellValue);
+}
+
+/**
+ * Count terms, adding title terms TITLE_WEIGHT times
+ */
+function countTerms(
+  title: string,
+  text: string
+): { counts: Record<string, number>; length: number } {
+  const counts: Record<string, number> = {};
+  const titleTerms = tokenize(title);
+  const terms = [...Array(TITLE_WEIGHT).fill(titleTerms).flat(), ...tokenize(text)];
+  for (const term of terms) counts[term] = (counts[term] ?? 0) + 1;
+  return { counts, length: terms.length };
+}
+
+/**
+ * Whether an indexed page is unchanged and its stored text is not about to expire
+ */
+function isCurrent(
+  previous: IndexedPage | undefined,
+  lastEditedTime: string,
+  staleBefore: string
+): previous is IndexedPage {
+  return (
+    previous !== undefined &&
+    previous.lastEditedTime === lastEditedTime &&
+    previous.indexedAt > staleBefore
+  );
+}
+
+/**
+ * Text around the first occurrence of any of the terms
+ */
+function snippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  let start = -1;
+  let found = '';
+  for (const term of terms) {
+    const index = lower.indexOf(term);
+    if (index >= 0 && (start < 0 || index < start)) {
+      start = index;
+      found = term;
+    }
+  }
+  if (start < 0) return text.slice(0, SNIPPET_CONTEXT_LENGTH * 2);
+
+  const end = start + found.length;
+  return (
+    text.slice(Math.max(0, start - SNIPPET_CONTEXT_LENGTH), start) +
+    `[[${text.slice(start, end)}]]` +
+    text.slice(end, end + SNIPPET_CONTEXT_LENGTH)
+  );
+}
+
+// =============================================================================
+// Index
+// =============================================================================
+
+/**
+ * Full-text index of a single tenant's pages
+ */
+export class FullTextIndex {
+  constructor(
+    private readonly store: CacheStore,
+    private readonly tenantKey: Promise<string>,
+    private readonly embedder?: Embedder
+  ) {}
+
+  private async key(name: string): Promise<string> {
+    return `index:${await this.tenantKey}:${name}`;
+  }
+
+  private async load<T>(name: string): Promise<T | undefined> {
+    const value = await this.store.get(await this.key(name));
+    return value ? (JSON.parse(value) as T) : undefined;
+  }
+
+  private async save(name: string, value: unknown): Promise<void> {
+    await this.store.put(await this.key(name), JSON.stringify(value), INDEX_TTL_SECONDS);
+  }
+
+  /**
+   * Crawl from the root and index every page whose last_edited_time changed
+   * since the last build.
+   *
+   * Each call reads at most BUILD_BATCH_PAGES pages and databases and saves
+   * its progress, so large builds stay within the Workers subrequest limit and
+   * are finished by calling build again with the same root. The previous
+   * index stays searchable until the build completes: the build writes to
+   * keys of its own generation and the stored text, postings and vectors it
+   * replaces are deleted only once its manifest is saved.
+   *
+   * Pages whose text was stored more than half the TTL ago are re-indexed too,
+   * so stored text never expires before the index does. Database rows are
+   * listed on every build, up to the page limit, since editing a row does not
+   * change the database.
+   *
+   * With an embedder, each page's sections are embedded too. Pages that have
+   * not been embedded with the embedder's model are re-indexed; an embedding
+   * failure leaves the page searchable by keyword only until the next build.
+   */
+  async build(client: NotionClient, options: IndexBuildOptions): Promise<IndexBuildResult> {
+    const known = new Map<string, Page | Database>();
+    const manifest = await this.load<IndexManifest>('manifest');
+    const saved = await this.load<BuildProgress>('progress');
+    let progress: BuildProgress;
+    if (
+      saved &&
+      !options.rebuild &&
+      normalizeId(saved.rootId ?? '') === normalizeId(options.rootId ?? '')
+    ) {
+      progress = saved;
+    } else {
+      if (saved) await this.discardBuild(saved);
+      progress = await this.startBuild(client, options, manifest, known);
+    }
+    const oldPages = (progress.reusePages && manifest?.pages) || {};
+    const model = this.embedder?.model;
+
+    const visited = new Set(progress.visited);
+    const fresh = new Map<string, Record<string, number>>();
+    const embedded: Vectors = {};
+    const staleBefore = new Date(Date.now() - (INDEX_TTL_SECONDS / 2) * 1000).toISOString();
+    let read = 0;
+    while (
+      progress.queue.length > 0 &&
+      visited.size < options.maxPages &&
+      read < BUILD_BATCH_PAGES
+    ) {
+      const target = progress.queue.shift() as CrawlTarget;
+      const id = normalizeId(target.id);
+      if (visited.has(id)) continue;
+      visited.add(id);
+      read++;
+
+      try {
+        const entry =
+          target.object === 'database'
+            ? await this.indexDatabase(client, target.id, known, oldPages[id], staleBefore, {
+                generation: progress.generation,
+                maxRows: options.maxPages,
+              })
+            : await this.indexPage(client, target.id, known, oldPages[id], staleBefore, {
+                generation: progress.generation,
+                embedded:
+                  !model || (progress.reuseVectors && oldPages[id]?.embeddingModel === model),
+              });
+        if (entry.truncated) progress.listingTruncated = true;
+        if (entry.document) {
+          await this.save(documentKey(entry.page), entry.document.text);
+          fresh.set(id, entry.document.counts);
+          if (this.embedder && entry.page.object === 'page') {
+            const { title } = entry.page;
+            try {
+              embedded[id] = await embedChunks(this.embedder, title, entry.document.chunks);
+              entry.page.embeddingModel = model;
+            } catch (error) {
+              const message = error instanceof Error ? error.message : String(error);
+              progress.failed.push({ id: target.id, error: `Embedding failed: ${message}` });
+            }
+          }
+        }
+        progress.pages[id] = entry.page;
+        progress.queue.push(...entry.page.children);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        progress.failed.push({ id: target.id, error: message });
+        // Keep the last indexed version rather than dropping the page
+        if (oldPages[id]) progress.pages[id] = oldPages[id];
+      }
+    }
+
+    progress.queue = progress.queue.filter((target) => !visited.has(normalizeId(target.id)));
+    progress.visited = [...visited];
+    progress.updated += fresh.size;
+    const complete = progress.queue.length === 0 || visited.size >= options.maxPages;
+
+    // Pages from the last build that were not reached this time
+    const removed = complete ? Object.keys(oldPages).filter((id) => !progress.pages[id]) : [];
+
+    const replaced = new Set([...fresh.keys(), ...removed]);
+    const terms = await this.updatePostings(progress, replaced, fresh);
+    if (model) await this.updateVectors(progress, replaced, embedded);
+
+    const truncated = complete && (progress.listingTruncated || progress.queue.length > 0);
+    if (complete) {
+      await this.save('manifest', {
+        rootId: options.rootId,
+        builtAt: new Date().toISOString(),
+        truncated,
+        terms,
+        embeddingModel: model,
+        shards: progress.shards,
+        pages: progress.pages,
+      } satisfies IndexManifest);
+      await this.store.delete(await this.key('progress'));
+      if (manifest) await this.deleteReplaced(manifest, progress);
+    } else {
+      const value = JSON.stringify(progress);
+      await this.store.put(await this.key('progress'), value, PROGRESS_TTL_SECONDS);
+    }
+
+    const pagesIndexed = Object.keys(progress.pages).length;
+    return {
+      rootId: options.rootId,
+      complete,
+      remaining: complete ? 0 : progress.queue.length,
+      pagesIndexed,
+      updated: progress.updated,
+      unchanged: pagesIndexed - progress.updated,
+      removed: removed.length,
+      failed: progress.failed,
+      truncated,
+    };
+  }
+
+  /**
+   * Start a build, on top of the stored index unless it is being rebuilt or
+   * was built from another root, and list the pages and databases to crawl
+   */
+  private async startBuild(
+    client: NotionClient,
+    options: IndexBuildOptions,
+    manifest: IndexManifest | undefined,
+    known: Map<string, Page | Database>
+  ): Promise<BuildProgress> {
+    const reuse =
+      !options.rebuild &&
+      manifest !== undefined &&
+      normalizeId(manifest.rootId ?? '') === normalizeId(options.rootId ?? '');
+    // Vectors would go stale as pages change without an embedder, or mix models
+    const model = this.embedder?.model;
+    const reuseVectors = reuse && model !== undefined && manifest.embeddingModel === model;
+    const shards = Object.fromEntries(
+      Object.entries((reuse && manifest.shards) || {}).filter(
+        ([name]) => reuseVectors || !name.startsWith('vectors:')
+      )
+    );
+
+    const queue: CrawlTarget[] = [];
+    let listingTruncated = false;
+    if (options.rootId) {
+      const block = await client.getBlock(options.rootId);
+      queue.push({
+        id: options.rootId,
+        object: block.type === 'child_database' ? 'database' : 'page',
+      });
+    } else {
+      const results = await collectPages(
+        (cursor, size) => client.search(undefined, undefined, undefined, cursor, size),
+        { maxItems: options.maxPages }
+      );
+      for (const item of results.results) {
+        known.set(normalizeId(item.id), item);
+        queue.push({ id: item.id, object: item.object });
+      }
+      listingTruncated = results.hasMore;
+    }
+
+    return {
+      rootId: options.rootId,
+      generation: crypto.randomUUID().slice(0, 8),
+      shards,
+      reusePages: reuse,
+      reuseVectors,
+      listingTruncated,
+      queue,
+      visited: [],
+      pages: {},
+      updated: 0,
+      failed: [],
+    };
+  }
+
+  /**
+   * Delete what an unfinished build stored, when it is abandoned for a new one
+   */
+  private async discardBuild(progress: BuildProgress): Promise<void> {
+    for (const [name, generation] of Object.entries(progress.shards)) {
+      if (generation === progress.generation) {
+        await this.store.delete(await this.key(`${name}:${generation}`));
+      }
+    }
+    for (const page of Object.values(progress.pages)) {
+      if (page.generation === progress.generation) {
+        await this.store.delete(await this.key(documentKey(page)));
+      }
+    }
+  }
+
+  /**
+   * Delete the text and shards of the previous index that a completed build
+   * replaced or dropped
+   */
+  private async deleteReplaced(previous: IndexManifest, progress: BuildProgress): Promise<void> {
+    for (const [name, generation] of Object.entries(previous.shards)) {
+      if (progress.shards[name] !== generation) {
+        await this.store.delete(await this.key(`${name}:${generation}`));
+      }
+    }
+    for (const [id, page] of Object.entries(previous.pages)) {
+      if (progress.pages[id]?.generation !== page.generation) {
+        await this.store.delete(await this.key(documentKey(page)));
+      }
+    }
+  }
+
+  /**
+   * Load a posting or vector shard as stored by the build that last wrote it
+   */
+  private async loadShard<T>(name: string, shards: Record<string, string>): Promise<T | undefined> {
+    const generation = shards[name];
+    return generation ? this.load<T>(`${name}:${generation}`) : undefined;
+  }
+
+  /**
+   * Save a posting or vector shard under the generation of the build
+   */
+  private async saveShard(progress: BuildProgress, name: string, value: unknown): Promise<void> {
+    await this.save(`${name}:${progress.generation}`, value);
+    progress.shards[name] = progress.generation;
+  }
+
+  /**
+   * Drop pages from the posting lists and add the term counts of re-indexed
+   * pages, one shard at a time, and return the number of distinct terms
+   */
+  private async updatePostings(
+    progress: BuildProgress,
+    remove: Set<string>,
+    add: Map<string, Record<string, number>>
+  ): Promise<number> {
+    const added = new Map<number, Array<[string, string, number]>>();
+    for (const [id, counts] of add) {
+      for (const [term, count] of Object.entries(counts)) {
+        const shard = shardOf(term, POSTING_SHARDS);
+        const entries = added.get(shard) ?? [];
+        entries.push([term, id, count]);
+        added.set(shard, entries);
+      }
+    }
+
+    let terms = 0;
+    for (let shard = 0; shard < POSTING_SHARDS; shard++) {
+      const name = `postings:${shard}`;
+      const postings = (await this.loadShard<Postings>(name, progress.shards)) ?? {};
+      const changed = removePostings(postings, remove);
+      for (const [term, id, count] of added.get(shard) ?? []) {
+        postings[term] ??= {};
+        postings[term][id] = count;
+      }
+      if (changed || added.has(shard)) await this.saveShard(progress, name, postings);
+      terms += Object.keys(postings).length;
+    }
+    return terms;
+  }
+
+  /**
+   * Replace the stored vectors of re-indexed pages, loading only the shards
+   * they are in
+   */
+  private async updateVectors(
+    progress: BuildProgress,
+    remove: Set<string>,
+    add: Vectors
+  ): Promise<void> {
+    const ids = [...remove, ...Object.keys(add)];
+    const shards = new Set(ids.map((id) => shardOf(id, VECTOR_SHARDS)));
+    for (const shard of shards) {
+      const name = `vectors:${shard}`;
+      const vectors = (await this.loadShard<Vectors>(name, progress.shards)) ?? {};
+      for (const id of ids) {
+        if (shardOf(id, VECTOR_SHARDS) !== shard) continue;
+        delete vectors[id];
+        if (add[id]) vectors[id] = add[id];
+      }
+      await this.saveShard(progress, name, vectors);
+    }
+  }
+
+  /**
+   * Posting lists of the given terms, loading only the shards they are in
+   */
+  private async loadPostings(manifest: IndexManifest, terms: string[]): Promise<Postings> {
+    const postings: Postings = {};
+    const shards = new Set(terms.map((term) => shardOf(term, POSTING_SHARDS)));
+    for (const shard of shards) {
+      const stored = (await this.loadShard<Postings>(`postings:${shard}`, manifest.shards)) ?? {};
+      for (const term of terms) {
+        if (stored[term]) postings[term] = stored[term];
+      }
+    }
+    return postings;
+  }
+
+  /**
+   * Index a page, or reuse its entry if it has not changed
+   */
+  private async indexPage(
+    client: NotionClient,
+    pageId: string,
+    known: Map<string, Page | Database>,
+    previous: IndexedPage | undefined,
+    staleBefore: string,
+    { generation, embedded }: { generation: string; embedded: boolean }
+  ): Promise<IndexedEntry> {
+    const page =
+      (known.get(normalizeId(pageId)) as Page | undefined) ?? (await client.getPage(pageId));
+    if (isCurrent(previous, page.last_edited_time, staleBefore) && embedded) {
+      return { page: previous };
+    }
+
+    const lines = propertiesText(page);
+    const children: CrawlTarget[] = [];
+    const tree = await fetchBlockTree(client, page.id);
+    extractTree(tree, lines, children);
+    const title = getPageTitle(page);
+    const text = lines.join('\n').slice(0, MAX_DOCUMENT_LENGTH);
+    const { counts, length } = countTerms(title, text);
+
+    return {
+      page: {
+        id: page.id,
+        object: 'page',
+        title,
+        url: page.url,
+        lastEditedTime: page.last_edited_time,
+        indexedAt: new Date().toISOString(),
+        generation,
+        length,
+        children,
+      },
+      document: { text, counts, chunks: chunkByHeading(tree) },
+    };
+  }
+
+  /**
+   * Index a database's title and description, and list up to maxRows of its
+   * rows as children
+   */
+  private async indexDatabase(
+    client: NotionClient,
+    databaseId: string,
+    known: Map<string, Page | Database>,
+    previous: IndexedPage | undefined,
+    staleBefore: string,
+    { generation, maxRows }: { generation: string; maxRows: number }
+  ): Promise<IndexedEntry> {
+    const database =
+      (known.get(normalizeId(databaseId)) as Database | undefined) ??
+      (await client.getDatabase(databaseId));
+
+    const rows = await collectPages(
+      (cursor, size) => client.queryDatabase(database.id, undefined, undefined, cursor, size),
+      { maxItems: maxRows }
+    );
+    const children: CrawlTarget[] = [];
+    for (const row of rows.results) {
+      known.set(normalizeId(row.id), row);
+      children.push({ id: row.id, object: 'page' });
+    }
+
+    if (isCurrent(previous, database.last_edited_time, staleBefore)) {
+      return { page: { ...previous, children }, truncated: rows.hasMore };
+    }
+
+    const title = richTextToPlain(database.title) || 'Untitled';
+    const text = richTextToPlain(database.description);
+    const { counts, length } = countTerms(title, text);
+
+    return {
+      page: {
+        id: database.id,
+        object: 'database',
+        title,
+        url: database.url,
+        lastEditedTime: database.last_edited_time,
+        indexedAt: new Date().toISOString(),
+        generation,
+        length,
+        children,
+      },
+      document: { text, counts, chunks: [] },
+      truncated: rows.hasMore,
+    };
+  }
+
+  async status(): Promise<IndexStatus> {
+    const manifest = await this.load<IndexManifest>('manifest');
+    const entries = Object.values(manifest?.pages ?? {});
+    return {
+      built: manifest !== undefined,
+      rootId: manifest?.rootId,
+      builtAt: manifest?.builtAt,
+      pages: entries.filter((entry) => entry.object === 'page').length,
+      databases: entries.filter((entry) => entry.object === 'database').length,
+      terms: manifest?.terms ?? 0,
+      truncated: manifest?.truncated ?? false,
+      building: (await this.store.get(await this.key('progress'))) !== null,
+      embeddingModel: manifest?.embeddingModel,
+    };
+  }
+
+  /**
+   * Rank indexed pages against a query with BM25
+   *
+   * @throws ValidationError if the index has not been built
+   */
+  async query(text: string, limit: number): Promise<IndexHit[]> {
+    const manifest = await this.load<IndexManifest>('manifest');
+    if (!manifest) {
+      throw new ValidationError('The search index has not been built', {
+        index: ['Build it with notion_index_build first'],
+      });
+    }
+
+    const terms = [...new Set(tokenize(text))];
+    const postings = await this.loadPostings(manifest, terms);
+    const entries = Object.values(manifest.pages);
+    const totalLength = entries.reduce((sum, entry) => sum + entry.length, 0);
+    const averageLength = totalLength / (entries.length || 1);
+
+    const scores = new Map<string, { score: number; matchedTerms: string[] }>();
+    for (const term of terms) {
+      const matches = Object.entries(postings[term] ?? {});
+      const idf = Math.log(1 + (entries.length - matches.length + 0.5) / (matches.length + 0.5));
+      for (const [id, count] of matches) {
+        const entry = manifest.pages[id];
+        if (!entry) continue;
+        const norm = 1 - BM25_B + BM25_B * (entry.length / (averageLength || 1));
+        const score = (idf * count * (BM25_K1 + 1)) / (count + BM25_K1 * norm);
+        const current = scores.get(id) ?? { score: 0, matchedTerms: [] };
+        scores.set(id, {
+          score: current.score + score,
+          matchedTerms: [...current.matchedTerms, term],
+        });
+      }
+    }
+
+    const ranked = [...scores.entries()]
+      .sort(([, a], [, b]) => b.matchedTerms.length - a.matchedTerms.length || b.score - a.score)
+      .slice(0, limit);
+
+    const hits: IndexHit[] = [];
+    for (const [id, { score, matchedTerms }] of ranked) {
+      const entry = manifest.pages[id];
+      const document = (await this.load<string>(documentKey(entry))) ?? '';
+      hits.push({
+        id: entry.id,
+        object: entry.object,
+        title: entry.title,
+        url: entry.url,
+        score: Math.round(score * 1000) / 1000,
+        matchedTerms,
+        snippet: snippet(document || entry.title, matchedTerms),
+      });
+    }
+    return hits;
+  }
+
+  /**
+   * Rank indexed page sections by similarity to a query.
+   *
+   * Without an embedder, or if the index was built without one, the query
+   * falls back to keyword ranking and says why.
+   *
+   * @throws ValidationError if the index has not been built
+   */
+  async semanticSearch(text: string, limit: number): Promise<SemanticSearchResult> {
+    const manifest = await this.load<IndexManifest>('manifest');
+    const model = this.embedder?.model;
+    const embedded = model !== undefined && manifest?.embeddingModel === model;
+
+    if (!this.embedder || !manifest || !embedded) {
+      const hits = await this.query(text, limit);
+      return {
+        mode: 'keyword',
+        note: this.embedder
+          ? 'The index has no embeddings yet; run notion_index_build to add them'
+          : 'Workers AI is not bound (AI), so results are ranked by keywords',
+        results: hits.map((hit) => ({
+          pageId: hit.id,
+          pageTitle: hit.title,
+          url: hit.url,
+          headingPath: [],
+          score: hit.score,
+          text: hit.snippet,
+        })),
+      };
+    }
+
+    const [queryVector] = await this.embedder.embed([text]);
+    const matches: ChunkMatch[] = [];
+    for (let shard = 0; shard < VECTOR_SHARDS; shard++) {
+      const vectors = await this.loadShard<Vectors>(`vectors:${shard}`, manifest.shards);
+      if (vectors) matches.push(...rankChunks(queryVector, vectors, limit));
+    }
+    matches.sort((a, b) => b.score - a.score);
+
+    const results = matches.slice(0, limit).flatMap(({ pageId, chunk, score }) => {
+      const entry = manifest.pages[pageId];
+      if (!entry) return [];
+      return [
+        {
+          pageId: entry.id,
+          pageTitle: entry.title,
+          url: entry.url,
+          blockId: chunk.blockId,
+          headingPath: chunk.headingPath,
+          score: Math.round(score * 1000) / 1000,
+          text: chunk.preview,
+        },
+      ];
+    });
+    return { mode: 'semantic', results };
+  }
+}
+
+/**
+ * Remove pages from every posting list, in a single pass over the terms, and
+ * return whether any was removed
+ */
+function removePostings(postings: Postings, ids: Set<string>): boolean {
+  let changed = false;
+  if (ids.size === 0) return changed;
+  for (const [term, pages] of Object.entries(postings)) {
+    for (const id of Object.keys(pages)) {
+      if (!ids.has(id)) continue;
+      delete pages[id];
+      changed = true;
+    }
+    if (Object.keys(pages).length === 0) delete postings[term];
+  }
+  return changed;
+}
+
+/**
+ * Key of a page's stored text, which is specific to the build that stored it
+ */
+function documentKey(page: IndexedPage): string {
+  return `doc:${normalizeId(page.id)}:${page.generation}`;
+}
+
+/**
+ * Shard a term or page ID is stored in (FNV-1a hash)
+ */
+function shardOf(key: string, shards: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0) % shards;
+}
+
+/**
+ * Create the full-text index for a tenant token, embedding page sections for
+ * semantic search if an embedder is given
+ */
+export function createFullTextIndex(
+  store: CacheStore,
+  accessToken: string,
+  embedder?: Embedder
+): FullTextIndex {
+  return new FullTextIndex(store, hashToken(accessToken), embedder);
+}
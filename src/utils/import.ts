@@ -0,0 +1,436 @@
+/**
+ * Import Utilities
+ *
+ * Parse CSV or JSON rows and write them to a database as pages, optionally
+ * updating existing pages that share a unique key.
+ */
+
+import type { NotionClient } from '../client.js';
+import type { DatabaseFilter, DatabaseProperty, Page } from '../types/entities.js';
+import { NotionApiError, ValidationError } from './errors.js';
+import { paginate } from './pagination.js';
+import {
+  buildPropertyValues,
+  createUserResolver,
+  findSchemaProperty,
+  propertyValueKey,
+} from './properties.js';
+
+/** Largest number of rows a single import may contain */
+export const MAX_IMPORT_ROWS = 1000;
+
+/** Rows written per call; larger imports continue from nextRow */
+export const IMPORT_BATCH_ROWS = 50;
+
+/** Property types that are computed by Notion and never imported */
+const COMPUTED_PROPERTY_TYPES = new Set([
+  'formula',
+  'rollup',
+  'created_time',
+  'created_by',
+  'last_edited_time',
+  'last_edited_by',
+  'unique_id',
+]);
+
+/**
+ * Options for importing rows
+ */
+export interface ImportOptions {
+  /** Source column -> property name overrides; unlisted columns match by name */
+  columnMap?: Record<string, string>;
+  /** Property whose value identifies existing pages to update instead of duplicating */
+  keyProperty?: string;
+  /** Validate and plan without writing anything */
+  dryRun?: boolean;
+  /** 1-based row number to start at, from the nextRow of a previous import */
+  startRow?: number;
+}
+
+/**
+ * Outcome for a single imported row
+ */
+export interface ImportRowResult {
+  /** 1-based row number in the input (excluding a CSV header) */
+  row: number;
+  action: 'created' | 'updated' | 'skipped';
+  pageId?: string;
+  errors?: Record<string, string[]>;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportResult {
+  dryRun: boolean;
+  summary: { created: number; updated: number; skipped: number };
+  /** Source columns that do not map to a writable schema property */
+  ignoredColumns: string[];
+  rows: ImportRowResult[];
+  /** Row to pass as startRow to import the rest, when the import stopped early */
+  nextRow?: number;
+  /** Why the import stopped before the end of its batch */
+  error?: string;
+}
+
+// =============================================================================
+// CSV Parsing
+// =============================================================================
+
+/**
+ * Parse CSV text (RFC 4180) into records keyed by the header row.
+ *
+ * Quoted fields may contain commas, doubled quotes and line breaks. Missing
+ * trailing fields are read as empty strings.
+ *
+ * @throws ValidationError for unterminated quotes or rows with too many fields
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    // Skip blank lines
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  while (i < input.length) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (quoted) {
+    throw new ValidationError('Invalid CSV', { csv: ['Unterminated quoted field'] });
+  }
+  if (field !== '' || record.length > 0) endRecord();
+
+  const [header, ...rows] = records;
+  if (!header) return [];
+  const columns = header.map((column) => column.trim());
+
+  return rows.map((values, index) => {
+    if (values.length > columns.length) {
+      throw new ValidationError('Invalid CSV', {
+        csv: [`Row ${index + 1} has ${values.length} fields, header has ${columns.length}`],
+      });
+    }
+    return Object.fromEntries(columns.map((column, j) => [column, values[j] ?? '']));
+  });
+}
+
+// =============================================================================
+// Column Mapping
+// =============================================================================
+
+/**
+ * Map source columns to writable schema properties.
+ *
+ * @throws ValidationError when the column map names a property missing from the schema
+ */
+export function mapImportColumns(
+  schema: Record<string, DatabaseProperty>,
+  columns: string[],
+  columnMap: Record<string, string> = {}
+): { mapping: Record<string, string>; ignored: string[] } {
+  const mapping: Record<string, string> = {};
+  const ignored: string[] = [];
+  const details: Record<string, string[]> = {};
+
+  for (const column of columns) {
+    const target = columnMap[column] ?? column;
+    const match = findSchemaProperty(schema, target);
+    if (!match) {
+      if (columnMap[column]) {
+        details[column] = [`Unknown property '${target}'. Available: ${Object.keys(schema).join(', ')}`];
+      } else {
+        ignored.push(column);
+      }
+    } else if (COMPUTED_PROPERTY_TYPES.has(match[1].type)) {
+      ignored.push(column);
+    } else {
+      mapping[column] = match[0];
+    }
+  }
+
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Some mapped columns are not in the database schema', details);
+  }
+  return { mapping, ignored };
+}
+
+// =============================================================================
+// Key Lookup
+// =============================================================================
+
+/** Key values combined into one `or` filter when looking up existing pages */
+const KEY_LOOKUP_CHUNK = 50;
+
+/**
+ * Query filter condition matching pages whose key property may equal the
+ * given property value, or undefined if the type has no suitable filter.
+ * Candidates are confirmed by comparing keys, so list types only need to
+ * contain the first item.
+ */
+function keyCondition(
+  name: string,
+  type: string,
+  value: Record<string, unknown>
+): DatabaseFilter | undefined {
+  const content = value[type];
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return { property: name, [type]: { equals: propertyValueKey(type, value) } };
+    case 'number':
+    case 'checkbox':
+      return { property: name, [type]: { equals: content } };
+    case 'select':
+    case 'status':
+      return { property: name, [type]: { equals: (content as { name: string }).name } };
+    case 'date':
+      return { property: name, date: { equals: (content as { start: string }).start } };
+    case 'multi_select':
+      return {
+        property: name,
+        multi_select: { contains: (content as Array<{ name: string }>)[0].name },
+      };
+    case 'people':
+    case 'relation':
+      return { property: name, [type]: { contains: (content as Array<{ id: string }>)[0].id } };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Find the existing pages whose key property matches one of the given
+ * property values, mapping each key to the first matching page.
+ *
+ * Only the given keys are queried, in chunks of `or` conditions; types
+ * without a filter condition fall back to listing the whole database.
+ */
+async function findExistingPages(
+  client: NotionClient,
+  databaseId: string,
+  keyProperty: [string, DatabaseProperty],
+  values: Record<string, unknown>[]
+): Promise<Map<string, string>> {
+  const [name, { type }] = keyProperty;
+  const wanted = new Map<string, Record<string, unknown>>();
+  for (const value of values) {
+    const key = propertyValueKey(type, value);
+    if (key && !wanted.has(key)) wanted.set(key, value);
+  }
+
+  const existing = new Map<string, string>();
+  if (wanted.size === 0) return existing;
+
+  const conditions = [...wanted.values()].map((value) => keyCondition(name, type, value));
+  const filters: Array<DatabaseFilter | undefined> = [];
+  if (conditions.some((condition) => !condition)) {
+    filters.push(undefined);
+  } else {
+    for (let i = 0; i < conditions.length; i += KEY_LOOKUP_CHUNK) {
+      filters.push({ or: conditions.slice(i, i + KEY_LOOKUP_CHUNK) });
+    }
+  }
+
+  for (const filter of filters) {
+    for await (const page of paginate<Page>((cursor, size) =>
+      client.queryDatabase(databaseId, filter, undefined, cursor, size)
+    )) {
+      const value = page.properties[name];
+      const key = value ? propertyValueKey(type, value as unknown as Record<string, unknown>) : '';
+      if (wanted.has(key) && !existing.has(key)) existing.set(key, page.id);
+    }
+  }
+  return existing;
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Per-property errors for a row rejected by validation or the API
+ */
+function errorDetails(error: NotionApiError): Record<string, string[]> {
+  return error instanceof ValidationError && Object.keys(error.details).length > 0
+    ? error.details
+    : { row: [error.message] };
+}
+
+/**
+ * Import rows into a database.
+ *
+ * Each row is validated against the schema; rows that fail are skipped with
+ * per-property errors. With a key property, existing pages whose value for
+ * that property matches a row's are looked up for the batch and updated
+ * instead of duplicated. Values are compared after coercion to the
+ * property type, so `1.0` matches 1 and an email matches its user. Empty
+ * strings are treated as missing values; use null to clear.
+ *
+ * At most IMPORT_BATCH_ROWS rows are written per call (a dry run checks every
+ * row). If the batch ends early or an unexpected error stops the import, the
+ * rows committed so far are returned with the nextRow to continue from.
+ */
+export async function importRows(
+  client: NotionClient,
+  databaseId: string,
+  rows: Record<string, unknown>[],
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`Too many rows: ${rows.length}`, {
+      rows: [`Import at most ${MAX_IMPORT_ROWS} rows per call`],
+    });
+  }
+
+  const database = await client.getDatabase(databaseId);
+  const schema = database.properties;
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const { mapping, ignored } = mapImportColumns(schema, columns, options.columnMap);
+
+  let keyProperty: [string, DatabaseProperty] | undefined;
+  if (options.keyProperty) {
+    keyProperty = findSchemaProperty(schema, options.keyProperty);
+    if (!keyProperty) {
+      throw new ValidationError(`Unknown key property '${options.keyProperty}'`, {
+        keyProperty: [`Available: ${Object.keys(schema).join(', ')}`],
+      });
+    }
+  }
+
+  const resolveUser = createUserResolver(client);
+  const result: ImportResult = {
+    dryRun: options.dryRun ?? false,
+    summary: { created: 0, updated: 0, skipped: 0 },
+    ignoredColumns: ignored,
+    rows: [],
+  };
+
+  const start = Math.max((options.startRow ?? 1) - 1, 0);
+  const end = options.dryRun ? rows.length : Math.min(start + IMPORT_BATCH_ROWS, rows.length);
+  if (end < rows.length) result.nextRow = end + 1;
+
+  // Validate the whole batch first so its keys can be looked up together
+  const prepared: Array<{ outcome: ImportRowResult; properties?: Record<string, unknown> }> = [];
+  let stopped: { index: number; error: string } | undefined;
+  for (let index = start; index < end; index++) {
+    const values: Record<string, unknown> = {};
+    for (const [column, value] of Object.entries(rows[index])) {
+      if (mapping[column] && value !== '' && value !== undefined) {
+        values[mapping[column]] = value;
+      }
+    }
+
+    const outcome: ImportRowResult = { row: index + 1, action: 'skipped' };
+    try {
+      if (Object.keys(values).length === 0) {
+        throw new ValidationError('Row has no values', { row: ['No mapped column has a value'] });
+      }
+      const properties = await buildPropertyValues(schema, values, resolveUser);
+      prepared.push({ outcome, properties });
+    } catch (error) {
+      if (!(error instanceof NotionApiError)) {
+        stopped = { index, error: error instanceof Error ? error.message : String(error) };
+        break;
+      }
+      outcome.errors = errorDetails(error);
+      prepared.push({ outcome });
+    }
+  }
+
+  const keyValue = (properties: Record<string, unknown> | undefined) =>
+    (keyProperty && properties?.[keyProperty[0]]) as Record<string, unknown> | undefined;
+  const existing = keyProperty
+    ? await findExistingPages(
+        client,
+        databaseId,
+        keyProperty,
+        prepared.flatMap(({ properties }) => {
+          const value = keyValue(properties);
+          return value ? [value] : [];
+        })
+      )
+    : new Map<string, string>();
+
+  for (const { outcome, properties } of prepared) {
+    result.rows.push(outcome);
+
+    if (properties) {
+      try {
+        const value = keyValue(properties);
+        const key = keyProperty && value ? propertyValueKey(keyProperty[1].type, value) : '';
+        if (key && existing.has(key)) {
+          // Pages planned by earlier rows of a dry run have no ID yet
+          const pageId = existing.get(key) || undefined;
+          if (!options.dryRun && pageId) await client.updatePage(pageId, properties);
+          outcome.action = 'updated';
+          outcome.pageId = pageId;
+        } else {
+          if (!options.dryRun) {
+            const page = await client.createPage(databaseId, 'database_id', properties);
+            outcome.pageId = page.id;
+          }
+          outcome.action = 'created';
+          // Later rows with the same key update this page rather than duplicating it
+          if (key) existing.set(key, outcome.pageId ?? '');
+        }
+      } catch (error) {
+        if (!(error instanceof NotionApiError)) {
+          // Report the rows committed so far so the import can resume at this row
+          result.rows.pop();
+          stopped = {
+            index: outcome.row - 1,
+            error: error instanceof Error ? error.message : String(error),
+          };
+          break;
+        }
+        outcome.errors = errorDetails(error);
+      }
+    }
+
+    result.summary[outcome.action]++;
+  }
+
+  if (stopped) {
+    result.nextRow = stopped.index + 1;
+    result.error = stopped.error;
+  }
+  return result;
+}
@@ -2,5 +2,26 @@
  * Utility exports
  */
 
+export * from './audit.js';
+export * from './blocks.js';
+export * from './cache.js';
+export * from './copy.js';
+export * from './diff.js';
 export * from './errors.js';
+export * from './export.js';
+export * from './filters.js';
+export * from './find.js';
 export * from './formatters.js';
+export * from './fulltext.js';
+export * from './import.js';
+export * from './journal.js';
+export * from './markdown.js';
+export * from './pagination.js';
+export * from './properties.js';
+export * from './regex.js';
+export * from './replace.js';
+export * from './retry.js';
+export * from './scope.js';
+export * from './search.js';
+export * from './semantic.js';
+export * from './template.js';
@@ -0,0 +1,566 @@
+/**
+ * Change Journal
+ *
+ * Per-tenant record of the writes made through this server, with the state
+ * needed to undo each of them.
+ */
+
+import { type NotionClient, NotionClientDecorator } from '../client.js';
+import type {
+  Block,
+  Database,
+  DatabaseProperty,
+  Page,
+  PaginatedResponse,
+  RichTextItem,
+} from '../types/entities.js';
+import { appendBlocks, type BlockNode } from './blocks.js';
+import { type CacheStore, hashToken } from './cache.js';
+import {
+  type CopyReport,
+  createCopyReport,
+  nodeToInput,
+  writableBlockContent,
+  writablePropertyValue,
+  writableRichText,
+} from './copy.js';
+import { NotFoundError, NotionApiError, ValidationError } from './errors.js';
+import { getPageTitle, richTextToPlain } from './formatters.js';
+import type { BlockInput } from './markdown.js';
+import { paginate } from './pagination.js';
+import { getParentId, normalizeId } from './properties.js';
+
+/** Seconds a journal entry is kept */
+export const JOURNAL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Upper bound for timestamps, used to sort keys newest first */
+const MAX_TIMESTAMP = 10 ** 13;
+
+/** Entries read from the store at a time when listing */
+const LIST_BATCH_SIZE = 50;
+
+/** Deepest nesting saved from a deleted block to re-create it */
+const DELETE_CAPTURE_MAX_DEPTH = 3;
+
+/** Most blocks saved from a deleted block; larger subtrees are not saved */
+const DELETE_CAPTURE_MAX_BLOCKS = 200;
+
+/**
+ * Write operations recorded in the journal
+ */
+export type JournalOperation =
+  | 'create_page'
+  | 'update_page'
+  | 'trash_page'
+  | 'create_database'
+  | 'update_database'
+  | 'append_blocks'
+  | 'update_block'
+  | 'delete_block';
+
+/**
+ * How to restore the state before a write
+ */
+export type UndoAction =
+  /** Restore page properties, archived state, icon or cover */
+  | {
+      type: 'update_page';
+      pageId: string;
+      properties?: Record<string, unknown>;
+      archived?: boolean;
+      icon?: unknown;
+      cover?: unknown;
+    }
+  /** Restore a database's title, description, schema, icon or cover */
+  | {
+      type: 'update_database';
+      databaseId: string;
+      title?: RichTextItem[];
+      description?: RichTextItem[];
+      properties?: Record<string, unknown>;
+      icon?: unknown;
+      cover?: unknown;
+    }
+  /** Restore a block's content */
+  | { type: 'update_block'; blockId: string; content: Record<string, unknown> }
+  /**
+   * Restore a deleted block, or re-create it from its saved content if it
+   * cannot be restored. The content is unset if the subtree was too large to
+   * save; nested blocks that cannot be re-created are listed as unsaved.
+   */
+  | {
+      type: 'restore_block';
+      blockId: string;
+      parentId?: string;
+      content?: BlockInput;
+      unsaved?: CopyReport['unsupportedBlocks'];
+    }
+  /** Delete created pages, databases or blocks */
+  | { type: 'delete'; ids: string[] };
+
+/**
+ * A recorded write
+ */
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  operation: JournalOperation;
+  /** ID of the page, block or database that was written */
+  targetId: string;
+  summary: string;
+  undo: UndoAction;
+  /** When the change was undone, if it was */
+  undoneAt?: string;
+}
+
+// =============================================================================
+// Journal
+// =============================================================================
+
+/**
+ * Journal of a single tenant's writes
+ */
+export class ChangeJournal {
+  constructor(
+    private readonly store: CacheStore,
+    private readonly tenantKey: Promise<string>
+  ) {}
+
+  private async prefix(): Promise<string> {
+    return `journal:${await this.tenantKey}:`;
+  }
+
+  /**
+   * Record a write. Failures are ignored, since the write itself succeeded.
+   */
+  async record(entry: Omit<JournalEntry, 'id' | 'timestamp'>): Promise<void> {
+    const now = Date.now();
+    const sortKey = String(MAX_TIMESTAMP - now).padStart(13, '0');
+    const id = `${sortKey}-${crypto.randomUUID().slice(0, 8)}`;
+    try {
+      await this.save({ id, timestamp: new Date(now).toISOString(), ...entry });
+    } catch {
+      // A journal outage must not fail writes
+    }
+  }
+
+  /**
+   * List entries, newest first
+   */
+  async list(limit: number, targetId?: string): Promise<JournalEntry[]> {
+    const prefix = await this.prefix();
+    const keys = (await this.store.list(prefix)).sort();
+    const entries: JournalEntry[] = [];
+
+    // Read entries in parallel batches until enough of them match
+    for (let start = 0; start < keys.length && entries.length < limit; start += LIST_BATCH_SIZE) {
+      const batch = await Promise.all(
+        keys.slice(start, start + LIST_BATCH_SIZE).map((key) => this.get(key.slice(prefix.length)))
+      );
+      for (const entry of batch) {
+        if (entry && (!targetId || normalizeId(entry.targetId) === normalizeId(targetId))) {
+          entries.push(entry);
+        }
+      }
+    }
+    return entries.slice(0, limit);
+  }
+
+  async get(id: string): Promise<JournalEntry | undefined> {
+    const value = await this.store.get(`${await this.prefix()}${id}`);
+    return value ? (JSON.parse(value) as JournalEntry) : undefined;
+  }
+
+  async save(entry: JournalEntry): Promise<void> {
+    const key = `${await this.prefix()}${entry.id}`;
+    await this.store.put(key, JSON.stringify(entry), JOURNAL_TTL_SECONDS);
+  }
+}
+
+/**
+ * Create the journal for a tenant token
+ */
+export function createChangeJournal(store: CacheStore, accessToken: string): ChangeJournal {
+  return new ChangeJournal(store, hashToken(accessToken));
+}
+
+// =============================================================================
+// Payload Helpers
+// =============================================================================
+
+/**
+ * Convert a database property schema to the payload that writes it back
+ */
+function schemaPayload(property: DatabaseProperty): Record<string, unknown> {
+  return { name: property.name, [property.type]: property[property.type] ?? {} };
+}
+
+// =============================================================================
+// Journaled Client
+// =============================================================================
+
+/**
+ * Notion client that records each write, and the state it replaced, in a
+ * change journal.
+ *
+ * The previous state is read before each write, which costs one extra
+ * request per update or deletion. If it cannot be read the write still goes
+ * ahead, unrecorded.
+ */
+export class JournaledNotionClient extends NotionClientDecorator {
+  constructor(
+    inner: NotionClient,
+    private readonly journal: ChangeJournal
+  ) {
+    super(inner);
+  }
+
+  /**
+   * Read the state before a write, or undefined if it cannot be read
+   */
+  private async capture<T>(read: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await read();
+    } catch {
+      return undefined;
+    }
+  }
+
+  override async createPage(
+    parentId: string,
+    parentType: 'database_id' | 'page_id',
+    properties: Record<string, unknown>,
+    children?: unknown[],
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Page> {
+    const page = await super.createPage(parentId, parentType, properties, children, icon, cover);
+    await this.journal.record({
+      operation: 'create_page',
+      targetId: page.id,
+      summary: `Created page '${getPageTitle(page)}'`,
+      undo: { type: 'delete', ids: [page.id] },
+    });
+    return page;
+  }
+
+  override async updatePage(
+    pageId: string,
+    properties?: Record<string, unknown>,
+    archived?: boolean,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Page> {
+    const before = await this.capture(() => this.inner.getPage(pageId));
+    const page = await super.updatePage(pageId, properties, archived, icon, cover);
+    if (!before) return page;
+
+    // Properties may be named by name or by ID
+    const previous: Record<string, unknown> = {};
+    for (const key of Object.keys(properties ?? {})) {
+      const match = Object.entries(before.properties).find(
+        ([name, value]) => name === key || value.id === key
+      );
+      const payload = match && writablePropertyValue(match[1]);
+      if (match && payload) previous[match[0]] = payload;
+    }
+
+    const changed = [
+      ...Object.keys(previous),
+      ...(archived !== undefined ? ['archived'] : []),
+      ...(icon !== undefined ? ['icon'] : []),
+      ...(cover !== undefined ? ['cover'] : []),
+    ];
+    await this.journal.record({
+      operation: 'update_page',
+      targetId: pageId,
+      summary: `Updated ${changed.join(', ') || 'nothing'} on page '${getPageTitle(before)}'`,
+      undo: {
+        type: 'update_page',
+        pageId,
+        properties: Object.keys(previous).length > 0 ? previous : undefined,
+        archived: archived !== undefined ? before.archived : undefined,
+        icon: icon !== undefined ? (before.icon ?? null) : undefined,
+        cover: cover !== undefined ? (before.cover ?? null) : undefined,
+      },
+    });
+    return page;
+  }
+
+  override async trashPage(pageId: string): Promise<Page> {
+    const page = await super.trashPage(pageId);
+    await this.journal.record({
+      operation: 'trash_page',
+      targetId: pageId,
+      summary: `Moved page '${getPageTitle(page)}' to trash`,
+      undo: { type: 'update_page', pageId, archived: false },
+    });
+    return page;
+  }
+
+  override async createDatabase(
+    parentPageId: string,
+    title: RichTextItem[],
+    properties: Record<string, unknown>,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Database> {
+    const database = await super.createDatabase(parentPageId, title, properties, icon, cover);
+    await this.journal.record({
+      operation: 'create_database',
+      targetId: database.id,
+      summary: `Created database '${richTextToPlain(database.title)}'`,
+      undo: { type: 'delete', ids: [database.id] },
+    });
+    return database;
+  }
+
+  override async updateDatabase(
+    databaseId: string,
+    title?: RichTextItem[],
+    description?: RichTextItem[],
+    properties?: Record<string, unknown>,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Database> {
+    const before = await this.capture(() => this.inner.getDatabase(databaseId));
+    const database = await super.updateDatabase(
+      databaseId,
+      title,
+      description,
+      properties,
+      icon,
+      cover
+    );
+    if (!before) return database;
+
+    // Restore changed and removed properties by ID, and remove added ones
+    let previous: Record<string, unknown> | undefined;
+    if (properties) {
+      previous = {};
+      const after = Object.values(database.properties);
+      for (const property of Object.values(before.properties)) {
+        const current = after.find(({ id }) => id === property.id);
+        if (JSON.stringify(current) !== JSON.stringify(property)) {
+          previous[property.id] = schemaPayload(property);
+        }
+      }
+      for (const property of after) {
+        if (!Object.values(before.properties).some(({ id }) => id === property.id)) {
+          previous[property.id] = null;
+        }
+      }
+    }
+
+    await this.journal.record({
+      operation: 'update_database',
+      targetId: databaseId,
+      summary: `Updated database '${richTextToPlain(before.title)}'`,
+      undo: {
+        type: 'update_database',
+        databaseId,
+        title: title ? writableRichText(before.title) : undefined,
+        description: description ? writableRichText(before.description ?? []) : undefined,
+        properties: previous,
+        icon: icon !== undefined ? (before.icon ?? null) : undefined,
+        cover: cover !== undefined ? (before.cover ?? null) : undefined,
+      },
+    });
+    return database;
+  }
+
+  override async appendBlockChildren(
+    blockId: string,
+    children: unknown[]
+  ): Promise<PaginatedResponse<Block>> {
+    const result = await super.appendBlockChildren(blockId, children);
+    await this.journal.record({
+      operation: 'append_blocks',
+      targetId: blockId,
+      summary: `Appended ${result.results.length} blocks`,
+      undo: { type: 'delete', ids: result.results.map(({ id }) => id) },
+    });
+    return result;
+  }
+
+  override async updateBlock(blockId: string, content: Record<string, unknown>): Promise<Block> {
+    const before = await this.capture(() => this.inner.getBlock(blockId));
+    const block = await super.updateBlock(blockId, content);
+    if (!before) return block;
+
+    const previous: Record<string, unknown> = {};
+    for (const key of Object.keys(content)) {
+      previous[key] = key === before.type ? writableBlockContent(before[key]) : before[key];
+    }
+    await this.journal.record({
+      operation: 'update_block',
+      targetId: blockId,
+      summary: `Updated ${before.type} block`,
+      undo: { type: 'update_block', blockId, content: previous },
+    });
+    return block;
+  }
+
+  override async deleteBlock(blockId: string): Promise<Block> {
+    const report = createCopyReport();
+    const content = await this.capture(async () => {
+      const node = await captureSubtree(this.inner, await this.inner.getBlock(blockId));
+      return node && nodeToInput(node, {}, report);
+    });
+    const block = await super.deleteBlock(blockId);
+    // Without the content, undo can only take the block out of the trash
+    const unsaved = report.unsupportedBlocks;
+    const note = !content
+      ? ' (content not saved, restorable from the trash only)'
+      : unsaved.length > 0
+        ? ` (${unsaved.length} nested blocks not saved)`
+        : '';
+    await this.journal.record({
+      operation: 'delete_block',
+      targetId: blockId,
+      summary: `Deleted ${block.type} block${note}`,
+      undo: {
+        type: 'restore_block',
+        blockId,
+        parentId: getParentId(block.parent),
+        content,
+        unsaved: content && unsaved.length > 0 ? unsaved : undefined,
+      },
+    });
+    return block;
+  }
+}
+
+/**
+ * Fetch the subtree of a block about to be deleted, so its content can be
+ * re-created, or undefined if the subtree is deeper or larger than the
+ * capture limits. Pages and databases below it are kept by the trash.
+ */
+async function captureSubtree(client: NotionClient, root: Block): Promise<BlockNode | undefined> {
+  let remaining = DELETE_CAPTURE_MAX_BLOCKS;
+
+  const walk = async (block: Block, depth: number): Promise<BlockNode | undefined> => {
+    if (!block.has_children || block.type === 'child_page' || block.type === 'child_database') {
+      return { block, children: [] };
+    }
+    if (depth >= DELETE_CAPTURE_MAX_DEPTH) return undefined;
+
+    const children: BlockNode[] = [];
+    for await (const child of paginate((cursor, size) =>
+      client.getBlockChildren(block.id, cursor, size)
+    )) {
+      remaining--;
+      const node = remaining >= 0 ? await walk(child, depth + 1) : undefined;
+      if (!node) return undefined;
+      children.push(node);
+    }
+    return { block, children };
+  };
+
+  return walk(root, 0);
+}
+
+// =============================================================================
+// Undo
+// =============================================================================
+
+/**
+ * Undo a journaled change.
+ *
+ * The undo is made with the given client, so it is subject to the same
+ * access scope and is itself journaled, which allows redoing it.
+ *
+ * @returns A description of what was restored, including any content of a
+ *   deleted block that could not be re-created
+ * @throws NotFoundError if the change is not in the journal
+ * @throws ValidationError if the change was already undone, or a deleted
+ *   block is no longer in the trash and its content was not saved
+ */
+export async function undoChange(
+  client: NotionClient,
+  journal: ChangeJournal,
+  changeId: string
+): Promise<{ change: JournalEntry; result: string }> {
+  const entry = await journal.get(changeId);
+  if (!entry) {
+    throw new NotFoundError('Change', changeId);
+  }
+  if (entry.undoneAt) {
+    throw new ValidationError(`Change '${changeId}' was already undone`, {
+      changeId: [`Undone at ${entry.undoneAt}`],
+    });
+  }
+
+  const { undo } = entry;
+  let result: string;
+  switch (undo.type) {
+    case 'update_page':
+      await client.updatePage(undo.pageId, undo.properties, undo.archived, undo.icon, undo.cover);
+      result = `Restored page ${undo.pageId}`;
+      break;
+    case 'update_database':
+      await client.updateDatabase(
+        undo.databaseId,
+        undo.title,
+        undo.description,
+        undo.properties,
+        undo.icon,
+        undo.cover
+      );
+      result = `Restored database ${undo.databaseId}`;
+      break;
+    case 'update_block':
+      await client.updateBlock(undo.blockId, undo.content);
+      result = `Restored block ${undo.blockId}`;
+      break;
+    case 'restore_block':
+      result = await restoreBlock(client, undo);
+      break;
+    case 'delete':
+      for (const id of undo.ids) {
+        await client.deleteBlock(id);
+      }
+      result = `Deleted ${undo.ids.length === 1 ? undo.ids[0] : `${undo.ids.length} items`}`;
+      break;
+  }
+
+  const change = { ...entry, undoneAt: new Date().toISOString() };
+  await journal.save(change);
+  return { change, result };
+}
+
+/**
+ * Take a deleted block out of the trash, or re-append a copy of it to the
+ * parent if it can no longer be restored
+ */
+async function restoreBlock(
+  client: NotionClient,
+  undo: Extract<UndoAction, { type: 'restore_block' }>
+): Promise<string> {
+  try {
+    await client.updateBlock(undo.blockId, { archived: false });
+    return `Restored block ${undo.blockId}`;
+  } catch (error) {
+    if (!(error instanceof NotionApiError) || !undo.parentId) throw error;
+    if (!undo.content) {
+      throw new ValidationError(`Block ${undo.blockId} cannot be restored`, {
+        changeId: [
+          `The block is no longer in the trash (${error.message}) and its content was too ` +
+            'large to save when it was deleted',
+        ],
+      });
+    }
+  }
+
+  await appendBlocks(client, undo.parentId, [undo.content]);
+  const unsaved = undo.unsaved ?? [];
+  const lost =
+    unsaved.length > 0
+      ? `, without ${unsaved.length} nested blocks that could not be saved ` +
+        `(${[...new Set(unsaved.map(({ type }) => type))].join(', ')})`
+      : '';
+  return (
+    `Block ${undo.blockId} could not be restored; re-appended a copy of it to the end of ` +
+    `${undo.parentId}${lost}`
+  );
+}
@@ -0,0 +1,682 @@
+/**
+ * Markdown Utilities
+ *
+ * Conversion between Notion blocks and Markdown.
+ */
+
+import type { RichTextItem } from '../types/entities.js';
+import { type BlockNode, getBlockContent, getBlockRichText, notionUrl } from './blocks.js';
+import { richTextToPlain } from './formatters.js';
+
+// =============================================================================
+// Rich Text -> Markdown
+// =============================================================================
+
+/**
+ * Wrap text in a Markdown marker, keeping surrounding whitespace outside it
+ */
+function wrap(text: string, marker: string, closing = marker): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${closing}${match[3]}`;
+}
+
+/**
+ * Convert a single rich text item to Markdown
+ */
+function richTextItemToMarkdown(item: RichTextItem): string {
+  if (item.type === 'equation' && item.equation) {
+    return `$${item.equation.expression}$`;
+  }
+
+  let text = item.plain_text ?? item.text?.content ?? '';
+  const annotations = item.annotations ?? {};
+
+  if (annotations.code) text = wrap(text, '`');
+  if (annotations.bold) text = wrap(text, '**');
+  if (annotations.italic) text = wrap(text, '_');
+  if (annotations.strikethrough) text = wrap(text, '~~');
+
+  let href = item.href ?? item.text?.link?.url;
+  if (!href && item.type === 'mention' && item.mention) {
+    const target = item.mention.page?.id ?? item.mention.database?.id;
+    if (target) href = notionUrl(target);
+  }
+
+  return href ? `[${text}](${href})` : text;
+}
+
+/**
+ * Convert a rich text array to inline Markdown
+ */
+export function richTextToMarkdown(richText: RichTextItem[]): string {
+  return richText.map(richTextItemToMarkdown).join('');
+}
+
+// =============================================================================
+// Blocks -> Markdown
+// =============================================================================
+
+const LIST_BLOCK_TYPES = new Set(['bulleted_list_item', 'numbered_list_item', 'to_do']);
+
+/**
+ * Indent every non-empty line of a Markdown string
+ */
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `${prefix}${line}` : line))
+    .join('\n');
+}
+
+/**
+ * Prefix every line of a Markdown string as a blockquote
+ */
+function quoteLines(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+/**
+ * Get the URL of a file-like block (image, video, file, pdf, audio)
+ */
+function getFileUrl(content: Record<string, unknown>): string {
+  const external = content.external as { url?: string } | undefined;
+  const file = content.file as { url?: string } | undefined;
+  return external?.url || file?.url || (content.url as string | undefined) || '';
+}
+
+/**
+ * Get the caption of a block as Markdown
+ */
+function getCaption(content: Record<string, unknown>): string {
+  return Array.isArray(content.caption)
+    ? richTextToMarkdown(content.caption as RichTextItem[])
+    : '';
+}
+
+/**
+ * Render a table block with its table_row children as a GFM table
+ */
+function renderTable(node: BlockNode): string {
+  const content = getBlockContent(node.block);
+  const rows = node.children
+    .filter((child) => child.block.type === 'table_row')
+    .map((child) => {
+      const cells = (getBlockContent(child.block).cells as RichTextItem[][] | undefined) ?? [];
+      return cells.map((cell) => richTextToMarkdown(cell).replace(/\|/g, '\\|').replace(/\n/g, ' '));
+    });
+
+  const width = Math.max((content.table_width as number | undefined) ?? 0, ...rows.map((r) => r.length));
+  if (width === 0) return '';
+
+  const toRow = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+
+  const header = content.has_column_header ? (rows.shift() ?? []) : [];
+  const lines = [toRow(header), `|${Array(width).fill('---').join('|')}|`];
+  for (const row of rows) {
+    lines.push(toRow(row));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a single block (and its children) as Markdown
+ */
+function renderBlock(node: BlockNode, listNumber: number): string {
+  const { block } = node;
+  const content = getBlockContent(block);
+  const text = richTextToMarkdown(getBlockRichText(block));
+  const children = node.children.length > 0 ? blocksToMarkdown(node.children) : '';
+
+  switch (block.type) {
+    case 'paragraph':
+      return children ? `${text}\n\n${indent(children, '    ')}` : text;
+
+    case 'heading_1':
+    case 'heading_2':
+    case 'heading_3': {
+      const level = Number(block.type.slice(-1));
+      const heading = `${'#'.repeat(level)} ${text}`;
+      return children ? `${heading}\n\n${children}` : heading;
+    }
+
+    case 'bulleted_list_item':
+    case 'numbered_list_item':
+    case 'to_do': {
+      let marker = '- ';
+      if (block.type === 'numbered_list_item') marker = `${listNumber}. `;
+      if (block.type === 'to_do') marker = `- [${content.checked ? 'x' : ' '}] `;
+
+      const pad = ' '.repeat(block.type === 'numbered_list_item' ? marker.length : 2);
+      const item = `${marker}${text.replace(/\n/g, `\n${pad}`)}`;
+      return children ? `${item}\n${indent(children, pad)}` : item;
+    }
+
+    case 'toggle':
+      return `<details>\n<summary>${text}</summary>\n\n${children}\n\n</details>`;
+
+    case 'quote':
+      return quoteLines(children ? `${text}\n\n${children}` : text);
+
+    case 'callout': {
+      const icon = content.icon as { emoji?: string } | undefined;
+      const body = icon?.emoji ? `${icon.emoji} ${text}` : text;
+      return quoteLines(children ? `${body}\n\n${children}` : body);
+    }
+
+    case 'code': {
+      const language = content.language === 'plain text' ? '' : ((content.language as string) ?? '');
+      const code = richTextToPlain(getBlockRichText(block));
+      return `\`\`\`${language}\n${code}\n\`\`\``;
+    }
+
+    case 'equation':
+      return `$$\n${(content.expression as string) ?? ''}\n$$`;
+
+    case 'divider':
+      return '---';
+
+    case 'table_of_contents':
+      return '[TOC]';
+
+    case 'breadcrumb':
+      return '';
+
+    case 'child_page':
+      return `[${(content.title as string) || 'Untitled'}](${notionUrl(block.id)})`;
+
+    case 'child_database':
+      return `[${(content.title as string) || 'Untitled database'}](${notionUrl(block.id)})`;
+
+    case 'link_to_page': {
+      const target = (content.page_id ?? content.database_id) as string | undefined;
+      return target ? `[Linked page](${notionUrl(target)})` : '';
+    }
+
+    case 'image': {
+      const url = getFileUrl(content);
+      return `![${richTextToPlain((content.caption as RichTextItem[] | undefined) ?? [])}](${url})`;
+    }
+
+    case 'video':
+    case 'file':
+    case 'pdf':
+    case 'audio': {
+      const url = getFileUrl(content);
+      const label = getCaption(content) || (content.name as string | undefined) || block.type;
+      return `[${label}](${url})`;
+    }
+
+    case 'embed':
+    case 'bookmark':
+    case 'link_preview': {
+      const url = (content.url as string | undefined) ?? '';
+      return `[${getCaption(content) || url}](${url})`;
+    }
+
+    case 'table':
+      return renderTable(node);
+
+    case 'column_list':
+    case 'column':
+    case 'synced_block':
+      return children;
+
+    case 'template':
+      return children ? `${text}\n\n${children}` : text;
+
+    default:
+      return `<!-- unsupported block: ${block.type} -->`;
+  }
+}
+
+/**
+ * Render a list of sibling blocks as Markdown.
+ *
+ * Consecutive list items are kept together so Markdown treats them as one
+ * list; numbered list items are numbered within their run.
+ */
+export function blocksToMarkdown(nodes: BlockNode[]): string {
+  let output = '';
+  let previousType: string | undefined;
+  let listNumber = 0;
+
+  for (const node of nodes) {
+    const type = node.block.type;
+    listNumber = type === 'numbered_list_item' && previousType === type ? listNumber + 1 : 1;
+
+    const rendered = renderBlock(node, listNumber);
+    if (rendered) {
+      const sameList =
+        previousType !== undefined && LIST_BLOCK_TYPES.has(previousType) && LIST_BLOCK_TYPES.has(type);
+      if (output) output += sameList ? '\n' : '\n\n';
+      output += rendered;
+    }
+    previousType = type;
+  }
+
+  return output;
+}
+
+// =============================================================================
+// Markdown -> Rich Text
+// =============================================================================
+
+/** Maximum length of a single rich text item's content */
+const MAX_TEXT_LENGTH = 2000;
+
+type Annotations = NonNullable<RichTextItem['annotations']>;
+
+/**
+ * Create text rich text items, splitting content that exceeds Notion's length limit
+ */
+function textItems(content: string, annotations: Annotations, link?: string): RichTextItem[] {
+  const items: RichTextItem[] = [];
+  for (let i = 0; i < content.length; i += MAX_TEXT_LENGTH) {
+    const item: RichTextItem = {
+      type: 'text',
+      text: { content: content.slice(i, i + MAX_TEXT_LENGTH), link: link ? { url: link } : null },
+    };
+    if (Object.keys(annotations).length > 0) {
+      item.annotations = { ...annotations };
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+/** URLs Notion accepts for links */
+const LINK_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+
+/**
+ * Find the closing delimiter of an inline span, ignoring escaped characters
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  for (let i = from; i <= text.length - delimiter.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text.startsWith(delimiter, i) && i > from) return i;
+  }
+  return -1;
+}
+
+/**
+ * Parse inline Markdown into rich text items
+ */
+function parseInline(text: string, annotations: Annotations, link?: string): RichTextItem[] {
+  const items: RichTextItem[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) items.push(...textItems(buffer, annotations, link));
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    // Escaped character
+    if (char === '\\' && i + 1 < text.length && /[\\`*_~[\]()$#>|-]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Inline code
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        items.push(...textItems(text.slice(i + 1, end), { ...annotations, code: true }, link));
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Inline equation
+    if (char === '$' && !link) {
+      const end = findClosing(text, '$', i + 1);
+      const expression = end > 0 ? text.slice(i + 1, end) : '';
+      if (expression && !/^\s|\s$/.test(expression) && !/\d/.test(text[end + 1] ?? '')) {
+        flush();
+        items.push({ type: 'equation', equation: { expression } });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Link; relative and anchor URLs, which Notion rejects, are kept as text
+    if (char === '[' && !link) {
+      const match = rest.match(/^\[([^\]]*)\]\(([^)\s]+)\)/);
+      if (match && !LINK_URL_PATTERN.test(match[2])) {
+        buffer += match[0];
+        i += match[0].length;
+        continue;
+      }
+      if (match) {
+        flush();
+        items.push(...parseInline(match[1], annotations, match[2]));
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    // Bold, strikethrough, italic
+    const delimiter = ['**', '__', '~~', '*', '_'].find((d) => rest.startsWith(d));
+    if (delimiter) {
+      const wordChar = /\w/.test(text[i - 1] ?? '');
+      const end = findClosing(text, delimiter, i + delimiter.length);
+      if (end > 0 && !(delimiter.startsWith('_') && wordChar) && !/\s/.test(text[i + delimiter.length])) {
+        const key: keyof Annotations =
+          delimiter === '~~' ? 'strikethrough' : delimiter.length === 2 ? 'bold' : 'italic';
+        flush();
+        items.push(...parseInline(text.slice(i + delimiter.length, end), { ...annotations, [key]: true }, link));
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return items;
+}
+
+/**
+ * Convert inline Markdown (bold, italic, strikethrough, code, links, equations)
+ * to a Notion rich text array
+ */
+export function markdownToRichText(text: string): RichTextItem[] {
+  return parseInline(text, {});
+}
+
+/**
+ * Convert plain text (without Markdown parsing) to a Notion rich text array
+ */
+export function textToRichText(text: string): RichTextItem[] {
+  return textItems(text, {});
+}
+
+// =============================================================================
+// Markdown -> Blocks
+// =============================================================================
+
+/**
+ * A block object in the shape accepted by the Notion API when creating content
+ */
+export type BlockInput = Record<string, unknown>;
+
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const DIVIDER_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const IMAGE_PATTERN = /^!\[([^\]]*)\]\(([^)\s]+)\)$/;
+
+/**
+ * Notion's supported code block languages that differ from common Markdown fence names
+ */
+const CODE_LANGUAGE_ALIASES: Record<string, string> = {
+  '': 'plain text',
+  text: 'plain text',
+  plaintext: 'plain text',
+  js: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  rb: 'ruby',
+  sh: 'shell',
+  bash: 'bash',
+  zsh: 'shell',
+  yml: 'yaml',
+  md: 'markdown',
+  'c++': 'c++',
+  cpp: 'c++',
+  cs: 'c#',
+  csharp: 'c#',
+  kt: 'kotlin',
+  rs: 'rust',
+  golang: 'go',
+};
+
+/**
+ * Create a text-bearing block
+ */
+function textBlock(type: string, text: string, extra: Record<string, unknown> = {}): BlockInput {
+  return {
+    object: 'block',
+    type,
+    [type]: { rich_text: markdownToRichText(text), ...extra },
+  };
+}
+
+/**
+ * Width of leading whitespace, counting tabs as four spaces
+ */
+function indentWidth(line: string): number {
+  const leading = line.match(/^\s*/)?.[0] ?? '';
+  return leading.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Remove up to `width` columns of leading whitespace from a line
+ */
+function dedent(line: string, width: number): string {
+  let removed = 0;
+  let i = 0;
+  while (i < line.length && removed < width && /\s/.test(line[i])) {
+    removed += line[i] === '\t' ? 4 : 1;
+    i++;
+  }
+  return line.slice(i);
+}
+
+/**
+ * Split a Markdown table row into cell strings
+ */
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Check whether a line starts a block construct other than a paragraph
+ */
+function startsBlock(line: string, next: string | undefined): boolean {
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line.trim()) ||
+    DIVIDER_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    line.trimStart().startsWith('>') ||
+    line.trim() === '$$' ||
+    (line.trimStart().startsWith('|') && next !== undefined && TABLE_SEPARATOR_PATTERN.test(next))
+  );
+}
+
+/**
+ * Parse Markdown into Notion block objects.
+ *
+ * Supports headings, paragraphs, nested bulleted/numbered/task lists, fenced
+ * code, blockquotes, tables, dividers, images, block equations and inline
+ * formatting.
+ */
+export function markdownToBlocks(markdown: string): BlockInput[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockInput[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[2])) {
+        code.push(dedent(lines[i], fence[1].length));
+        i++;
+      }
+      i++;
+      const language = fence[3].toLowerCase();
+      blocks.push({
+        object: 'block',
+        type: 'code',
+        code: {
+          rich_text: textItems(code.join('\n'), {}),
+          language: CODE_LANGUAGE_ALIASES[language] ?? language,
+        },
+      });
+      continue;
+    }
+
+    // Block equation
+    if (trimmed === '$$') {
+      const expression: string[] = [];
+      i++;
+      while (i < lines.length && lines[i].trim() !== '$$') {
+        expression.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({
+        object: 'block',
+        type: 'equation',
+        equation: { expression: expression.join('\n') },
+      });
+      continue;
+    }
+
+    // Heading (Notion supports three levels)
+    const heading = trimmed.match(HEADING_PATTERN);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3);
+      blocks.push(textBlock(`heading_${level}`, heading[2]));
+      i++;
+      continue;
+    }
+
+    // Divider
+    if (DIVIDER_PATTERN.test(line)) {
+      blocks.push({ object: 'block', type: 'divider', divider: {} });
+      i++;
+      continue;
+    }
+
+    // Blockquote
+    if (trimmed.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trimStart().startsWith('>')) {
+        quoted.push(lines[i].trimStart().replace(/^>\s?/, ''));
+        i++;
+      }
+      const [first, ...rest] = quoted.join('\n').split(/\n\s*\n/);
+      const children = markdownToBlocks(rest.join('\n\n'));
+      blocks.push(textBlock('quote', first, children.length > 0 ? { children } : {}));
+      continue;
+    }
+
+    // Table
+    if (trimmed.startsWith('|') && TABLE_SEPARATOR_PATTERN.test(lines[i + 1] ?? '')) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      const width = Math.max(header.length, ...rows.map((row) => row.length));
+      const toRow = (cells: string[]): BlockInput => ({
+        object: 'block',
+        type: 'table_row',
+        table_row: {
+          cells: Array.from({ length: width }, (_, c) => markdownToRichText(cells[c] ?? '')),
+        },
+      });
+      blocks.push({
+        object: 'block',
+        type: 'table',
+        table: {
+          table_width: width,
+          has_column_header: true,
+          has_row_header: false,
+          children: [header, ...rows].map(toRow),
+        },
+      });
+      continue;
+    }
+
+    // List item, with nested content indented below it
+    const listItem = line.match(LIST_ITEM_PATTERN);
+    if (listItem) {
+      const [, leading, marker, task, text] = listItem;
+      const contentIndent = indentWidth(leading) + marker.length + 1;
+      const nested: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const next = lines[i];
+        if (next.trim() && indentWidth(next) < contentIndent) break;
+        if (!next.trim() && (lines[i + 1] === undefined || indentWidth(lines[i + 1]) < contentIndent)) {
+          break;
+        }
+        nested.push(dedent(next, contentIndent));
+        i++;
+      }
+
+      const children = markdownToBlocks(nested.join('\n'));
+      const extra: Record<string, unknown> = children.length > 0 ? { children } : {};
+      if (task) {
+        blocks.push(textBlock('to_do', text, { checked: /x/i.test(task), ...extra }));
+      } else if (/\d/.test(marker)) {
+        blocks.push(textBlock('numbered_list_item', text, extra));
+      } else {
+        blocks.push(textBlock('bulleted_list_item', text, extra));
+      }
+      continue;
+    }
+
+    // Standalone image
+    const image = trimmed.match(IMAGE_PATTERN);
+    if (image) {
+      blocks.push({
+        object: 'block',
+        type: 'image',
+        image: {
+          type: 'external',
+          external: { url: image[2] },
+          ...(image[1] ? { caption: markdownToRichText(image[1]) } : {}),
+        },
+      });
+      i++;
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block
+    const paragraph: string[] = [trimmed];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i], lines[i + 1])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push(textBlock('paragraph', paragraph.join(' ')));
+  }
+
+  return blocks;
+}
@@ -0,0 +1,288 @@
+/**
+ * Pagination Utilities
+ *
+ * Helpers for walking cursor-paginated Notion list endpoints.
+ */
+
+import type { PaginatedResponse } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+
+/** Largest page size the Notion API accepts */
+const NOTION_MAX_PAGE_SIZE = 100;
+
+/** Hard cap on the number of items a single fetchAll request may return */
+export const MAX_FETCH_ALL_ITEMS = 1000;
+
+/**
+ * Fetches one page of a paginated list
+ */
+export type PageFetcher<T> = (
+  startCursor: string | undefined,
+  pageSize: number
+) => Promise<PaginatedResponse<T>>;
+
+/**
+ * Options for iterating over a paginated list
+ */
+export interface PaginateOptions {
+  /** Cursor to start from */
+  startCursor?: string;
+  /** Number of items to skip at the start of the first page */
+  skip?: number;
+  /** Page size for each request (default: 100) */
+  pageSize?: number;
+  /** Stop after this many items (default: unlimited) */
+  maxItems?: number;
+}
+
+/**
+ * Options accepted by list tools
+ */
+export interface ListOptions {
+  /** Cursor to start from */
+  startCursor?: string;
+  /** Continuation token from a truncated response (overrides startCursor) */
+  continuation?: string;
+  /** Page size when fetching a single page */
+  pageSize: number;
+  /** Fetch every page instead of a single one */
+  fetchAll?: boolean;
+  /** Maximum number of items to return when fetching all pages */
+  maxItems?: number;
+}
+
+/**
+ * A run of consecutive results that came from the same page
+ */
+export interface ListSegment {
+  /** Index in the collected results of the first item of the run */
+  index: number;
+  /** Cursor the page was fetched with */
+  cursor?: string;
+  /** Position of the first item of the run within its page */
+  offset: number;
+}
+
+/**
+ * A collected list that remembers where its results came from, so a
+ * continuation token can be built for any position in it
+ */
+export interface CollectedList<T> extends PaginatedResponse<T> {
+  segments: ListSegment[];
+  /**
+   * Where the results were fetched from, for lists filtered or reordered by
+   * refineList: continuations then fetch and refine the same results again
+   * and skip the ones already returned
+   */
+  refinedFrom?: Continuation;
+}
+
+/**
+ * Decoded continuation token: a page cursor plus items to skip within that page
+ */
+export interface Continuation {
+  cursor?: string;
+  skip: number;
+  /** Results to skip after refining the fetched list (see refineList) */
+  offset?: number;
+  /** ID of the resource the token belongs to, for tokens bound to one resource */
+  scope?: string;
+}
+
+// =============================================================================
+// Continuation Tokens
+// =============================================================================
+
+/**
+ * Encode a continuation token
+ */
+export function encodeContinuation(continuation: Continuation): string {
+  const { cursor: c, skip: s, offset: o, scope: p } = continuation;
+  return btoa(JSON.stringify({ c, s, o, p }))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode a continuation token. When a scope is given, tokens bound to a
+ * different resource are rejected.
+ */
+export function decodeContinuation(token: string, scope?: string): Continuation {
+  let continuation: Continuation | undefined;
+  try {
+    const decoded = JSON.parse(atob(token.replace(/-/g, '+').replace(/_/g, '/')));
+    if (typeof decoded.s === 'number' && decoded.s >= 0) {
+      continuation = {
+        cursor: typeof decoded.c === 'string' ? decoded.c : undefined,
+        skip: decoded.s,
+        offset: typeof decoded.o === 'number' && decoded.o > 0 ? decoded.o : undefined,
+        scope: typeof decoded.p === 'string' ? decoded.p : undefined,
+      };
+    }
+  } catch {
+    // Fall through to validation error
+  }
+  if (!continuation) {
+    throw new ValidationError('Invalid continuation token', {
+      continuation: ['Pass the continuation value from a previous truncated response unchanged'],
+    });
+  }
+  if (scope !== undefined && continuation.scope !== scope) {
+    throw new ValidationError('Continuation token belongs to a different request', {
+      continuation: ['Pass the continuation together with the arguments it was returned for'],
+    });
+  }
+  return continuation;
+}
+
+/**
+ * Build the continuation token that resumes a collected list at the given index
+ */
+export function continuationAt<T>(list: CollectedList<T>, index: number): string {
+  if (list.refinedFrom) {
+    const { offset = 0, ...start } = list.refinedFrom;
+    return encodeContinuation({ ...start, offset: offset + index });
+  }
+  let segment = list.segments[0] ?? { index: 0, offset: 0 };
+  for (const candidate of list.segments) {
+    if (candidate.index <= index) segment = candidate;
+  }
+  return encodeContinuation({
+    cursor: segment.cursor,
+    skip: segment.offset + (index - segment.index),
+  });
+}
+
+// =============================================================================
+// Iteration
+// =============================================================================
+
+/**
+ * Iterate over the pages of a paginated list.
+ *
+ * Page sizes shrink as maxItems is approached, so iteration always stops on a
+ * page boundary and the last page's cursor resumes exactly where it left off.
+ * Skipped items are removed from the first page's results.
+ */
+export async function* paginatePages<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {}
+): AsyncGenerator<PaginatedResponse<T>> {
+  const pageSize = Math.min(options.pageSize ?? NOTION_MAX_PAGE_SIZE, NOTION_MAX_PAGE_SIZE);
+  let remaining = options.maxItems ?? Number.POSITIVE_INFINITY;
+  let skip = options.skip ?? 0;
+  let cursor = options.startCursor;
+
+  while (remaining > 0) {
+    // Skipped items are part of the page, so fetch enough to get past them
+    const size = Math.min(skip + Math.min(pageSize, remaining), NOTION_MAX_PAGE_SIZE);
+    const page = await fetchPage(cursor, size);
+    const results = page.results.slice(skip);
+    remaining -= results.length;
+    skip = 0;
+    yield { ...page, results };
+
+    if (!page.hasMore || !page.nextCursor) return;
+    cursor = page.nextCursor;
+  }
+}
+
+/**
+ * Iterate over every item of a paginated list
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T> {
+  for await (const page of paginatePages(fetchPage, options)) {
+    yield* page.results;
+  }
+}
+
+/**
+ * Collect the pages of a paginated list into a single response.
+ *
+ * If maxItems cuts the list short, the response has hasMore set and a
+ * nextCursor to continue from.
+ */
+export async function collectPages<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {}
+): Promise<CollectedList<T>> {
+  const results: T[] = [];
+  const segments: ListSegment[] = [];
+  let last: PaginatedResponse<T> | undefined;
+
+  for await (const page of paginatePages(fetchPage, options)) {
+    segments.push({
+      index: results.length,
+      cursor: last ? last.nextCursor : options.startCursor,
+      offset: last ? 0 : (options.skip ?? 0),
+    });
+    results.push(...page.results);
+    last = page;
+  }
+
+  return {
+    object: 'list',
+    results,
+    hasMore: last?.hasMore ?? false,
+    nextCursor: last?.hasMore ? last.nextCursor : undefined,
+    type: last?.type,
+    segments,
+  };
+}
+
+/**
+ * Fetch a list for a tool call: either a single page, or every page up to
+ * maxItems when fetchAll is set. A continuation token resumes a previously
+ * truncated response.
+ */
+export async function fetchList<T>(
+  fetchPage: PageFetcher<T>,
+  options: ListOptions
+): Promise<CollectedList<T>> {
+  const { cursor, skip } = options.continuation
+    ? decodeContinuation(options.continuation)
+    : { cursor: options.startCursor, skip: 0 };
+
+  if (options.fetchAll) {
+    return collectPages(fetchPage, {
+      startCursor: cursor,
+      skip,
+      maxItems: Math.min(options.maxItems ?? MAX_FETCH_ALL_ITEMS, MAX_FETCH_ALL_ITEMS),
+    });
+  }
+  return collectPages(fetchPage, {
+    startCursor: cursor,
+    skip,
+    pageSize: options.pageSize,
+    maxItems: options.pageSize,
+  });
+}
+
+/**
+ * Filter and reorder a collected list.
+ *
+ * Continuations of the refined list fetch the same results again, refine
+ * them the same way and skip the ones already returned, so the order holds
+ * across responses. Pass the continuation the list was fetched with, if any.
+ */
+export function refineList<T>(
+  list: CollectedList<T>,
+  keep: (item: T) => boolean,
+  compare?: (a: T, b: T) => number,
+  continuation?: string
+): CollectedList<T> {
+  const results = list.results.filter(keep);
+  if (compare) results.sort(compare);
+
+  const offset = (continuation && decodeContinuation(continuation).offset) || 0;
+  const start = list.segments[0] ?? { offset: 0 };
+  return {
+    ...list,
+    results: results.slice(offset),
+    refinedFrom: { cursor: start.cursor, skip: start.offset, offset: offset || undefined },
+  };
+}
@@ -0,0 +1,558 @@
+/**
+ * Property Value Utilities
+ *
+ * Conversion between simplified values and Notion property value JSON.
+ */
+
+import type { NotionClient } from '../client.js';
+import type {
+  Database,
+  DatabaseProperty,
+  Page,
+  PageParent,
+  PropertyValue,
+  RichTextItem,
+  User,
+  UserReference,
+} from '../types/entities.js';
+import { ValidationError } from './errors.js';
+import { richTextToPlain } from './formatters.js';
+import { textToRichText } from './markdown.js';
+import { paginate } from './pagination.js';
+
+// =============================================================================
+// Simplified Input -> Property Values
+// =============================================================================
+
+/**
+ * Resolves a user ID or email address to a Notion user ID
+ */
+export type UserResolver = (idOrEmail: string) => Promise<string | undefined>;
+
+/**
+ * Property types computed by Notion that cannot be written
+ */
+export const READ_ONLY_PROPERTY_TYPES = new Set([
+  'formula',
+  'rollup',
+  'created_time',
+  'created_by',
+  'last_edited_time',
+  'last_edited_by',
+  'unique_id',
+  'button',
+  'verification',
+]);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Schema used for pages whose parent is a page rather than a database
+ */
+export const PAGE_TITLE_SCHEMA: Record<string, DatabaseProperty> = {
+  title: { id: 'title', name: 'title', type: 'title' },
+};
+
+/**
+ * Error raised for a single property while coercing a value
+ */
+class PropertyCoercionError extends Error {}
+
+/**
+ * Normalize a value that may be a single item or a list into a list of strings
+ */
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((item) => String(item).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  throw new PropertyCoercionError('Expected a string or an array of strings');
+}
+
+/**
+ * Require a string value
+ */
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  throw new PropertyCoercionError('Expected a string');
+}
+
+/**
+ * Get the option names configured for a select, multi_select or status property
+ */
+function getOptionNames(property: DatabaseProperty): string[] {
+  const config = property[property.type] as { options?: Array<{ name: string }> } | undefined;
+  return config?.options?.map((option) => option.name) ?? [];
+}
+
+/**
+ * Validate a date string
+ */
+function toDate(value: unknown): string {
+  const text = toText(value).trim();
+  if (!DATE_PATTERN.test(text) || Number.isNaN(Date.parse(text))) {
+    throw new PropertyCoercionError(`Invalid date '${text}'. Use YYYY-MM-DD or an ISO 8601 date-time`);
+  }
+  return text;
+}
+
+/**
+ * Coerce a simplified value into the property value JSON for a schema property
+ */
+async function coerceValue(
+  property: DatabaseProperty,
+  value: unknown,
+  resolveUser: UserResolver
+): Promise<unknown> {
+  const { type } = property;
+
+  if (READ_ONLY_PROPERTY_TYPES.has(type)) {
+    throw new PropertyCoercionError(`Property of type '${type}' is computed and cannot be set`);
+  }
+
+  // null clears any writable property
+  if (value === null) {
+    switch (type) {
+      case 'title':
+      case 'rich_text':
+      case 'multi_select':
+      case 'people':
+      case 'files':
+      case 'relation':
+        return { [type]: [] };
+      case 'checkbox':
+        return { checkbox: false };
+      default:
+        return { [type]: null };
+    }
+  }
+
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return { [type]: textToRichText(toText(value)) };
+
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(toText(value).trim());
+      if (typeof value === 'boolean' || Number.isNaN(number) || toText(value).trim() === '') {
+        throw new PropertyCoercionError(`Expected a number, got '${String(value)}'`);
+      }
+      return { number };
+    }
+
+    case 'select':
+      return { select: { name: toText(value) } };
+
+    case 'status': {
+      const name = toText(value);
+      const options = getOptionNames(property);
+      const match = options.find((option) => option.toLowerCase() === name.toLowerCase());
+      if (!match) {
+        throw new PropertyCoercionError(
+          `Unknown status '${name}'. Expected one of: ${options.join(', ')}`
+        );
+      }
+      return { status: { name: match } };
+    }
+
+    case 'multi_select':
+      return { multi_select: toStringList(value).map((name) => ({ name })) };
+
+    case 'date': {
+      if (typeof value === 'object' && !Array.isArray(value)) {
+        const range = value as { start?: unknown; end?: unknown; time_zone?: unknown };
+        return {
+          date: {
+            start: toDate(range.start),
+            ...(range.end !== undefined && range.end !== null && { end: toDate(range.end) }),
+            ...(typeof range.time_zone === 'string' && { time_zone: range.time_zone }),
+          },
+        };
+      }
+      return { date: { start: toDate(value) } };
+    }
+
+    case 'people': {
+      const people: Array<{ object: 'user'; id: string }> = [];
+      for (const entry of toStringList(value)) {
+        const id = await resolveUser(entry);
+        if (!id) {
+          throw new PropertyCoercionError(`No workspace user matches '${entry}'`);
+        }
+        people.push({ object: 'user', id });
+      }
+      return { people };
+    }
+
+    case 'files':
+      return {
+        files: toStringList(value).map((url) => ({
+          name: url.split('/').pop()?.split('?')[0] || url,
+          type: 'external',
+          external: { url },
+        })),
+      };
+
+    case 'checkbox': {
+      if (typeof value === 'boolean') return { checkbox: value };
+      const text = toText(value).trim().toLowerCase();
+      if (['true', 'yes', '1', 'checked', 'x'].includes(text)) return { checkbox: true };
+      if (['false', 'no', '0', 'unchecked', ''].includes(text)) return { checkbox: false };
+      throw new PropertyCoercionError(`Expected a boolean, got '${String(value)}'`);
+    }
+
+    case 'url':
+      return { url: toText(value) };
+
+    case 'email': {
+      const email = toText(value).trim();
+      if (!EMAIL_PATTERN.test(email)) {
+        throw new PropertyCoercionError(`Invalid email address '${email}'`);
+      }
+      return { email };
+    }
+
+    case 'phone_number':
+      return { phone_number: toText(value) };
+
+    case 'relation': {
+      const ids = toStringList(value);
+      const invalid = ids.filter((id) => !UUID_PATTERN.test(id));
+      if (invalid.length > 0) {
+        throw new PropertyCoercionError(`Relations must be page IDs, got: ${invalid.join(', ')}`);
+      }
+      return { relation: ids.map((id) => ({ id })) };
+    }
+
+    default:
+      throw new PropertyCoercionError(`Property type '${type}' is not supported`);
+  }
+}
+
+/**
+ * Find a schema property by name, falling back to a case-insensitive match
+ */
+export function findSchemaProperty(
+  schema: Record<string, DatabaseProperty>,
+  name: string
+): [string, DatabaseProperty] | undefined {
+  if (schema[name]) return [name, schema[name]];
+  const key = Object.keys(schema).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  return key ? [key, schema[key]] : undefined;
+}
+
+/**
+ * Build Notion property values from simplified values.
+ *
+ * Each value is coerced to the type of the matching schema property, e.g.
+ * { "Status": "Done", "Due": "2026-11-01", "Tags": ["a", "b"], "Owner": "user@x.com" }.
+ *
+ * @throws ValidationError with per-property details when any value cannot be coerced
+ */
+export async function buildPropertyValues(
+  schema: Record<string, DatabaseProperty>,
+  values: Record<string, unknown>,
+  resolveUser: UserResolver
+): Promise<Record<string, unknown>> {
+  const properties: Record<string, unknown> = {};
+  const details: Record<string, string[]> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    const match = findSchemaProperty(schema, name);
+    if (!match) {
+      details[name] = [`Unknown property. Available: ${Object.keys(schema).join(', ')}`];
+      continue;
+    }
+
+    const [key, property] = match;
+    try {
+      properties[key] = await coerceValue(property, value, resolveUser);
+    } catch (error) {
+      if (!(error instanceof PropertyCoercionError)) throw error;
+      details[key] = [error.message];
+    }
+  }
+
+  if (Object.keys(details).length > 0) {
+    throw new ValidationError('Some property values do not match the schema', details);
+  }
+
+  return properties;
+}
+
+/**
+ * Create a user resolver that accepts user IDs or email addresses.
+ *
+ * Workspace users are listed once, on the first email lookup.
+ */
+export function createUserResolver(client: NotionClient): UserResolver {
+  let usersByEmail: Map<string, string> | undefined;
+
+  return async (idOrEmail) => {
+    if (UUID_PATTERN.test(idOrEmail)) {
+      return idOrEmail;
+    }
+
+    if (!usersByEmail) {
+      usersByEmail = new Map();
+      for await (const user of paginate<User>((cursor, size) => client.listUsers(cursor, size))) {
+        if (user.person?.email) {
+          usersByEmail.set(user.person.email.toLowerCase(), user.id);
+        }
+      }
+    }
+
+    return usersByEmail.get(idOrEmail.toLowerCase());
+  };
+}
+
+/**
+ * Build property values for a page from simplified values, fetching the
+ * parent database's schema. Pages outside a database only have a title.
+ */
+export async function buildPagePropertyValues(
+  client: NotionClient,
+  databaseId: string | undefined,
+  values: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const schema = databaseId ? (await client.getDatabase(databaseId)).properties : PAGE_TITLE_SCHEMA;
+  return buildPropertyValues(schema, values, createUserResolver(client));
+}
+
+// =============================================================================
+// Property Values -> Simplified Output
+// =============================================================================
+
+/**
+ * A scalar or list produced by flattening a property value
+ */
+export type FlatValue = string | number | boolean | null | FlatValue[];
+
+/**
+ * A page with its properties flattened to plain values keyed by name
+ */
+export interface FlatPage {
+  object: 'page';
+  id: string;
+  url: string;
+  created_time: string;
+  last_edited_time: string;
+  in_trash: boolean;
+  parent_id?: string;
+  properties: Record<string, FlatValue>;
+}
+
+/**
+ * A database with its schema flattened to property types keyed by name
+ */
+export interface FlatDatabase {
+  object: 'database';
+  id: string;
+  url: string;
+  title: string;
+  created_time: string;
+  last_edited_time: string;
+  in_trash: boolean;
+  parent_id?: string;
+  properties: Record<string, string>;
+}
+
+/**
+ * Display value for a user reference: name, then email, then ID
+ */
+function flattenUser(user: UserReference): string {
+  const details = user as UserReference & { name?: string; person?: { email?: string } };
+  return details.name || details.person?.email || user.id;
+}
+
+/**
+ * Flatten a date value; ranges use ISO 8601 interval notation (start/end)
+ */
+function flattenDate(date: { start: string; end?: string | null } | null | undefined): string | null {
+  if (!date) return null;
+  return date.end ? `${date.start}/${date.end}` : date.start;
+}
+
+/**
+ * Normalize an ID for comparison (Notion accepts IDs with or without hyphens)
+ */
+export function normalizeId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
+}
+
+/**
+ * Get the ID of a page, database or block parent
+ */
+export function getParentId(parent: PageParent): string | undefined {
+  switch (parent.type) {
+    case 'database_id':
+      return parent.database_id;
+    case 'page_id':
+      return parent.page_id;
+    case 'block_id':
+      return parent.block_id;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a property value to a plain scalar or array
+ */
+export function flattenPropertyValue(value: PropertyValue): FlatValue {
+  switch (value.type) {
+    case 'title':
+      return richTextToPlain(value.title);
+    case 'rich_text':
+      return richTextToPlain(value.rich_text);
+    case 'number':
+      return value.number;
+    case 'select':
+      return value.select?.name ?? null;
+    case 'status':
+      return value.status?.name ?? null;
+    case 'multi_select':
+      return value.multi_select.map((option) => option.name);
+    case 'date':
+      return flattenDate(value.date);
+    case 'people':
+      return value.people.map(flattenUser);
+    case 'files':
+      return value.files.map((file) => file.external?.url ?? file.file?.url ?? file.name);
+    case 'checkbox':
+      return value.checkbox;
+    case 'url':
+      return value.url;
+    case 'email':
+      return value.email;
+    case 'phone_number':
+      return value.phone_number;
+    case 'formula': {
+      const { formula } = value;
+      if (formula.type === 'date') return flattenDate(formula.date);
+      return formula[formula.type] ?? null;
+    }
+    case 'relation':
+      return value.relation.map((relation) => relation.id);
+    case 'rollup': {
+      const { rollup } = value;
+      if (rollup.type === 'number') return rollup.number ?? null;
+      if (rollup.type === 'date') return flattenDate(rollup.date);
+      if (rollup.type === 'array') return (rollup.array ?? []).map(flattenPropertyValue);
+      return null;
+    }
+    case 'created_time':
+      return value.created_time;
+    case 'last_edited_time':
+      return value.last_edited_time;
+    case 'created_by':
+      return flattenUser(value.created_by);
+    case 'last_edited_by':
+      return flattenUser(value.last_edited_by);
+    case 'unique_id':
+      return value.unique_id.prefix
+        ? `${value.unique_id.prefix}-${value.unique_id.number}`
+        : value.unique_id.number;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Comparable key for a property value, either read from a page or built by
+ * buildPropertyValues, so equal values match however they were written:
+ * numbers compare numerically, people and relations by ID, and
+ * multi-selects regardless of order. Empty values have an empty key.
+ */
+export function propertyValueKey(type: string, value: Record<string, unknown>): string {
+  const content = value[type];
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return richTextToPlain((content as RichTextItem[] | undefined) ?? []).trim();
+    case 'number':
+      return typeof content === 'number' ? String(content) : '';
+    case 'select':
+    case 'status':
+      return (content as { name?: string } | null)?.name?.trim() ?? '';
+    case 'multi_select':
+      return ((content as Array<{ name: string }> | undefined) ?? [])
+        .map((option) => option.name.trim())
+        .sort()
+        .join(', ');
+    case 'people':
+    case 'relation':
+      return ((content as Array<{ id: string }> | undefined) ?? [])
+        .map((item) => normalizeId(item.id))
+        .sort()
+        .join(', ');
+    case 'date':
+      return flattenDate(content as { start: string; end?: string | null } | null) ?? '';
+    case 'checkbox':
+      return typeof content === 'boolean' ? String(content) : '';
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return typeof content === 'string' ? content.trim() : '';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Flatten a page's properties into plain values keyed by property name
+ */
+export function flattenPage(page: Page): FlatPage {
+  const properties: Record<string, FlatValue> = {};
+  for (const [name, value] of Object.entries(page.properties)) {
+    properties[name] = flattenPropertyValue(value);
+  }
+
+  return {
+    object: 'page',
+    id: page.id,
+    url: page.url,
+    created_time: page.created_time,
+    last_edited_time: page.last_edited_time,
+    in_trash: page.in_trash ?? page.archived,
+    parent_id: getParentId(page.parent),
+    properties,
+  };
+}
+
+/**
+ * Flatten a database into its title and property types keyed by name
+ */
+export function flattenDatabase(database: Database): FlatDatabase {
+  const properties: Record<string, string> = {};
+  for (const [name, property] of Object.entries(database.properties)) {
+    properties[name] = property.type;
+  }
+
+  return {
+    object: 'database',
+    id: database.id,
+    url: database.url,
+    title: richTextToPlain(database.title),
+    created_time: database.created_time,
+    last_edited_time: database.last_edited_time,
+    in_trash: database.in_trash ?? database.archived,
+    parent_id: getParentId(database.parent),
+    properties,
+  };
+}
+
+/**
+ * Flatten a page or database (e.g. a search result)
+ */
+export function flattenResult(item: Page | Database): FlatPage | FlatDatabase {
+  return item.object === 'database' ? flattenDatabase(item) : flattenPage(item);
+}
@@ -0,0 +1,76 @@
+/**
+ * User Regular Expressions
+ *
+ * Compilation of regular expressions supplied in tool arguments, limited to
+ * constructs that match in predictable time.
+ */
+
+import { ValidationError } from './errors.js';
+
+/** Longest regular expression accepted from a tool argument */
+export const MAX_PATTERN_LENGTH = 200;
+
+/** A quantifier that repeats without an upper bound or over a range */
+const REPEATING_QUANTIFIER = /^(\*|\+|\{\d+,\d*\})/;
+
+/**
+ * Describe the first construct in a pattern that can backtrack exponentially:
+ * a backreference, or a repeated group containing another repetition such as
+ * (a+)+
+ */
+function findUnsafeConstruct(source: string): string | undefined {
+  // For each open group, whether it contains a repeating quantifier
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(source[i + 1] ?? '')) return 'Backreferences are not supported';
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (char === ']') inClass = false;
+      continue;
+    }
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeats = groups.pop() ?? false;
+      if (repeats && REPEATING_QUANTIFIER.test(source.slice(i + 1))) {
+        return 'Nested quantifiers such as (a+)+ are not supported';
+      }
+      if (repeats && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (REPEATING_QUANTIFIER.test(source.slice(i)) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Compile a regular expression from a tool argument
+ *
+ * @throws ValidationError naming the argument if the pattern is too long,
+ *   uses backreferences or nested quantifiers, or is not valid
+ */
+export function compileUserRegex(source: string, flags: string, argument: string): RegExp {
+  const invalid = (message: string) =>
+    new ValidationError('Invalid regular expression', { [argument]: [message] });
+
+  if (source.length > MAX_PATTERN_LENGTH) {
+    throw invalid(`Use at most ${MAX_PATTERN_LENGTH} characters`);
+  }
+  const unsafe = findUnsafeConstruct(source);
+  if (unsafe) throw invalid(unsafe);
+
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw invalid(error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Find and Replace
+ *
+ * Find text across the blocks of a page and replace it in place, keeping the
+ * annotations and links of the surrounding rich text.
+ */
+
+import type { NotionClient } from '../client.js';
+import type { Block, RichTextItem } from '../types/entities.js';
+import { type BlockNode, fetchBlockTree, getBlockRichText } from './blocks.js';
+import { writableRichText } from './copy.js';
+import { ValidationError } from './errors.js';
+import { buildPattern, type TextPattern } from './find.js';
+
+/** Characters of context shown on each side of a match */
+const CONTEXT_LENGTH = 40;
+
+/** Largest number of matches changed in one call */
+export const MAX_REPLACEMENTS = 500;
+
+/**
+ * What to find and what to replace it with
+ */
+export interface FindReplaceOptions extends TextPattern {
+  /** With regex, may use $1, $<name> and $& */
+  replace: string;
+}
+
+/**
+ * A single match
+ */
+export interface ReplaceMatch {
+  blockId: string;
+  blockType: string;
+  /** Table cell index, for table rows */
+  cell?: number;
+  match: string;
+  replacement: string;
+  /** Text around the match, with the match in [[double brackets]] */
+  context: string;
+  /** Why the match cannot be replaced, if it cannot */
+  skipped?: string;
+}
+
+/**
+ * Outcome of a find and replace
+ */
+export interface FindReplaceResult {
+  applied: boolean;
+  matches: ReplaceMatch[];
+  /** Blocks that were (or would be) updated */
+  blocksChanged: number;
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Expand $1, $<name>, $& and $$ in a regex replacement
+ */
+function expandReplacement(replacement: string, match: RegExpExecArray): string {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, group: string, name?: string) => {
+    if (group === '$') return '$';
+    if (group === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const index = Number(group);
+    return index < match.length ? (match[index] ?? '') : token;
+  });
+}
+
+/**
+ * Rich text item with its position in the concatenated plain text
+ */
+interface Segment {
+  item: RichTextItem;
+  start: number;
+  end: number;
+}
+
+/**
+ * Plain text of a rich text item; only text items can be edited
+ */
+function itemText(item: RichTextItem): string {
+  return item.type === 'text' ? (item.text?.content ?? '') : (item.plain_text ?? '');
+}
+
+/**
+ * Replace matches in a rich text array.
+ *
+ * Matches are found in the concatenated plain text, so they may span
+ * annotation boundaries. The replacement takes the annotations and link of
+ * the item where the match starts. Matches that touch a mention or equation
+ * are reported but not replaced.
+ */
+function replaceInRichText(
+  richText: RichTextItem[],
+  pattern: RegExp,
+  options: FindReplaceOptions,
+  describe: Omit<ReplaceMatch, 'match' | 'replacement' | 'context'>
+): { richText: RichTextItem[]; matches: ReplaceMatch[] } {
+  const segments: Segment[] = [];
+  let text = '';
+  for (const item of writableRichText(richText)) {
+    const content = itemText(richText[segments.length]);
+    segments.push({ item, start: text.length, end: text.length + content.length });
+    text += content;
+  }
+
+  const matches: ReplaceMatch[] = [];
+  const edits: Array<{ start: number; end: number; replacement: string }> = [];
+  pattern.lastIndex = 0;
+  for (let found = pattern.exec(text); found; found = pattern.exec(text)) {
+    if (found[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    const start = found.index;
+    const end = start + found[0].length;
+    const replacement = options.regex ? expandReplacement(options.replace, found) : options.replace;
+    const context =
+      text.slice(Math.max(0, start - CONTEXT_LENGTH), start) +
+      `[[${found[0]}]]` +
+      text.slice(end, end + CONTEXT_LENGTH);
+
+    const touched = segments.filter((segment) => segment.start < end && segment.end > start);
+    const editable = touched.every((segment) => segment.item.type === 'text');
+    matches.push({
+      ...describe,
+      match: found[0],
+      replacement,
+      context,
+      ...(!editable && { skipped: 'Match includes a mention or equation' }),
+    });
+    if (editable) edits.push({ start, end, replacement });
+  }
+
+  // Apply from the last edit backwards so earlier offsets stay valid
+  let items = segments.map((segment) => ({ ...segment, content: itemText(segment.item) }));
+  for (const edit of edits.reverse()) {
+    const first = items.find((segment) => segment.start <= edit.start && segment.end > edit.start);
+    if (!first) continue;
+    items = items.map((segment) => {
+      if (segment.end <= edit.start || segment.start >= edit.end) return segment;
+      const head = segment === first ? segment.content.slice(0, edit.start - segment.start) : '';
+      const tail = segment.content.slice(Math.max(0, edit.end - segment.start));
+      const inserted = segment === first ? edit.replacement : '';
+      return { ...segment, content: head + inserted + tail };
+    });
+  }
+
+  return {
+    richText: items
+      .filter((segment) => segment.item.type !== 'text' || segment.content !== '')
+      .map(({ item, content }) =>
+        item.type === 'text' && item.text ? { ...item, text: { ...item.text, content } } : item
+      ),
+    matches,
+  };
+}
+
+// =============================================================================
+// Find and Replace
+// =============================================================================
+
+/**
+ * Find matches in a block and build the content that replaces them
+ */
+function replaceInBlock(
+  block: Block,
+  pattern: RegExp,
+  options: FindReplaceOptions
+): { content?: Record<string, unknown>; matches: ReplaceMatch[] } {
+  const describe = { blockId: block.id, blockType: block.type };
+
+  if (block.type === 'table_row') {
+    const cells = ((block.table_row as { cells?: RichTextItem[][] }).cells ?? []).map(
+      (cell, index) => replaceInRichText(cell, pattern, options, { ...describe, cell: index })
+    );
+    const matches = cells.flatMap((cell) => cell.matches);
+    if (!matches.some((match) => !match.skipped)) return { matches };
+    return { content: { table_row: { cells: cells.map((cell) => cell.richText) } }, matches };
+  }
+
+  const richText = getBlockRichText(block);
+  if (richText.length === 0) return { matches: [] };
+  const result = replaceInRichText(richText, pattern, options, describe);
+  if (!result.matches.some((match) => !match.skipped)) return { matches: result.matches };
+  return { content: { [block.type]: { rich_text: result.richText } }, matches: result.matches };
+}
+
+/**
+ * Flatten a block tree in document order
+ */
+function flattenTree(nodes: BlockNode[]): Block[] {
+  return nodes.flatMap((node) => [node.block, ...flattenTree(node.children)]);
+}
+
+/**
+ * Find text in every block of a page (not its child pages) and, when apply
+ * is set, replace it with updateBlock.
+ *
+ * @throws ValidationError if more than MAX_REPLACEMENTS matches would be applied
+ */
+export async function findAndReplace(
+  client: NotionClient,
+  pageId: string,
+  options: FindReplaceOptions,
+  apply: boolean
+): Promise<FindReplaceResult> {
+  const pattern = buildPattern(options);
+  const blocks = flattenTree(await fetchBlockTree(client, pageId));
+
+  const updates: Array<{ blockId: string; content: Record<string, unknown> }> = [];
+  const matches: ReplaceMatch[] = [];
+  for (const block of blocks) {
+    const result = replaceInBlock(block, pattern, options);
+    matches.push(...result.matches);
+    if (result.content) updates.push({ blockId: block.id, content: result.content });
+  }
+
+  const replaceable = matches.filter((match) => !match.skipped).length;
+  if (apply && replaceable > MAX_REPLACEMENTS) {
+    throw new ValidationError(`Too many matches: ${replaceable}`, {
+      find: [`Narrow the pattern to at most ${MAX_REPLACEMENTS} matches per call`],
+    });
+  }
+
+  if (apply) {
+    for (const update of updates) {
+      await client.updateBlock(update.blockId, update.content);
+    }
+  }
+  return { applied: apply, matches, blocksChanged: updates.length };
+}
@@ -0,0 +1,90 @@
+/**
+ * Retry Utilities
+ *
+ * Retry policy and exponential backoff for transient Notion API failures.
+ */
+
+import { isRetryableError, NotionApiError, RateLimitError } from './errors.js';
+
+/**
+ * Retry policy for API requests
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs: number;
+  /** Total time budget for all attempts and delays in milliseconds */
+  maxElapsedMs: number;
+}
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxElapsedMs: 30000,
+};
+
+/**
+ * Compute the delay before the next attempt.
+ *
+ * Rate limit errors honor the server's Retry-After value; other retryable
+ * errors use exponential backoff with full jitter.
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  if (error instanceof RateLimitError) {
+    return error.retryAfterSeconds * 1000;
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Check if a failed write that is not idempotent (creating a page, database
+ * or comment, or appending blocks) can be retried.
+ *
+ * Only rate limit errors qualify, since Notion rejects those before doing any
+ * work. After a network error, timeout or server error the write may still
+ * have been applied, and retrying it would create a duplicate.
+ */
+export function isRetryableWrite(error: unknown): boolean {
+  return error instanceof RateLimitError;
+}
+
+/**
+ * Run an operation, retrying failures the predicate accepts according to the
+ * policy.
+ *
+ * The number of attempts made is recorded on the thrown NotionApiError.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  shouldRetry: (error: unknown) => boolean = isRetryableError
+): Promise<T> {
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const delay = getRetryDelay(error, attempt, policy);
+      const exhausted =
+        attempt >= policy.maxAttempts || Date.now() - startedAt + delay > policy.maxElapsedMs;
+
+      if (exhausted || !shouldRetry(error)) {
+        if (error instanceof NotionApiError) {
+          error.attempts = attempt;
+        }
+        throw error;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
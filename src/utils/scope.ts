@@ -0,0 +1,162 @@
+/**
+ * Write Scoping
+ *
+ * Client that rejects writes outside a tenant's allowed root pages and
+ * databases.
+ */
+
+import { type NotionClient, NotionClientDecorator } from '../client.js';
+import type {
+  Block,
+  Comment,
+  Database,
+  Page,
+  PaginatedResponse,
+  RichTextItem,
+} from '../types/entities.js';
+import { PermissionDeniedError } from './errors.js';
+import { getParentId, normalizeId } from './properties.js';
+
+/** Deepest ancestry walked before giving up */
+const MAX_ANCESTRY_DEPTH = 50;
+
+/**
+ * Notion client that only allows writes to the allowed roots or their
+ * descendants. Reads are not restricted.
+ *
+ * Ancestry is resolved by walking block parents up to the workspace; every
+ * page and database is also a block, so this covers all targets.
+ */
+export class ScopedNotionClient extends NotionClientDecorator {
+  private readonly roots: Set<string>;
+  private readonly ancestry = new Map<string, Promise<boolean>>();
+
+  constructor(inner: NotionClient, allowedRoots: string[]) {
+    super(inner);
+    this.roots = new Set(allowedRoots.map(normalizeId));
+  }
+
+  /**
+   * Whether an ID is an allowed root or one of their descendants
+   */
+  isWithinRoots(id: string): Promise<boolean> {
+    const key = normalizeId(id);
+    let result = this.ancestry.get(key);
+    if (!result) {
+      result = this.walkAncestry(id);
+      this.ancestry.set(key, result);
+      // Retry lookups that failed rather than remembering the failure
+      result.catch(() => this.ancestry.delete(key));
+    }
+    return result;
+  }
+
+  private async walkAncestry(id: string): Promise<boolean> {
+    let current: string | undefined = id;
+    for (let depth = 0; current && depth < MAX_ANCESTRY_DEPTH; depth++) {
+      if (this.roots.has(normalizeId(current))) return true;
+      const block: Block = await this.inner.getBlock(current);
+      current = getParentId(block.parent);
+    }
+    return false;
+  }
+
+  /**
+   * Reject a write whose target is outside the allowed roots
+   */
+  private async assertWithinRoots(id: string, action: string): Promise<void> {
+    if (!(await this.isWithinRoots(id))) {
+      throw new PermissionDeniedError(
+        `Cannot ${action} '${id}': it is outside the allowed root pages and databases`
+      );
+    }
+  }
+
+  // ===========================================================================
+  // Scoped Writes
+  // ===========================================================================
+
+  override async createPage(
+    parentId: string,
+    parentType: 'database_id' | 'page_id',
+    properties: Record<string, unknown>,
+    children?: unknown[],
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Page> {
+    await this.assertWithinRoots(parentId, 'create a page in');
+    return super.createPage(parentId, parentType, properties, children, icon, cover);
+  }
+
+  override async updatePage(
+    pageId: string,
+    properties?: Record<string, unknown>,
+    archived?: boolean,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Page> {
+    await this.assertWithinRoots(pageId, 'update page');
+    return super.updatePage(pageId, properties, archived, icon, cover);
+  }
+
+  override async trashPage(pageId: string): Promise<Page> {
+    await this.assertWithinRoots(pageId, 'trash page');
+    return super.trashPage(pageId);
+  }
+
+  override async createDatabase(
+    parentPageId: string,
+    title: RichTextItem[],
+    properties: Record<string, unknown>,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Database> {
+    await this.assertWithinRoots(parentPageId, 'create a database in');
+    return super.createDatabase(parentPageId, title, properties, icon, cover);
+  }
+
+  override async updateDatabase(
+    databaseId: string,
+    title?: RichTextItem[],
+    description?: RichTextItem[],
+    properties?: Record<string, unknown>,
+    icon?: unknown,
+    cover?: unknown
+  ): Promise<Database> {
+    await this.assertWithinRoots(databaseId, 'update database');
+    return super.updateDatabase(databaseId, title, description, properties, icon, cover);
+  }
+
+  override async updateBlock(blockId: string, content: Record<string, unknown>): Promise<Block> {
+    await this.assertWithinRoots(blockId, 'update block');
+    return super.updateBlock(blockId, content);
+  }
+
+  override async deleteBlock(blockId: string): Promise<Block> {
+    await this.assertWithinRoots(blockId, 'delete block');
+    return super.deleteBlock(blockId);
+  }
+
+  override async appendBlockChildren(
+    blockId: string,
+    children: unknown[]
+  ): Promise<PaginatedResponse<Block>> {
+    await this.assertWithinRoots(blockId, 'append blocks to');
+    return super.appendBlockChildren(blockId, children);
+  }
+
+  override async createComment(
+    parentId: string,
+    parentType: 'page_id' | 'discussion_id',
+    richText: RichTextItem[]
+  ): Promise<Comment> {
+    // A discussion ID cannot be traced back to its page
+    if (parentType === 'discussion_id') {
+      throw new PermissionDeniedError(
+        'Replies to discussions are not allowed when writes are limited to root pages; comment on the page instead'
+      );
+    }
+    await this.assertWithinRoots(parentId, 'comment on');
+    return super.createComment(parentId, parentType, richText);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Search Result Filters
+ *
+ * Client-side filters and title ranking for /search results, which the
+ * Notion API can only filter by object type and sort by last edit time.
+ */
+
+import type { Database, Page } from '../types/entities.js';
+import { ValidationError } from './errors.js';
+import { getPageTitle, richTextToPlain } from './formatters.js';
+import { getParentId, normalizeId } from './properties.js';
+import { compileUserRegex } from './regex.js';
+
+/**
+ * Conditions a search result must meet; unset conditions match everything
+ */
+export interface SearchResultFilter {
+  /** Direct parent page, database or block */
+  parentId?: string;
+  /** ISO 8601 dates or date-times; after is inclusive, before exclusive */
+  createdAfter?: string;
+  createdBefore?: string;
+  editedAfter?: string;
+  editedBefore?: string;
+  /** User IDs */
+  createdBy?: string;
+  lastEditedBy?: string;
+  /** Only results in (true) or out of (false) the trash */
+  archived?: boolean;
+  /** Regular expression matched against the title, ignoring case */
+  titlePattern?: string;
+}
+
+type SearchResult = Page | Database;
+
+/**
+ * Title of a page or database
+ */
+export function getResultTitle(item: SearchResult): string {
+  return item.object === 'database' ? richTextToPlain(item.title) : getPageTitle(item);
+}
+
+/**
+ * Whether any condition of a filter is set
+ */
+export function hasResultFilter(filter: SearchResultFilter): boolean {
+  return Object.values(filter).some((value) => value !== undefined);
+}
+
+/**
+ * Parse a date bound
+ *
+ * @throws ValidationError if the value is not an ISO 8601 date or date-time
+ */
+function parseDateBound(name: string, value: string): number {
+  const time = /^\d{4}-\d{2}-\d{2}/.test(value) ? Date.parse(value) : Number.NaN;
+  if (Number.isNaN(time)) {
+    throw new ValidationError(`Invalid ${name}`, {
+      [name]: ['Use an ISO 8601 date (2024-05-01) or date-time (2024-05-01T09:00:00Z)'],
+    });
+  }
+  return time;
+}
+
+/**
+ * Compile a filter into a predicate
+ *
+ * @throws ValidationError for an invalid date or title pattern
+ */
+export function buildResultPredicate(filter: SearchResultFilter): (item: SearchResult) => boolean {
+  const checks: Array<(item: SearchResult) => boolean> = [];
+
+  if (filter.parentId) {
+    const parentId = normalizeId(filter.parentId);
+    checks.push((item) => normalizeId(getParentId(item.parent) ?? '') === parentId);
+  }
+
+  const dateBounds = [
+    ['createdAfter', 'created_time', 1],
+    ['createdBefore', 'created_time', -1],
+    ['editedAfter', 'last_edited_time', 1],
+    ['editedBefore', 'last_edited_time', -1],
+  ] as const;
+  for (const [name, field, direction] of dateBounds) {
+    const value = filter[name];
+    if (value === undefined) continue;
+    const bound = parseDateBound(name, value);
+    checks.push((item) => {
+      const time = Date.parse(item[field]);
+      return direction > 0 ? time >= bound : time < bound;
+    });
+  }
+
+  if (filter.createdBy) {
+    const userId = normalizeId(filter.createdBy);
+    checks.push((item) => normalizeId(item.created_by?.id ?? '') === userId);
+  }
+  if (filter.lastEditedBy) {
+    const userId = normalizeId(filter.lastEditedBy);
+    checks.push((item) => normalizeId(item.last_edited_by?.id ?? '') === userId);
+  }
+
+  if (filter.archived !== undefined) {
+    const archived = filter.archived;
+    checks.push((item) => (item.in_trash ?? item.archived) === archived);
+  }
+
+  if (filter.titlePattern !== undefined) {
+    const pattern = compileUserRegex(filter.titlePattern, 'i', 'titlePattern');
+    checks.push((item) => pattern.test(getResultTitle(item)));
+  }
+
+  return (item) => checks.every((check) => check(item));
+}
+
+/**
+ * How closely a title matches a query: 0 for an exact match, 1 for a prefix,
+ * 2 for a substring and 3 otherwise, ignoring case and surrounding spaces
+ */
+function titleMatchTier(title: string, query: string): number {
+  const normalized = title.trim().toLowerCase();
+  if (normalized === query) return 0;
+  if (normalized.startsWith(query)) return 1;
+  if (normalized.includes(query)) return 2;
+  return 3;
+}
+
+/**
+ * Comparator that puts exact title matches first, then prefix and substring
+ * matches. Sorting with it is stable, so Notion's order is kept within each tier.
+ */
+export function compareTitleMatch(query: string): (a: SearchResult, b: SearchResult) => number {
+  const normalized = query.trim().toLowerCase();
+  const tiers = new WeakMap<SearchResult, number>();
+  const tier = (item: SearchResult) => {
+    let value = tiers.get(item);
+    if (value === undefined) {
+      value = titleMatchTier(getResultTitle(item), normalized);
+      tiers.set(item, value);
+    }
+    return value;
+  };
+  return (a, b) => tier(a) - tier(b);
+}
@@ -0,0 +1,241 @@
+/**
+ * Semantic Search
+ *
+ * Chunking of page content by heading, embedding of the chunks and ranking
+ * of stored chunks against a query by cosine similarity.
+ */
+
+import type { BlockNode } from './blocks.js';
+import { getBlockText } from './find.js';
+
+/** Workers AI model used for embeddings */
+export const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+
+/** Largest number of texts embedded in one Workers AI request */
+const EMBEDDING_BATCH_SIZE = 100;
+
+/** Chunks longer than this many characters are split at block boundaries */
+const MAX_CHUNK_LENGTH = 1500;
+
+/** Largest number of chunks embedded per page */
+const MAX_CHUNKS_PER_PAGE = 50;
+
+/** Characters of chunk text kept for results */
+const PREVIEW_LENGTH = 300;
+
+/** Block types whose text belongs to another page */
+const SKIPPED_BLOCK_TYPES = new Set(['child_page', 'child_database']);
+
+/**
+ * Turns texts into embedding vectors
+ */
+export interface Embedder {
+  /** Model name, stored with the vectors so a model change re-embeds everything */
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * A section of a page: a heading and the blocks up to the next heading
+ */
+export interface ContentChunk {
+  /** The heading, or the first block of a section without one */
+  blockId: string;
+  /** Headings the section is under, outermost first, including its own */
+  headingPath: string[];
+  text: string;
+}
+
+/**
+ * A chunk with its embedding, as stored in the index
+ */
+export interface StoredChunk {
+  blockId: string;
+  headingPath: string[];
+  preview: string;
+  /** Base64 of the vector quantized to signed bytes */
+  vector: string;
+}
+
+/**
+ * A chunk that matched a query
+ */
+export interface ChunkMatch {
+  pageId: string;
+  chunk: StoredChunk;
+  score: number;
+}
+
+/**
+ * Embedder backed by the Workers AI binding
+ */
+export function workersAiEmbedder(ai: Ai, model = EMBEDDING_MODEL): Embedder {
+  return {
+    model,
+    embed: async (texts) => {
+      const vectors: number[][] = [];
+      for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+        const output = (await ai.run(model as typeof EMBEDDING_MODEL, { text: batch })) as {
+          shape?: number[];
+          data?: number[][];
+        };
+        if (output.data?.length !== batch.length) {
+          throw new Error(`Workers AI returned no embeddings for model '${model}'`);
+        }
+        checkDimensions(output.data, output.shape?.[1] ?? vectors[0]?.length);
+        vectors.push(...output.data);
+      }
+      return vectors;
+    },
+  };
+}
+
+// =============================================================================
+// Chunking
+// =============================================================================
+
+/** Heading block types and their levels */
+const HEADING_LEVELS: Record<string, number> = { heading_1: 1, heading_2: 2, heading_3: 3 };
+
+/**
+ * Split a page's block tree into sections, one per heading.
+ *
+ * Blocks before the first heading form their own section. Sections longer
+ * than MAX_CHUNK_LENGTH are split at block boundaries, keeping the heading
+ * path.
+ */
+export function chunkByHeading(nodes: BlockNode[]): ContentChunk[] {
+  const chunks: ContentChunk[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let current: ContentChunk | undefined;
+
+  const flush = () => {
+    if (current?.text.trim()) chunks.push(current);
+    current = undefined;
+  };
+
+  const visit = (list: BlockNode[]) => {
+    for (const { block, children } of list) {
+      if (SKIPPED_BLOCK_TYPES.has(block.type)) continue;
+      const text = getBlockText(block);
+      const level = HEADING_LEVELS[block.type];
+
+      if (level) {
+        flush();
+        while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+        headings.push({ level, text });
+        current = { blockId: block.id, headingPath: headings.map((h) => h.text), text };
+      } else if (text) {
+        if (current && current.text.length + text.length > MAX_CHUNK_LENGTH) flush();
+        current ??= { blockId: block.id, headingPath: headings.map((h) => h.text), text: '' };
+        current.text = current.text ? `${current.text}\n${text}` : text;
+      }
+      visit(children);
+    }
+  };
+
+  visit(nodes);
+  flush();
+  return chunks.slice(0, MAX_CHUNKS_PER_PAGE);
+}
+
+// =============================================================================
+// Vectors
+// =============================================================================
+
+/**
+ * Check that every vector has the same number of finite components, so
+ * vectors of different dimensions are never stored or compared
+ *
+ * @throws Error if a vector is empty, has another dimension or is not numeric
+ */
+function checkDimensions(vectors: number[][], expected = vectors[0]?.length): void {
+  for (const vector of vectors) {
+    if (!Array.isArray(vector) || vector.length === 0) {
+      throw new Error('Embedding is empty');
+    }
+    if (vector.length !== expected) {
+      throw new Error(`Embedding has ${vector.length} dimensions, expected ${expected}`);
+    }
+    if (!vector.every(Number.isFinite)) {
+      throw new Error('Embedding contains values that are not finite numbers');
+    }
+  }
+}
+
+/**
+ * Quantize a vector to signed bytes, scaled by its largest component.
+ *
+ * Cosine similarity ignores scale, so the scale is not stored.
+ */
+function quantize(vector: number[]): string {
+  const max = Math.max(...vector.map(Math.abs)) || 1;
+  const bytes = new Int8Array(vector.map((value) => Math.round((value / max) * 127)));
+  return btoa(String.fromCharCode(...new Uint8Array(bytes.buffer)));
+}
+
+function dequantize(encoded: string): Int8Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Int8Array(bytes.buffer);
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Embed a page's chunks, prefixing each with the page title and heading path
+ * so sections are understood in context
+ */
+export async function embedChunks(
+  embedder: Embedder,
+  pageTitle: string,
+  chunks: ContentChunk[]
+): Promise<StoredChunk[]> {
+  if (chunks.length === 0) return [];
+  const texts = chunks.map((chunk) =>
+    [pageTitle, ...chunk.headingPath].join(' > ').concat('\n', chunk.text)
+  );
+  const vectors = await embedder.embed(texts);
+  if (vectors.length !== chunks.length) {
+    throw new Error(`Expected ${chunks.length} embeddings, got ${vectors.length}`);
+  }
+  checkDimensions(vectors);
+  return chunks.map((chunk, index) => ({
+    blockId: chunk.blockId,
+    headingPath: chunk.headingPath,
+    preview: chunk.text.slice(0, PREVIEW_LENGTH),
+    vector: quantize(vectors[index]),
+  }));
+}
+
+/**
+ * Rank stored chunks by cosine similarity to a query vector, skipping chunks
+ * whose vector has another dimension
+ */
+export function rankChunks(
+  query: number[],
+  vectors: Record<string, StoredChunk[]>,
+  limit: number
+): ChunkMatch[] {
+  const matches: ChunkMatch[] = [];
+  for (const [pageId, chunks] of Object.entries(vectors)) {
+    for (const chunk of chunks) {
+      const vector = dequantize(chunk.vector);
+      if (vector.length !== query.length) continue;
+      matches.push({ pageId, chunk, score: cosineSimilarity(query, vector) });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,49 @@
+/**
+ * Template Variables
+ *
+ * Substitution of {{placeholders}} in text copied from template pages.
+ */
+
+/** Placeholder syntax: {{name}}, with optional spaces inside the braces */
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Substitution of template variables that remembers which placeholders had
+ * no value
+ */
+export interface TemplateSubstitution {
+  /** Replace the placeholders in a text; unknown placeholders are kept as they are */
+  transform: (text: string) => string;
+  /** Names of placeholders found without a value */
+  missing: Set<string>;
+}
+
+/**
+ * Built-in variables, available unless overridden
+ */
+function builtInVariables(now: Date): Record<string, string> {
+  return { date: now.toISOString().slice(0, 10) };
+}
+
+/**
+ * Create a substitution for a variables map.
+ *
+ * Placeholders are replaced within a single rich text item, so a placeholder
+ * must not be split by formatting (e.g. only half of it in bold).
+ */
+export function createTemplateSubstitution(
+  variables: Record<string, string>,
+  now = new Date()
+): TemplateSubstitution {
+  const values = { ...builtInVariables(now), ...variables };
+  const missing = new Set<string>();
+
+  const transform = (text: string) =>
+    text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+      if (Object.hasOwn(values, name)) return values[name];
+      missing.add(name);
+      return placeholder;
+    });
+
+  return { transform, missing };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { auditMiddleware } from '../src/tools/middleware.js';
+import { type AuditRecord, sanitizeArgs } from '../src/utils/audit.js';
+
+describe('sanitizeArgs', () => {
+  test('keeps IDs and options, and replaces content by its size however short', () => {
+    expect(
+      sanitizeArgs({
+        pageId: 'abc123',
+        format: 'json',
+        pageSize: 20,
+        dryRun: true,
+        query: 'salary review',
+        markdown: '# Hi',
+        values: { Name: 'x' },
+        children: [{}, {}],
+        token: 'secret_value',
+        omitted: undefined,
+      })
+    ).toEqual({
+      pageId: 'abc123',
+      format: 'json',
+      pageSize: 20,
+      dryRun: true,
+      query: '[13 characters]',
+      markdown: '[4 characters]',
+      values: '[1 keys]',
+      children: '[2 items]',
+      token: '[redacted]',
+    });
+  });
+});
+
+describe('auditMiddleware', () => {
+  test('returns the response without waiting for the audit write', async () => {
+    const written: AuditRecord[] = [];
+    const pending: Array<Promise<unknown>> = [];
+    let releaseSink = () => {};
+    const sinkBlocked = new Promise<void>((resolve) => {
+      releaseSink = resolve;
+    });
+
+    const middleware = auditMiddleware(
+      Promise.resolve('tenant'),
+      [
+        async (record) => {
+          await sinkBlocked;
+          written.push(record);
+        },
+      ],
+      (promise) => pending.push(promise)
+    );
+    const handler = middleware('notion_get_page', async () => ({
+      content: [{ type: 'text' as const, text: 'ok' }],
+    }));
+
+    const response = await handler?.({ pageId: 'abc', query: 'private' });
+    expect(response?.content[0].text).toBe('ok');
+    expect(pending).toHaveLength(1);
+    expect(written).toHaveLength(0);
+
+    releaseSink();
+    await Promise.all(pending);
+    expect(written).toHaveLength(1);
+    expect(written[0]).toMatchObject({
+      tenant: 'tenant',
+      tool: 'notion_get_page',
+      status: 'success',
+      targetIds: ['abc'],
+      args: { pageId: 'abc', query: '[7 characters]' },
+    });
+  });
+});
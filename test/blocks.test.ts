@@ -0,0 +1,127 @@
+import { describe, expect, test } from 'bun:test';
+import type { NotionClient } from '../src/client.js';
+import type { Block } from '../src/types/entities.js';
+import { appendBlocks, fitsInRequest } from '../src/utils/blocks.js';
+
+type BlockInput = Record<string, unknown>;
+
+/**
+ * Block input of the given type with optional children
+ */
+function input(type: string, text: string, children?: BlockInput[]): BlockInput {
+  const content: Record<string, unknown> =
+    type === 'table_row' ? { cells: [[{ type: 'text', text: { content: text } }]] } : {};
+  if (type !== 'table_row' && type !== 'column_list' && type !== 'column') {
+    content.rich_text = [{ type: 'text', text: { content: text } }];
+  }
+  if (children) content.children = children;
+  return { object: 'block', type, [type]: content };
+}
+
+function childrenOf(block: BlockInput): BlockInput[] {
+  const content = block[block.type as string] as { children?: BlockInput[] };
+  return content.children ?? [];
+}
+
+function countBlocks(blocks: BlockInput[]): number {
+  return blocks.reduce((sum, block) => sum + 1 + countBlocks(childrenOf(block)), 0);
+}
+
+/**
+ * Check a request payload against Notion's limits, including the children
+ * that tables and columns must be created with
+ */
+function checkPayload(blocks: BlockInput[], depth = 0): void {
+  expect(blocks.length).toBeLessThanOrEqual(100);
+  for (const block of blocks) {
+    const children = childrenOf(block);
+    if (depth === 2) expect(children).toHaveLength(0);
+    if (['table', 'column_list', 'column'].includes(block.type as string)) {
+      expect(children.length).toBeGreaterThan(0);
+    }
+    checkPayload(children, depth + 1);
+  }
+}
+
+/**
+ * Fake client that keeps appended blocks as a tree and checks every request
+ */
+function fakeClient() {
+  const tree = new Map<string, Array<{ id: string; block: BlockInput }>>();
+  let nextId = 0;
+  let requests = 0;
+
+  const store = (parentId: string, blocks: BlockInput[]) =>
+    blocks.map((block) => {
+      const id = `b${nextId++}`;
+      tree.set(parentId, [...(tree.get(parentId) ?? []), { id, block }]);
+      store(id, childrenOf(block));
+      return { object: 'block', id, type: block.type } as unknown as Block;
+    });
+
+  const client = {
+    appendBlockChildren: async (parentId: string, children: BlockInput[]) => {
+      requests++;
+      checkPayload(children);
+      expect(countBlocks(children)).toBeLessThanOrEqual(1000);
+      return { object: 'list', results: store(parentId, children), hasMore: false };
+    },
+    getBlockChildren: async (blockId: string) => ({
+      object: 'list',
+      results: (tree.get(blockId) ?? []).map(({ id, block }) => ({ id, type: block.type })),
+      hasMore: false,
+    }),
+  } as unknown as NotionClient;
+
+  /** Types and texts of the stored tree below a block, for comparison with the input */
+  const outline = (parentId: string): unknown[] =>
+    (tree.get(parentId) ?? []).map(({ id, block }) => [block.type, outline(id)]);
+
+  return { client, outline, requests: () => requests };
+}
+
+/**
+ * Types of an input tree, in the same shape as the fake client's outline
+ */
+function inputOutline(blocks: BlockInput[]): unknown[] {
+  return blocks.map((block) => [block.type, inputOutline(childrenOf(block))]);
+}
+
+describe('appendBlocks', () => {
+  test('sends the first 100 rows of a large table with it and appends the rest', async () => {
+    const rows = Array.from({ length: 150 }, (_, i) => input('table_row', `Row ${i}`));
+    const table = input('table', '', rows);
+    const { client, outline, requests } = fakeClient();
+
+    await appendBlocks(client, 'page', [table]);
+    expect(requests()).toBe(2);
+    expect(outline('page')).toEqual(inputOutline([table]));
+  });
+
+  test('creates columns with their content and appends deeper nesting later', async () => {
+    const nestedList = input('bulleted_list_item', 'Item', [
+      input('bulleted_list_item', 'Sub-item', [input('bulleted_list_item', 'Sub-sub-item')]),
+    ]);
+    const columns = input('column_list', '', [
+      input('column', '', [input('paragraph', 'Left'), nestedList]),
+      input('column', '', [input('paragraph', 'Right')]),
+    ]);
+    const blocks = [input('heading_1', 'Layout'), columns];
+    const { client, outline } = fakeClient();
+
+    expect(fitsInRequest(blocks)).toBe(false);
+    await appendBlocks(client, 'page', blocks);
+    expect(outline('page')).toEqual(inputOutline(blocks));
+  });
+
+  test('keeps each request within 1000 blocks in all', async () => {
+    const tables = Array.from({ length: 15 }, () =>
+      input('table', '', Array.from({ length: 99 }, (_, i) => input('table_row', `${i}`)))
+    );
+    const { client, outline, requests } = fakeClient();
+
+    await appendBlocks(client, 'page', tables);
+    expect(requests()).toBe(2);
+    expect(outline('page')).toEqual(inputOutline(tables));
+  });
+});
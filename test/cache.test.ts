@@ -0,0 +1,141 @@
+import { describe, expect, test } from 'bun:test';
+import type { NotionClient } from '../src/client.js';
+import type { Block, Page } from '../src/types/entities.js';
+import { CachedNotionClient, kvCacheStore, memoryCacheStore } from '../src/utils/cache.js';
+
+const PAGE_ID = '0123456789abcdef0123456789abcdef';
+const DASHED_ID = '01234567-89AB-CDEF-0123-456789ABCDEF';
+
+/**
+ * Fake client that counts page reads and returns the page with its title
+ */
+function fakeClient() {
+  const reads: string[] = [];
+  let title = 'v1';
+  const page = (id: string): Page => {
+    const parent = { type: 'workspace', workspace: true };
+    return { object: 'page', id, parent, title } as unknown as Page;
+  };
+
+  const client = {
+    getPage: async (pageId: string) => {
+      reads.push(pageId);
+      return page(pageId);
+    },
+    updatePage: async () => {
+      title = 'v2';
+      return page(DASHED_ID.toLowerCase());
+    },
+  } as unknown as NotionClient;
+  return { client, reads };
+}
+
+describe('CachedNotionClient', () => {
+  test('serves repeated reads of the same ID however it is written', async () => {
+    const { client, reads } = fakeClient();
+    const cache = new CachedNotionClient(client, memoryCacheStore(), Promise.resolve('tenant'));
+
+    await cache.getPage(PAGE_ID);
+    await cache.getPage(DASHED_ID);
+    expect(reads).toHaveLength(1);
+  });
+
+  test('invalidates entries read with an undashed ID on writes', async () => {
+    const { client, reads } = fakeClient();
+    const cache = new CachedNotionClient(client, memoryCacheStore(), Promise.resolve('tenant'));
+
+    await cache.getPage(PAGE_ID);
+    await cache.updatePage(PAGE_ID, {});
+    const page = (await cache.getPage(PAGE_ID)) as unknown as { title: string };
+
+    expect(reads).toHaveLength(2);
+    expect(page.title).toBe('v2');
+  });
+
+  test('bypasses the cache only for the call that asked for it', async () => {
+    const { client, reads } = fakeClient();
+    const cache = new CachedNotionClient(client, memoryCacheStore(), Promise.resolve('tenant'));
+    await cache.getPage(PAGE_ID);
+
+    let release = () => {};
+    const pending = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const bypassed = cache.bypass(async () => {
+      await pending;
+      return cache.getPage(PAGE_ID);
+    });
+    // A concurrent call made while the bypass is in progress still hits the cache
+    await cache.getPage(PAGE_ID);
+    expect(reads).toHaveLength(1);
+
+    release();
+    await bypassed;
+    expect(reads).toHaveLength(2);
+  });
+});
+
+describe('CachedNotionClient block writes', () => {
+  /**
+   * Fake client over a page holding a block, counting children reads
+   */
+  function fakeBlocks() {
+    const reads: string[] = [];
+    const parents: Record<string, string> = { block: 'page', child: 'block' };
+    const block = (id: string) =>
+      ({
+        object: 'block',
+        id,
+        type: 'paragraph',
+        parent: { type: 'block_id', block_id: parents[id] },
+      }) as unknown as Block;
+
+    const client = {
+      getBlock: async (blockId: string) => block(blockId),
+      getBlockChildren: async (blockId: string) => {
+        reads.push(blockId);
+        return { object: 'list', results: [], hasMore: false };
+      },
+      appendBlockChildren: async () => ({ object: 'list', results: [], hasMore: false }),
+      deleteBlock: async (blockId: string) => block(blockId),
+    } as unknown as NotionClient;
+    return { client, reads };
+  }
+
+  test('invalidates the listing that holds a block when its children change', async () => {
+    const { client, reads } = fakeBlocks();
+    const cache = new CachedNotionClient(client, memoryCacheStore(), Promise.resolve('tenant'));
+
+    await cache.getBlockChildren('page');
+    await cache.appendBlockChildren('block', []);
+    await cache.getBlockChildren('page');
+    expect(reads).toEqual(['page', 'page']);
+
+    await cache.getBlockChildren('block');
+    await cache.deleteBlock('child');
+    await cache.getBlockChildren('page');
+    await cache.getBlockChildren('block');
+    expect(reads).toEqual(['page', 'page', 'block', 'page', 'block']);
+  });
+});
+
+describe('kvCacheStore', () => {
+  test('lists every key of a prefix across KV list pages', async () => {
+    const names = Array.from({ length: 2500 }, (_, i) => `children:${i}`);
+    const kv = {
+      list: async ({ prefix, cursor }: { prefix: string; cursor?: string }) => {
+        const start = cursor ? Number(cursor) : 0;
+        const keys = names
+          .filter((name) => name.startsWith(prefix))
+          .slice(start, start + 1000)
+          .map((name) => ({ name }));
+        const complete = start + 1000 >= names.length;
+        return complete
+          ? { keys, list_complete: true }
+          : { keys, list_complete: false, cursor: String(start + 1000) };
+      },
+    } as unknown as KVNamespace;
+
+    expect(await kvCacheStore(kv).list('children:')).toEqual(names);
+  });
+});
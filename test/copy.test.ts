@@ -0,0 +1,160 @@
+import { describe, expect, test } from 'bun:test';
+import type { NotionClient } from '../src/client.js';
+import type { Block, DatabaseProperty, Page } from '../src/types/entities.js';
+import { movePage } from '../src/utils/copy.js';
+import { ValidationError } from '../src/utils/errors.js';
+
+const SOURCE_ID = '11111111111111111111111111111111';
+const TARGET_ID = '22222222222222222222222222222222';
+
+/**
+ * Page to move, under another page, with a title, a select and a date
+ */
+const source = {
+  object: 'page',
+  id: SOURCE_ID,
+  parent: { type: 'page_id', page_id: 'old-parent' },
+  properties: {
+    Name: {
+      id: 'title',
+      type: 'title',
+      title: [{ type: 'text', plain_text: 'Plan', text: { content: 'Plan' } }],
+    },
+    Priority: { id: 'p', type: 'select', select: { name: 'High' } },
+    Due: { id: 'd', type: 'date', date: { start: '2026-11-01' } },
+  },
+} as unknown as Page;
+
+/**
+ * Block of the given type with its content
+ */
+function block(id: string, type: string, content: Record<string, unknown>): Block {
+  return { object: 'block', id, type, has_children: false, [type]: content } as unknown as Block;
+}
+
+const paragraph = block('text', 'paragraph', {
+  rich_text: [{ type: 'text', plain_text: 'Steps', text: { content: 'Steps' } }],
+});
+const uploadedImage = block('image', 'image', {
+  type: 'file',
+  file: { url: 'https://files.example.com/a.png' },
+});
+
+/**
+ * Fake client holding the source page and its blocks, a target database with
+ * the given schema, and a child page of the source; writes are recorded
+ */
+function fakeWorkspace(blocks: Block[], schema?: Record<string, DatabaseProperty>) {
+  const created: Array<Record<string, unknown>> = [];
+  const trashed: string[] = [];
+  const parents: Record<string, unknown> = {
+    [TARGET_ID]: { type: 'workspace', workspace: true },
+    inside: { type: 'page_id', page_id: SOURCE_ID },
+  };
+
+  const client = {
+    getPage: async () => source,
+    getDatabase: async () => ({ object: 'database', id: TARGET_ID, properties: schema }),
+    getBlock: async (id: string) => ({ object: 'block', id, parent: parents[id] }),
+    getBlockChildren: async (blockId: string) => ({
+      object: 'list',
+      results: blockId === SOURCE_ID ? blocks : [],
+      hasMore: false,
+    }),
+    listUsers: async () => ({ object: 'list', results: [], hasMore: false }),
+    createPage: async (_parentId: string, _type: string, properties: Record<string, unknown>) => {
+      created.push(properties);
+      return { object: 'page', id: 'copy', properties };
+    },
+    appendBlockChildren: async (_blockId: string, children: unknown[]) => ({
+      object: 'list',
+      results: children.map((_, i) => block(`new${i}`, 'paragraph', {})),
+      hasMore: false,
+    }),
+    trashPage: async (pageId: string) => {
+      trashed.push(pageId);
+      return source;
+    },
+  } as unknown as NotionClient;
+  return { client, created, trashed };
+}
+
+describe('movePage', () => {
+  const pageTarget = { parentId: TARGET_ID, parentType: 'page_id' as const };
+
+  test('trashes the original once everything was copied', async () => {
+    const { client, trashed } = fakeWorkspace([paragraph], {
+      Title: { id: 'title', name: 'Title', type: 'title', title: {} },
+      Priority: { id: 'p', name: 'Priority', type: 'select', select: {} },
+      Due: { id: 'd', name: 'Due', type: 'date', date: {} },
+    } as unknown as Record<string, DatabaseProperty>);
+    const target = { parentId: TARGET_ID, parentType: 'database_id' as const };
+
+    const result = await movePage(client, SOURCE_ID, target);
+    expect(result.trashedOriginal).toBe(true);
+    expect(result.report).toMatchObject({ pages: 1, blocks: 1, unsupportedBlocks: [] });
+    expect(trashed).toEqual([SOURCE_ID]);
+  });
+
+  test('keeps the original when a block could not be copied', async () => {
+    const { client, trashed } = fakeWorkspace([paragraph, uploadedImage]);
+
+    const result = await movePage(client, SOURCE_ID, pageTarget);
+    expect(result.trashedOriginal).toBe(false);
+    expect(result.page.id).toBe('copy');
+    expect(result.report.unsupportedBlocks).toEqual([
+      { id: 'image', type: 'image', reason: 'Files uploaded to Notion cannot be copied' },
+    ]);
+    expect(trashed).toEqual([]);
+  });
+
+  test('trashes the original of a lossy copy when forced', async () => {
+    const { client, trashed } = fakeWorkspace([uploadedImage]);
+
+    const result = await movePage(client, SOURCE_ID, pageTarget, true);
+    expect(result.trashedOriginal).toBe(true);
+    expect(result.report.unsupportedBlocks).toHaveLength(1);
+    expect(trashed).toEqual([SOURCE_ID]);
+  });
+
+  test('reports properties that do not map to the target schema', async () => {
+    const { client, created, trashed } = fakeWorkspace([paragraph], {
+      Title: { id: 'title', name: 'Title', type: 'title', title: {} },
+      priority: { id: 'p', name: 'priority', type: 'rich_text', rich_text: {} },
+      Due: { id: 'd', name: 'Due', type: 'number', number: {} },
+    } as unknown as Record<string, DatabaseProperty>);
+    const target = { parentId: TARGET_ID, parentType: 'database_id' as const };
+
+    const result = await movePage(client, SOURCE_ID, target);
+    expect(result.trashedOriginal).toBe(false);
+    expect(trashed).toEqual([]);
+    expect(result.report.unmappedProperties).toEqual([
+      {
+        property: 'Due',
+        reason: "Cannot convert date to number: Expected a number, got '2026-11-01'",
+      },
+    ]);
+    // The title moves to the target's title and a select converts to text
+    expect(Object.keys(created[0])).toEqual(['Title', 'priority']);
+    expect(created[0].priority).toMatchObject({ rich_text: [{ text: { content: 'High' } }] });
+  });
+
+  test('reports every property but the title when moving under a page', async () => {
+    const { client, created } = fakeWorkspace([paragraph]);
+
+    const result = await movePage(client, SOURCE_ID, pageTarget);
+    expect(result.report.unmappedProperties.map(({ property }) => property)).toEqual([
+      'Priority',
+      'Due',
+    ]);
+    expect(Object.keys(created[0])).toEqual(['title']);
+  });
+
+  test('refuses to move a page into one of its descendants', async () => {
+    const { client, created } = fakeWorkspace([paragraph]);
+    const target = { parentId: 'inside', parentType: 'page_id' as const };
+
+    await expect(movePage(client, SOURCE_ID, target)).rejects.toBeInstanceOf(ValidationError);
+    expect(created).toEqual([]);
+  });
+});
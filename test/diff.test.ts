@@ -0,0 +1,153 @@
+import { describe, expect, test } from 'bun:test';
+import type { Database, Page } from '../src/types/entities.js';
+import {
+  diffDatabase,
+  diffPageProperties,
+  diffValues,
+  formatDryRun,
+  validatePropertyNames,
+} from '../src/utils/diff.js';
+import { ValidationError } from '../src/utils/errors.js';
+
+/**
+ * Rich text item with the given text, optionally bold
+ */
+function text(content: string, bold = false) {
+  return { type: 'text', text: { content }, plain_text: content, annotations: { bold } };
+}
+
+const page = {
+  object: 'page',
+  id: 'page',
+  properties: {
+    Name: { id: 'title', type: 'title', title: [text('Launch')] },
+    Status: { id: 's', type: 'select', select: { name: 'Draft' } },
+    Owner: { id: 'o', type: 'people', people: [{ object: 'user', id: 'u1', name: 'Ada' }] },
+  },
+} as unknown as Page;
+
+const database = {
+  object: 'database',
+  id: 'db',
+  title: [text('Tasks')],
+  description: [],
+  icon: { type: 'emoji', emoji: '📋' },
+  properties: {
+    Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+    Points: { id: 'p', name: 'Points', type: 'number', number: { format: 'number' } },
+    Notes: { id: 'n', name: 'Notes', type: 'rich_text', rich_text: {} },
+  },
+} as unknown as Database;
+
+describe('diffValues', () => {
+  test('compares only the keys present in the update', () => {
+    const before = { checked: false, rich_text: [text('Buy milk')], color: 'default' };
+    const after = { checked: true, rich_text: [text('Buy milk')] };
+    expect(diffValues(before, after, 'to_do')).toEqual([
+      { path: 'to_do.checked', before: false, after: true },
+    ]);
+  });
+
+  test('shows rich text as inline Markdown', () => {
+    expect(diffValues([text('plain')], [text('bold', true)], 'rich_text')).toEqual([
+      { path: 'rich_text', before: 'plain', after: '**bold**' },
+    ]);
+  });
+
+  test('treats missing values as null', () => {
+    expect(diffValues(undefined, null, 'icon')).toEqual([]);
+    expect(diffValues(undefined, 'x', 'icon')).toEqual([
+      { path: 'icon', before: null, after: 'x' },
+    ]);
+  });
+});
+
+describe('diffPageProperties', () => {
+  test('lists changed property values as plain values', () => {
+    const changes = diffPageProperties(page, {
+      Name: { title: [{ type: 'text', text: { content: 'Launch' } }] },
+      Status: { select: { name: 'Published' } },
+      Owner: { people: [{ object: 'user', id: 'u1' }] },
+    });
+    expect(changes).toEqual([{ path: 'properties.Status', before: 'Draft', after: 'Published' }]);
+  });
+
+  test('compares people by ID', () => {
+    const changes = diffPageProperties(page, { Owner: { people: [{ object: 'user', id: 'u2' }] } });
+    expect(changes).toEqual([{ path: 'properties.Owner', before: ['u1'], after: ['u2'] }]);
+  });
+
+  test('shows every value as new for a page that does not exist yet', () => {
+    expect(diffPageProperties(undefined, { Status: { select: { name: 'Draft' } } })).toEqual([
+      { path: 'properties.Status', before: null, after: 'Draft' },
+    ]);
+  });
+});
+
+describe('validatePropertyNames', () => {
+  test('rejects properties missing from the schema, ignoring case', () => {
+    expect(() => validatePropertyNames(database.properties, { points: 1 })).not.toThrow();
+
+    const error = (() => {
+      try {
+        validatePropertyNames(database.properties, { Points: 1, Estimate: 2 });
+      } catch (thrown) {
+        return thrown as ValidationError;
+      }
+    })();
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error?.details).toEqual({
+      Estimate: ['Unknown property. Available: Name, Points, Notes'],
+    });
+  });
+});
+
+describe('diffDatabase', () => {
+  test('lists title, schema and icon changes', () => {
+    const changes = diffDatabase(database, {
+      title: [text('Sprint tasks')],
+      description: [],
+      properties: {
+        Points: { number: { format: 'dollar' } },
+        Notes: null,
+        Due: { date: {} },
+        Ghost: null,
+      },
+      icon: { type: 'emoji', emoji: '📋' },
+    });
+    expect(changes).toEqual([
+      { path: 'title', before: 'Tasks', after: 'Sprint tasks' },
+      { path: 'properties.Points.number.format', before: 'number', after: 'dollar' },
+      { path: 'properties.Notes', before: 'rich_text', after: null },
+      { path: 'properties.Due', before: null, after: 'date' },
+    ]);
+  });
+
+  test('reports a rename as a change of the name', () => {
+    expect(diffDatabase(database, { properties: { Points: { name: 'Estimate' } } })).toEqual([
+      { path: 'properties.Points.name', before: 'Points', after: 'Estimate' },
+    ]);
+  });
+});
+
+describe('formatDryRun', () => {
+  test('returns the preview as JSON with a summary', () => {
+    const response = formatDryRun({
+      action: 'notion_update_page',
+      target: 'page',
+      changes: [{ path: 'properties.Status', before: 'Draft', after: 'Published' }],
+      markdown: '# Launch',
+    });
+
+    expect(JSON.parse(response.content[0].text)).toEqual({
+      dryRun: true,
+      message: 'Dry run: no changes were made (1 change)',
+      action: 'notion_update_page',
+      target: 'page',
+      changes: [{ path: 'properties.Status', before: 'Draft', after: 'Published' }],
+      markdown: '# Launch',
+    });
+    const empty = formatDryRun({ action: 'notion_update_block', target: 'block', changes: [] });
+    expect(empty.content[0].text).toContain('(0 changes)');
+  });
+});
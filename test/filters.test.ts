@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'bun:test';
+import type { DatabaseProperty } from '../src/types/entities.js';
+import { ValidationError } from '../src/utils/errors.js';
+import { parseFilterExpression } from '../src/utils/filters.js';
+
+const schema: Record<string, DatabaseProperty> = {
+  Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+  Status: {
+    id: 's',
+    name: 'Status',
+    type: 'status',
+    status: { options: [{ name: 'Done' }, { name: 'In progress' }] },
+  },
+  'Due Date': { id: 'd', name: 'Due Date', type: 'date', date: {} },
+  Tags: {
+    id: 't',
+    name: 'Tags',
+    type: 'multi_select',
+    multi_select: { options: [{ name: 'infra' }, { name: 'docs' }] },
+  },
+  Points: { id: 'p', name: 'Points', type: 'number', number: {} },
+  Done: { id: 'c', name: 'Done', type: 'checkbox', checkbox: {} },
+};
+
+/** Today's date in the form the compiler emits, offset by a number of days */
+function day(offset = 0): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + offset);
+  return date.toISOString().slice(0, 10);
+}
+
+describe('parseFilterExpression', () => {
+  test('compiles a single condition against the property type', () => {
+    expect(parseFilterExpression('Points >= 3', schema)).toEqual({
+      property: 'Points',
+      number: { greater_than_or_equal_to: 3 },
+    });
+  });
+
+  test('combines conditions with AND, OR and parentheses', () => {
+    const filter = parseFilterExpression(
+      '(Tags contains "infra" OR Done = true) AND Status = "Done"',
+      schema
+    );
+    expect(filter).toEqual({
+      and: [
+        {
+          or: [
+            { property: 'Tags', multi_select: { contains: 'infra' } },
+            { property: 'Done', checkbox: { equals: true } },
+          ],
+        },
+        { property: 'Status', status: { equals: 'Done' } },
+      ],
+    });
+  });
+
+  test('resolves bracketed names, relative dates and timestamps', () => {
+    expect(parseFilterExpression('[Due Date] on or after today-7d', schema)).toEqual({
+      property: 'Due Date',
+      date: { on_or_after: day(-7) },
+    });
+    expect(parseFilterExpression('created_time after 2026-01-01', schema)).toEqual({
+      timestamp: 'created_time',
+      created_time: { after: '2026-01-01' },
+    });
+  });
+
+  test('compiles unary operators', () => {
+    expect(parseFilterExpression('Name is empty', schema)).toEqual({
+      property: 'Name',
+      title: { is_empty: true },
+    });
+  });
+
+  test('rejects unknown properties and lists the available ones', () => {
+    expect(() => parseFilterExpression('Owner = "me"', schema)).toThrow(
+      "Unknown property 'Owner'. Available: Name, Status, Due Date, Tags, Points, Done"
+    );
+  });
+
+  test('rejects values of the wrong type and unknown options', () => {
+    expect(() => parseFilterExpression('Points = "many"', schema)).toThrow('Expected a number');
+    expect(() => parseFilterExpression('Status = "Blocked"', schema)).toThrow(
+      "Unknown option 'Blocked'"
+    );
+  });
+
+  test('points at the position of a syntax error', () => {
+    try {
+      parseFilterExpression('Status = "Done" AND', schema);
+      throw new Error('expected a validation error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      const [where] = (error as ValidationError).details.where ?? [];
+      expect(where).toContain('at position 19');
+      expect(where.split('\n')[2]).toBe(`  ${' '.repeat(19)}^`);
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'bun:test';
+import { formatListResponse, limitResponse } from '../src/utils/formatters.js';
+import { collectPages, decodeContinuation } from '../src/utils/pagination.js';
+
+describe('limitResponse', () => {
+  test('leaves responses within the limit untouched', () => {
+    const response = { content: [{ type: 'text' as const, text: '{"a": 1}' }] };
+    expect(limitResponse(response, 100)).toBe(response);
+  });
+
+  test('keeps oversized JSON objects valid and marks them truncated', () => {
+    const data = {
+      id: 'page',
+      blocks: Array.from({ length: 200 }, (_, i) => ({ id: i, text: 'x'.repeat(200) })),
+    };
+    const text = JSON.stringify(data, null, 2);
+    const limited = limitResponse({ content: [{ type: 'text', text }] }, 2000);
+    const output = limited.content[0].text;
+
+    expect(output.length).toBeLessThanOrEqual(2000);
+    const parsed = JSON.parse(output);
+    expect(parsed.id).toBe('page');
+    expect(parsed.truncated).toBe(true);
+    expect(parsed.blocks.length).toBeGreaterThan(0);
+    expect(parsed.blocks.length).toBeLessThan(200);
+  });
+
+  test('cuts other text with a notice', () => {
+    const limited = limitResponse({ content: [{ type: 'text', text: 'y'.repeat(1000) }] }, 300);
+    const output = limited.content[0].text;
+
+    expect(output.length).toBeLessThanOrEqual(300);
+    expect(output).toContain('[Truncated');
+  });
+});
+
+describe('formatListResponse', () => {
+  test('drops items at the end and returns a continuation for the first one dropped', async () => {
+    const items = Array.from({ length: 50 }, (_, i) => ({ id: i, text: 'z'.repeat(100) }));
+    const list = await collectPages(async () => ({
+      object: 'list' as const,
+      results: items,
+      hasMore: false,
+    }));
+    const response = formatListResponse(list, 'json', 'items', 3000);
+    const parsed = JSON.parse(response.content[0].text);
+
+    expect(parsed.truncated).toBe(true);
+    expect(parsed.results.length).toBeLessThan(50);
+    expect(decodeContinuation(parsed.continuation).skip).toBe(parsed.results.length);
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, expect, test } from 'bun:test';
+import type { NotionClient } from '../src/client.js';
+import type { Block, Page } from '../src/types/entities.js';
+import { memoryCacheStore } from '../src/utils/cache.js';
+import { BUILD_BATCH_PAGES, FullTextIndex } from '../src/utils/fulltext.js';
+import { type Embedder, embedChunks } from '../src/utils/semantic.js';
+
+/** Words the stub embedder places on separate axes */
+const VOCABULARY = ['fruit', 'kumquat', 'orchard', 'budget', 'invoice', 'meeting'];
+
+/**
+ * Embedder that counts vocabulary words, so texts sharing words are similar
+ */
+function stubEmbedder(): Embedder {
+  return {
+    model: 'stub-model',
+    embed: async (texts) =>
+      texts.map((text) => {
+        const words = text.toLowerCase().split(/\W+/);
+        return VOCABULARY.map((word) => words.filter((w) => w === word).length + 0.01);
+      }),
+  };
+}
+
+/**
+ * Block of the given type with its content
+ */
+function block(id: string, type: string, content: Record<string, unknown>): Block {
+  return { object: 'block', id, type, has_children: false, [type]: content } as unknown as Block;
+}
+
+/**
+ * Fake workspace of a root page with child pages, each with one paragraph
+ */
+function fakeWorkspace(texts: string[]) {
+  const edited: Record<string, string> = {};
+  const paragraphs: Record<string, string> = { root: 'Index of everything' };
+  texts.forEach((text, i) => {
+    paragraphs[`page${i}`] = text;
+  });
+  let pageReads = 0;
+
+  const client = {
+    getBlock: async (blockId: string) => block(blockId, 'child_page', { title: blockId }),
+    getPage: async (pageId: string) => {
+      pageReads++;
+      return {
+        object: 'page',
+        id: pageId,
+        url: `https://www.notion.so/${pageId}`,
+        last_edited_time: edited[pageId] ?? '2026-01-01T00:00:00.000Z',
+        properties: {
+          title: { type: 'title', title: [{ type: 'text', plain_text: `Page ${pageId}` }] },
+        },
+      } as unknown as Page;
+    },
+    getBlockChildren: async (blockId: string) => {
+      const content = [{ type: 'text', plain_text: paragraphs[blockId] ?? '' }];
+      const results = [block(`${blockId}-text`, 'paragraph', { rich_text: content })];
+      if (blockId === 'root') {
+        texts.forEach((_, i) => {
+          results.push(block(`page${i}`, 'child_page', { title: `Page ${i}` }));
+        });
+      }
+      return { object: 'list', results, hasMore: false };
+    },
+  } as unknown as NotionClient;
+
+  return {
+    client,
+    edit: (pageId: string, text: string) => {
+      paragraphs[pageId] = text;
+      edited[pageId] = new Date().toISOString();
+    },
+    pageReads: () => pageReads,
+  };
+}
+
+describe('FullTextIndex.build', () => {
+  test('builds in bounded batches and keeps the last index searchable', async () => {
+    const texts = Array.from({ length: 40 }, (_, i) => `Meeting notes number ${i}`);
+    texts[33] = 'Quarterly kumquat harvest';
+    const { client, pageReads } = fakeWorkspace(texts);
+    const index = new FullTextIndex(memoryCacheStore(), Promise.resolve('tenant'));
+    const options = { rootId: 'root', maxPages: 100 };
+
+    const first = await index.build(client, options);
+    expect(first.complete).toBe(false);
+    expect(first.pagesIndexed).toBe(BUILD_BATCH_PAGES);
+    expect(first.remaining).toBe(41 - BUILD_BATCH_PAGES);
+    expect(pageReads()).toBe(BUILD_BATCH_PAGES);
+    expect((await index.status()).building).toBe(true);
+    await expect(index.query('kumquat', 5)).rejects.toThrow('has not been built');
+
+    const second = await index.build(client, options);
+    expect(second).toMatchObject({ complete: true, remaining: 0, pagesIndexed: 41, updated: 41 });
+    expect(await index.status()).toMatchObject({ built: true, building: false, pages: 41 });
+
+    const [hit] = await index.query('kumquat', 5);
+    expect(hit.id).toBe('page33');
+    expect(hit.snippet).toContain('[[kumquat]]');
+  });
+
+  test('re-indexes only edited pages and drops their old terms', async () => {
+    const { client, edit } = fakeWorkspace(['Alpha plans', 'Beta plans']);
+    const index = new FullTextIndex(memoryCacheStore(), Promise.resolve('tenant'));
+    await index.build(client, { rootId: 'root', maxPages: 10 });
+
+    edit('page0', 'Gamma plans');
+    const result = await index.build(client, { rootId: 'root', maxPages: 10 });
+    expect(result).toMatchObject({ complete: true, updated: 1, unchanged: 2 });
+
+    expect(await index.query('alpha', 5)).toEqual([]);
+    expect((await index.query('gamma', 5)).map((hit) => hit.id)).toEqual(['page0']);
+    expect((await index.query('plans', 5)).map((hit) => hit.id).sort()).toEqual([
+      'page0',
+      'page1',
+    ]);
+  });
+
+  test('keeps serving the last complete index until a new build finishes', async () => {
+    const texts = Array.from({ length: 40 }, (_, i) => `Meeting notes number ${i}`);
+    texts[0] = 'Quarterly kumquat harvest';
+    const { client, edit } = fakeWorkspace(texts);
+    const store = memoryCacheStore();
+    const index = new FullTextIndex(store, Promise.resolve('tenant'));
+    const options = { rootId: 'root', maxPages: 100 };
+    await index.build(client, options);
+    await index.build(client, options);
+
+    edit('page0', 'Plum harvest');
+    for (const rebuild of [false, true]) {
+      expect((await index.build(client, { ...options, rebuild })).complete).toBe(false);
+      const [hit] = await index.query('kumquat', 5);
+      expect(hit.snippet).toContain('[[kumquat]]');
+      expect(await index.query('plum', 5)).toEqual([]);
+    }
+
+    expect((await index.build(client, options)).complete).toBe(true);
+    expect(await index.query('kumquat', 5)).toEqual([]);
+    expect((await index.query('plum', 5)).map((hit) => hit.id)).toEqual(['page0']);
+    // Text stored by the replaced and abandoned builds is deleted
+    expect(await store.list('index:tenant:doc:')).toHaveLength(41);
+  });
+
+  test('stops at the page limit and reports the index as truncated', async () => {
+    const { client } = fakeWorkspace(['One', 'Two', 'Three', 'Four']);
+    const index = new FullTextIndex(memoryCacheStore(), Promise.resolve('tenant'));
+
+    const result = await index.build(client, { rootId: 'root', maxPages: 3 });
+    expect(result).toMatchObject({ complete: true, pagesIndexed: 3, truncated: true });
+  });
+  test('lists database rows only up to the page limit', async () => {
+    let rowsListed = 0;
+    const client = {
+      getBlock: async () => block('db', 'child_database', { title: 'Tasks' }),
+      getDatabase: async () => ({
+        object: 'database',
+        id: 'db',
+        url: 'https://www.notion.so/db',
+        last_edited_time: '2026-01-01T00:00:00.000Z',
+        title: [{ type: 'text', plain_text: 'Tasks' }],
+        description: [],
+      }),
+      queryDatabase: async (_id: string, _f: unknown, _s: unknown, cursor = '0', size = 100) => {
+        const start = Number(cursor);
+        const results = Array.from({ length: size }, (_, i) => ({
+          object: 'page',
+          id: `row${start + i}`,
+          url: `https://www.notion.so/row${start + i}`,
+          last_edited_time: '2026-01-01T00:00:00.000Z',
+          properties: {},
+        }));
+        rowsListed += results.length;
+        return { object: 'list', results, hasMore: true, nextCursor: String(start + size) };
+      },
+      getBlockChildren: async () => ({ object: 'list', results: [], hasMore: false }),
+    } as unknown as NotionClient;
+    const index = new FullTextIndex(memoryCacheStore(), Promise.resolve('tenant'));
+
+    const result = await index.build(client, { rootId: 'db', maxPages: 10 });
+    expect(result).toMatchObject({ complete: true, pagesIndexed: 10, truncated: true });
+    expect(rowsListed).toBe(10);
+  });
+});
+
+describe('FullTextIndex.semanticSearch', () => {
+  const texts = [
+    'The kumquat orchard needs fruit pickers',
+    'Invoice and budget review',
+    'Weekly meeting agenda',
+  ];
+
+  test('ranks page sections by similarity to the query', async () => {
+    const { client } = fakeWorkspace(texts);
+    const store = memoryCacheStore();
+    const index = new FullTextIndex(store, Promise.resolve('tenant'), stubEmbedder());
+    await index.build(client, { rootId: 'root', maxPages: 10 });
+
+    const result = await index.semanticSearch('fruit from an orchard', 2);
+    expect(result.mode).toBe('semantic');
+    expect(result.results).toHaveLength(2);
+    expect(result.results[0]).toMatchObject({ pageId: 'page0', blockId: 'page0-text' });
+    expect(result.results[0].score).toBeGreaterThan(result.results[1].score);
+    expect(await index.status()).toMatchObject({ embeddingModel: 'stub-model' });
+  });
+
+  test('falls back to keywords when the index has no embeddings', async () => {
+    const { client } = fakeWorkspace(texts);
+    const store = memoryCacheStore();
+    await new FullTextIndex(store, Promise.resolve('tenant')).build(client, {
+      rootId: 'root',
+      maxPages: 10,
+    });
+
+    const index = new FullTextIndex(store, Promise.resolve('tenant'), stubEmbedder());
+    const result = await index.semanticSearch('budget', 5);
+    expect(result.mode).toBe('keyword');
+    expect(result.note).toContain('no embeddings yet');
+    expect(result.results.map((hit) => hit.pageId)).toEqual(['page1']);
+    expect(result.results[0].text).toContain('[[budget]]');
+  });
+
+  test('falls back to keywords without an embedder', async () => {
+    const { client } = fakeWorkspace(texts);
+    const index = new FullTextIndex(memoryCacheStore(), Promise.resolve('tenant'));
+    await index.build(client, { rootId: 'root', maxPages: 10 });
+
+    const result = await index.semanticSearch('meeting', 5);
+    expect(result.mode).toBe('keyword');
+    expect(result.note).toContain('Workers AI is not bound');
+    expect(result.results.map((hit) => hit.pageId)).toEqual(['page2']);
+  });
+
+  test('reports pages whose embeddings have an unexpected dimension', async () => {
+    const { client } = fakeWorkspace(texts);
+    const embedder: Embedder = {
+      model: 'broken-model',
+      embed: async (batch) => batch.map((_, i) => (i === 0 ? [1, 0, 0] : [1, 0])),
+    };
+    const chunks = [
+      { blockId: 'a', headingPath: [], text: 'first' },
+      { blockId: 'b', headingPath: [], text: 'second' },
+    ];
+    await expect(embedChunks(embedder, 'Page', chunks)).rejects.toThrow(
+      'Embedding has 2 dimensions, expected 3'
+    );
+
+    const index = new FullTextIndex(memoryCacheStore(), Promise.resolve('tenant'), {
+      model: 'empty-model',
+      embed: async (batch) => batch.map(() => []),
+    });
+    const result = await index.build(client, { rootId: 'root', maxPages: 10 });
+    expect(result.failed.map((failure) => failure.error)).toContain(
+      'Embedding failed: Embedding is empty'
+    );
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, test } from 'bun:test';
+import type { NotionClient } from '../src/client.js';
+import type { Page } from '../src/types/entities.js';
+import { NotionApiError, ValidationError } from '../src/utils/errors.js';
+import { IMPORT_BATCH_ROWS, importRows, parseCsv } from '../src/utils/import.js';
+
+const USER_ID = '5b1e9c7a-0d3f-4c52-9a61-2f7d8e4b6c10';
+
+const schema = {
+  Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+  Points: { id: 'p', name: 'Points', type: 'number', number: {} },
+  Lead: { id: 'l', name: 'Lead', type: 'people', people: {} },
+  Created: { id: 'c', name: 'Created', type: 'created_time', created_time: {} },
+};
+
+type Condition = { property: string } & Record<string, { equals?: unknown; contains?: string }>;
+
+/**
+ * Fake client over an in-memory database of pages; queries honor `or`
+ * filters of equals and contains conditions and are recorded
+ */
+function fakeDatabase(options: { failOn?: string; rejectOn?: string } = {}) {
+  const pages: Page[] = [];
+  const writes: string[] = [];
+  const queries: unknown[] = [];
+
+  const toPage = (id: string, properties: Record<string, unknown>): Page =>
+    ({
+      object: 'page',
+      id,
+      parent: { type: 'database_id', database_id: 'db' },
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([name, value]) => [
+          name,
+          { type: schema[name as keyof typeof schema].type, ...(value as object) },
+        ])
+      ),
+    }) as unknown as Page;
+
+  const titleOf = (properties: Record<string, unknown>) =>
+    (properties.Name as { title: Array<{ text: { content: string } }> }).title[0].text.content;
+
+  const matches = (page: Page, { property, ...condition }: Condition) => {
+    const [[type, test]] = Object.entries(condition);
+    const value = (page.properties[property] as unknown as Record<string, unknown>)[type];
+    if (test.contains !== undefined) {
+      return (value as Array<{ id: string }>).some((item) => item.id === test.contains);
+    }
+    return (type === 'title' ? titleOf(page.properties) : value) === test.equals;
+  };
+
+  const client = {
+    getDatabase: async () => ({ object: 'database', id: 'db', properties: schema }),
+    listUsers: async () => ({
+      object: 'list',
+      results: [{ object: 'user', id: USER_ID, person: { email: 'ada@example.com' } }],
+      hasMore: false,
+    }),
+    queryDatabase: async (_databaseId: string, filter?: { or: Condition[] }) => {
+      queries.push(filter);
+      const results = pages.filter((page) => !filter || filter.or.some((c) => matches(page, c)));
+      return { object: 'list', results, hasMore: false };
+    },
+    createPage: async (_parent: string, _type: string, properties: Record<string, unknown>) => {
+      const title = titleOf(properties);
+      if (title === options.failOn) throw new TypeError('Network connection lost');
+      if (title === options.rejectOn) throw new NotionApiError('Conflict', 409, 'conflict_error');
+      const page = toPage(`page-${pages.length + 1}`, properties);
+      pages.push(page);
+      writes.push(`create ${title}`);
+      return page;
+    },
+    updatePage: async (pageId: string, properties: Record<string, unknown>) => {
+      writes.push(`update ${pageId} ${titleOf(properties)}`);
+      return toPage(pageId, properties);
+    },
+  } as unknown as NotionClient;
+
+  return { client, pages, writes, queries };
+}
+
+describe('parseCsv', () => {
+  test('parses quoted fields with commas, quotes and line breaks', () => {
+    const csv = 'Name,Notes\r\n"Task, one","Say ""hi""\nthen leave"\nTask two,\n';
+    expect(parseCsv(csv)).toEqual([
+      { Name: 'Task, one', Notes: 'Say "hi"\nthen leave' },
+      { Name: 'Task two', Notes: '' },
+    ]);
+  });
+
+  test('reads missing trailing fields as empty and skips blank lines', () => {
+    expect(parseCsv('\uFEFFa,b,c\n1\n\n2,3,4')).toEqual([
+      { a: '1', b: '', c: '' },
+      { a: '2', b: '3', c: '4' },
+    ]);
+  });
+
+  test('rejects unterminated quotes and rows with too many fields', () => {
+    expect(() => parseCsv('a\n"open')).toThrow(ValidationError);
+    expect(() => parseCsv('a,b\n1,2,3')).toThrow(ValidationError);
+  });
+});
+
+describe('importRows', () => {
+  test('creates a page per row and reports ignored columns and invalid rows', async () => {
+    const { client, writes } = fakeDatabase();
+    const rows = parseCsv('Name,Points,Created,Owner\nFirst,3,,me\nSecond,lots,,\n');
+    const result = await importRows(client, 'db', rows);
+
+    expect(writes).toEqual(['create First']);
+    expect(result.summary).toEqual({ created: 1, updated: 0, skipped: 1 });
+    expect(result.ignoredColumns).toEqual(['Created', 'Owner']);
+    expect(result.rows[1].errors?.Points).toBeDefined();
+  });
+
+  test('updates pages that match the key property instead of duplicating them', async () => {
+    const { client, writes } = fakeDatabase();
+    await importRows(client, 'db', [{ Name: 'Alpha', Points: 1 }]);
+    const result = await importRows(
+      client,
+      'db',
+      [
+        { Name: 'Alpha', Points: 2 },
+        { Name: 'Beta', Points: 3 },
+        { Name: 'Beta', Points: 4 },
+      ],
+      { keyProperty: 'name' }
+    );
+
+    expect(result.summary).toEqual({ created: 1, updated: 2, skipped: 0 });
+    expect(writes).toEqual([
+      'create Alpha',
+      'update page-1 Alpha',
+      'create Beta',
+      'update page-2 Beta',
+    ]);
+  });
+
+  test('looks up only the keys of the current batch', async () => {
+    const { client, writes, queries } = fakeDatabase();
+    await importRows(client, 'db', [{ Name: 'Alpha' }, { Name: 'Gamma' }]);
+    queries.length = 0;
+
+    await importRows(client, 'db', [{ Name: 'Alpha' }, { Name: 'Beta' }, { Name: 'Alpha' }], {
+      keyProperty: 'Name',
+    });
+
+    expect(queries).toEqual([
+      {
+        or: [
+          { property: 'Name', title: { equals: 'Alpha' } },
+          { property: 'Name', title: { equals: 'Beta' } },
+        ],
+      },
+    ]);
+    expect(writes.slice(2)).toEqual(['update page-1 Alpha', 'create Beta', 'update page-1 Alpha']);
+  });
+
+  test('matches keys after coercing them to the property type', async () => {
+    const { client, writes } = fakeDatabase();
+    await importRows(client, 'db', [{ Name: 'First', Points: 1, Lead: USER_ID }]);
+
+    await importRows(client, 'db', [{ Name: 'By points', Points: '1.0' }], {
+      keyProperty: 'Points',
+    });
+    await importRows(client, 'db', [{ Name: 'By lead', Lead: 'Ada@example.com' }], {
+      keyProperty: 'Lead',
+    });
+
+    expect(writes).toEqual(['create First', 'update page-1 By points', 'update page-1 By lead']);
+  });
+
+  test('a dry run validates every row without writing', async () => {
+    const { client, writes } = fakeDatabase();
+    const rows = Array.from({ length: IMPORT_BATCH_ROWS + 5 }, (_, i) => ({ Name: `Row ${i}` }));
+    const result = await importRows(client, 'db', rows, { dryRun: true });
+
+    expect(writes).toEqual([]);
+    expect(result.summary.created).toBe(rows.length);
+    expect(result.nextRow).toBeUndefined();
+  });
+
+  test('writes one batch per call and continues from nextRow', async () => {
+    const { client, pages } = fakeDatabase();
+    const rows = Array.from({ length: IMPORT_BATCH_ROWS + 5 }, (_, i) => ({ Name: `Row ${i}` }));
+
+    const first = await importRows(client, 'db', rows);
+    expect(first.summary.created).toBe(IMPORT_BATCH_ROWS);
+    expect(first.nextRow).toBe(IMPORT_BATCH_ROWS + 1);
+
+    const second = await importRows(client, 'db', rows, { startRow: first.nextRow });
+    expect(second.summary.created).toBe(5);
+    expect(second.rows[0].row).toBe(IMPORT_BATCH_ROWS + 1);
+    expect(second.nextRow).toBeUndefined();
+    expect(pages).toHaveLength(rows.length);
+  });
+
+  test('returns the rows committed so far when an unexpected error stops the import', async () => {
+    const { client, pages } = fakeDatabase({ failOn: 'C', rejectOn: 'B' });
+    const rows = [{ Name: 'A' }, { Name: 'B' }, { Name: 'C' }, { Name: 'D' }];
+    const result = await importRows(client, 'db', rows);
+
+    expect(pages).toHaveLength(1);
+    expect(result.rows.map((row) => [row.row, row.action])).toEqual([
+      [1, 'created'],
+      [2, 'skipped'],
+    ]);
+    expect(result.nextRow).toBe(3);
+    expect(result.error).toBe('Network connection lost');
+  });
+});
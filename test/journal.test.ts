@@ -0,0 +1,172 @@
+import { describe, expect, test } from 'bun:test';
+import type { NotionClient } from '../src/client.js';
+import type { Block } from '../src/types/entities.js';
+import { memoryCacheStore } from '../src/utils/cache.js';
+import { NotionApiError, ValidationError } from '../src/utils/errors.js';
+import { ChangeJournal, JournaledNotionClient, undoChange } from '../src/utils/journal.js';
+
+/**
+ * Paragraph block with the given text and number of (generated) children
+ */
+function paragraph(id: string, childCount = 0): Block {
+  return {
+    object: 'block',
+    id,
+    type: 'paragraph',
+    has_children: childCount > 0,
+    parent: { type: 'page_id', page_id: 'page' },
+    paragraph: { rich_text: [{ type: 'text', text: { content: id }, plain_text: id }] },
+  } as unknown as Block;
+}
+
+/**
+ * Fake client whose blocks have childCount children each, nested depth levels
+ * deep below the block being deleted. Deleted blocks cannot be taken out of
+ * the trash when purged is set; appended blocks are recorded.
+ */
+function fakeTree(childCount: number, depth: number, options: { purged?: boolean } = {}) {
+  let childReads = 0;
+  const appended: unknown[] = [];
+  const uploadedImage = {
+    object: 'block',
+    id: 'root.image',
+    type: 'image',
+    has_children: false,
+    image: { type: 'file', file: { url: 'https://files.example.com/a.png' } },
+  };
+
+  const client = {
+    getBlock: async (blockId: string) => paragraph(blockId, childCount),
+    getBlockChildren: async (blockId: string) => {
+      childReads++;
+      const level = blockId.split('.').length;
+      const results: unknown[] = Array.from({ length: childCount }, (_, i) =>
+        paragraph(`${blockId}.${i}`, level < depth ? childCount : 0)
+      );
+      if (blockId === 'root' && childCount === 1) results.push(uploadedImage);
+      return { object: 'list', results, hasMore: false };
+    },
+    deleteBlock: async (blockId: string) => paragraph(blockId),
+    updateBlock: async (blockId: string) => {
+      if (options.purged) throw new NotionApiError('Block not found', 404, 'object_not_found');
+      return paragraph(blockId);
+    },
+    appendBlockChildren: async (_blockId: string, children: unknown[]) => {
+      appended.push(...children);
+      return { object: 'list', results: children.map((_, i) => paragraph(`new${i}`)) };
+    },
+  } as unknown as NotionClient;
+  return { client, appended, childReads: () => childReads };
+}
+
+/**
+ * Text of a block input
+ */
+function textOf(input: unknown): string {
+  return (input as { paragraph: { rich_text: Array<{ text: { content: string } }> } }).paragraph
+    .rich_text[0].text.content;
+}
+
+describe('ChangeJournal', () => {
+  test('lists entries newest first, filtered by target', async () => {
+    const journal = new ChangeJournal(memoryCacheStore(), Promise.resolve('tenant'));
+    for (let i = 0; i < 120; i++) {
+      await journal.record({
+        operation: 'update_block',
+        targetId: i % 2 ? 'aaaa-bbbb' : 'cccc',
+        summary: `Change ${i}`,
+        undo: { type: 'delete', ids: [] },
+      });
+      // Keys sort by timestamp, so keep them distinct
+      await Bun.sleep(1);
+    }
+
+    const latest = await journal.list(3);
+    const summaries = latest.map((entry) => entry.summary);
+    expect(summaries).toEqual(['Change 119', 'Change 118', 'Change 117']);
+
+    const filtered = await journal.list(60, 'AAAABBBB');
+    expect(filtered).toHaveLength(60);
+    expect(filtered.every((entry) => entry.targetId === 'aaaa-bbbb')).toBe(true);
+  });
+});
+
+describe('JournaledNotionClient.deleteBlock', () => {
+  test('saves the content of a small subtree for re-creating it', async () => {
+    const { client } = fakeTree(2, 2);
+    const journal = new ChangeJournal(memoryCacheStore(), Promise.resolve('tenant'));
+    await new JournaledNotionClient(client, journal).deleteBlock('root');
+
+    const [entry] = await journal.list(1);
+    expect(entry.summary).toBe('Deleted paragraph block');
+    expect(entry.undo).toMatchObject({ type: 'restore_block', blockId: 'root', parentId: 'page' });
+    const { content } = entry.undo as { content: { paragraph: { children: unknown[] } } };
+    expect(content.paragraph.children.map(textOf)).toEqual(['root.0', 'root.1']);
+  });
+
+  test('stops reading a large subtree and records the delete as trash-only', async () => {
+    const { client, childReads } = fakeTree(50, 3);
+    const journal = new ChangeJournal(memoryCacheStore(), Promise.resolve('tenant'));
+    await new JournaledNotionClient(client, journal).deleteBlock('root');
+
+    expect(childReads()).toBeLessThan(10);
+    const [entry] = await journal.list(1);
+    expect(entry.summary).toContain('content not saved');
+    expect((entry.undo as { content?: unknown }).content).toBeUndefined();
+
+    // Undo still takes the block out of the trash
+    const { result } = await undoChange(client, journal, entry.id);
+    expect(result).toBe('Restored block root');
+  });
+
+  test('does not save subtrees nested deeper than the capture limit', async () => {
+    const { client } = fakeTree(1, 6);
+    const journal = new ChangeJournal(memoryCacheStore(), Promise.resolve('tenant'));
+    await new JournaledNotionClient(client, journal).deleteBlock('root');
+
+    const [entry] = await journal.list(1);
+    expect((entry.undo as { content?: unknown }).content).toBeUndefined();
+  });
+});
+
+describe('undoChange', () => {
+  test('re-appends a copy of a deleted block that is no longer in the trash', async () => {
+    const { client, appended } = fakeTree(2, 2, { purged: true });
+    const journal = new ChangeJournal(memoryCacheStore(), Promise.resolve('tenant'));
+    await new JournaledNotionClient(client, journal).deleteBlock('root');
+
+    const [entry] = await journal.list(1);
+    const { result, change } = await undoChange(client, journal, entry.id);
+    expect(result).toBe(
+      'Block root could not be restored; re-appended a copy of it to the end of page'
+    );
+    expect(appended.map(textOf)).toEqual(['root']);
+    expect(change.undoneAt).toBeDefined();
+
+    await expect(undoChange(client, journal, entry.id)).rejects.toThrow('already undone');
+  });
+
+  test('reports nested blocks the copy could not include', async () => {
+    const { client, appended } = fakeTree(1, 1, { purged: true });
+    const journal = new ChangeJournal(memoryCacheStore(), Promise.resolve('tenant'));
+    await new JournaledNotionClient(client, journal).deleteBlock('root');
+
+    const [entry] = await journal.list(1);
+    expect(entry.summary).toBe('Deleted paragraph block (1 nested blocks not saved)');
+    const { result } = await undoChange(client, journal, entry.id);
+    expect(result).toContain('without 1 nested blocks that could not be saved (image)');
+    const [copy] = appended as Array<{ paragraph: { children: unknown[] } }>;
+    expect(copy.paragraph.children.map(textOf)).toEqual(['root.0']);
+  });
+
+  test('refuses to undo when the block is purged and its content was not saved', async () => {
+    const { client, appended } = fakeTree(50, 3, { purged: true });
+    const journal = new ChangeJournal(memoryCacheStore(), Promise.resolve('tenant'));
+    await new JournaledNotionClient(client, journal).deleteBlock('root');
+
+    const [entry] = await journal.list(1);
+    await expect(undoChange(client, journal, entry.id)).rejects.toBeInstanceOf(ValidationError);
+    expect(appended).toEqual([]);
+    expect((await journal.get(entry.id))?.undoneAt).toBeUndefined();
+  });
+});
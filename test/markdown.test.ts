@@ -0,0 +1,127 @@
+import { describe, expect, test } from 'bun:test';
+import type { Block, RichTextItem } from '../src/types/entities.js';
+import type { BlockNode } from '../src/utils/blocks.js';
+import { type BlockInput, blocksToMarkdown, markdownToBlocks } from '../src/utils/markdown.js';
+
+/**
+ * Turn a block creation payload into the block tree the API would return
+ * for it, with nested children moved out of the block content
+ */
+function toNode(input: BlockInput, index: number): BlockNode {
+  const type = input.type as string;
+  const { children = [], ...content } = input[type] as Record<string, unknown> & {
+    children?: BlockInput[];
+  };
+  const block = {
+    object: 'block',
+    id: `block-${index}`,
+    type,
+    has_children: children.length > 0,
+    [type]: content,
+  } as unknown as Block;
+  return { block, children: children.map(toNode) };
+}
+
+/** Convert Markdown to blocks and back */
+function roundTrip(markdown: string): string {
+  return blocksToMarkdown(markdownToBlocks(markdown).map(toNode));
+}
+
+const DOCUMENT = `# Title
+
+Some **bold** and _italic_ text with \`code\` and a [link](https://example.com).
+
+- one
+- two
+  - nested
+1. first
+2. second
+- [ ] todo
+- [x] done
+
+> quote
+
+\`\`\`typescript
+const x = 1;
+\`\`\`
+
+| a | b |
+|---|---|
+| 1 | 2 |
+
+---`;
+
+describe('markdown round-trip', () => {
+  test('renders blocks parsed from Markdown back to the same Markdown', () => {
+    expect(roundTrip(DOCUMENT)).toBe(DOCUMENT);
+  });
+
+  test('normalizes equivalent syntax, then stays stable', () => {
+    const markdown = '*italic* text\n\n```ts\nlet y;\n```';
+    const normalized = roundTrip(markdown);
+
+    expect(normalized).toBe('_italic_ text\n\n```typescript\nlet y;\n```');
+    expect(roundTrip(normalized)).toBe(normalized);
+    expect(markdownToBlocks(normalized)).toEqual(markdownToBlocks(markdown));
+  });
+
+  test('keeps nesting as block children', () => {
+    const [parent] = markdownToBlocks('- parent\n  - child\n    - grandchild');
+    const node = toNode(parent, 0);
+
+    expect(node.children).toHaveLength(1);
+    expect(node.children[0].children).toHaveLength(1);
+    expect(blocksToMarkdown([node])).toBe('- parent\n  - child\n    - grandchild');
+  });
+
+  test('maps Markdown syntax to block types', () => {
+    const types = markdownToBlocks(DOCUMENT).map((block) => block.type);
+    expect(types).toEqual([
+      'heading_1',
+      'paragraph',
+      'bulleted_list_item',
+      'bulleted_list_item',
+      'numbered_list_item',
+      'numbered_list_item',
+      'to_do',
+      'to_do',
+      'quote',
+      'code',
+      'table',
+      'divider',
+    ]);
+  });
+});
+
+describe('markdownToBlocks', () => {
+  /** Rich text of a parsed block */
+  const richText = (block: BlockInput) =>
+    (block[block.type as string] as { rich_text: RichTextItem[] }).rich_text;
+
+  test('links only absolute web and mailto URLs', () => {
+    const [paragraph] = markdownToBlocks(
+      'See [docs](https://example.com), [mail](mailto:a@example.com), ' +
+        '[file](./doc.md) and [section](#intro).'
+    );
+    const links = richText(paragraph).map((item) => item.text?.link?.url ?? null);
+
+    expect(links.filter((url) => url !== null)).toEqual([
+      'https://example.com',
+      'mailto:a@example.com',
+    ]);
+    const text = richText(paragraph).map((item) => item.plain_text ?? item.text?.content);
+    expect(text.join('')).toContain('[file](./doc.md) and [section](#intro).');
+  });
+
+  test('keeps the line breaks of a multi-line quote', () => {
+    const [quote] = markdownToBlocks('> first line\n> second line\n>\n> next paragraph');
+    const text = richText(quote)
+      .map((item) => item.text?.content)
+      .join('');
+
+    expect(text).toBe('first line\nsecond line');
+    expect(toNode(quote, 0).children).toHaveLength(1);
+    expect(roundTrip('> first line\n> second line')).toBe('> first line\n> second line');
+  });
+});
+
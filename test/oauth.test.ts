@@ -0,0 +1,166 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { handleOAuthRequest, resolveTenantCredentials } from '../src/oauth.js';
+import type { Env } from '../src/types/env.js';
+
+/**
+ * In-memory KV namespace with the calls the OAuth flow makes
+ */
+function fakeKv() {
+  const entries = new Map<string, string>();
+  const kv = {
+    get: async (key: string, type?: string) => {
+      const value = entries.get(key) ?? null;
+      return value !== null && type === 'json' ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string) => {
+      entries.set(key, value);
+    },
+    delete: async (key: string) => {
+      entries.delete(key);
+    },
+  } as unknown as KVNamespace;
+  return { kv, entries };
+}
+
+/** Response the fake token endpoint sends for the next exchange */
+let tokenResponse: { status: number; body: unknown } = { status: 200, body: {} };
+/** Requests received by the fake token endpoint */
+const tokenRequests: Array<{ authorization: string | null; body: Record<string, unknown> }> = [];
+
+let server: ReturnType<typeof Bun.serve>;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      tokenRequests.push({
+        authorization: request.headers.get('Authorization'),
+        body: (await request.json()) as Record<string, unknown>,
+      });
+      return Response.json(tokenResponse.body, { status: tokenResponse.status });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+/**
+ * Environment with OAuth configured against the fake token endpoint
+ */
+function oauthEnv() {
+  const { kv, entries } = fakeKv();
+  const env = {
+    NOTION_OAUTH_CLIENT_ID: 'client',
+    NOTION_OAUTH_CLIENT_SECRET: 'secret',
+    NOTION_OAUTH_REDIRECT_URI: 'https://mcp.example.com/oauth/callback',
+    NOTION_OAUTH_TOKEN_URL: `http://localhost:${server.port}/v1/oauth/token`,
+    STATE_KV: kv,
+  } as unknown as Env;
+  return { env, entries };
+}
+
+/**
+ * Start the flow and return the state value from the authorization redirect
+ */
+async function authorize(env: Env): Promise<string> {
+  const response = await handleOAuthRequest(
+    new Request('https://mcp.example.com/oauth/authorize'),
+    env
+  );
+  expect(response.status).toBe(302);
+  const location = new URL(response.headers.get('Location') ?? '');
+  expect(location.searchParams.get('client_id')).toBe('client');
+  return location.searchParams.get('state') ?? '';
+}
+
+/**
+ * Call the callback endpoint with an authorization code
+ */
+function callback(env: Env, state: string): Promise<Response> {
+  const url = `https://mcp.example.com/oauth/callback?code=abc&state=${state}`;
+  return handleOAuthRequest(new Request(url), env);
+}
+
+describe('OAuth flow', () => {
+  test('exchanges the code and issues a session key that resolves to the token', async () => {
+    const { env } = oauthEnv();
+    tokenResponse = {
+      status: 200,
+      body: {
+        access_token: 'ntn_token',
+        token_type: 'bearer',
+        bot_id: 'bot',
+        workspace_id: 'workspace',
+        workspace_name: 'Acme',
+      },
+    };
+
+    const response = await callback(env, await authorize(env));
+    expect(response.status).toBe(200);
+    const { sessionKey, workspace } = (await response.json()) as {
+      sessionKey: string;
+      workspace: Record<string, unknown>;
+    };
+    expect(workspace).toEqual({ workspaceId: 'workspace', workspaceName: 'Acme', botId: 'bot' });
+
+    const exchange = tokenRequests.at(-1);
+    expect(exchange?.authorization).toBe(`Basic ${btoa('client:secret')}`);
+    expect(exchange?.body).toMatchObject({ grant_type: 'authorization_code', code: 'abc' });
+
+    const request = new Request('https://mcp.example.com/mcp', {
+      headers: { 'X-Notion-Session-Key': sessionKey },
+    });
+    const credentials = await resolveTenantCredentials(request, env);
+    expect(credentials).toMatchObject({ type: 'oauth', accessToken: 'ntn_token' });
+  });
+
+  test('fails the callback when the token response has no access_token', async () => {
+    const { env, entries } = oauthEnv();
+    tokenResponse = { status: 200, body: { bot_id: 'bot', workspace_id: 'workspace' } };
+
+    const response = await callback(env, await authorize(env));
+    expect(response.status).toBe(502);
+    expect(((await response.json()) as { error: string }).error).toBe('Token exchange failed');
+    expect([...entries.keys()].some((key) => key.startsWith('oauth:session:'))).toBe(false);
+  });
+
+  test('reports errors returned by the token endpoint', async () => {
+    const { env } = oauthEnv();
+    tokenResponse = { status: 400, body: { error: 'invalid_grant', message: 'Code expired' } };
+
+    const response = await callback(env, await authorize(env));
+    expect(response.status).toBe(502);
+    expect(((await response.json()) as { message: string }).message).toBe('Code expired');
+  });
+
+  test('accepts each state value once', async () => {
+    const { env } = oauthEnv();
+    tokenResponse = {
+      status: 200,
+      body: { access_token: 'ntn_token', bot_id: 'bot', workspace_id: 'workspace' },
+    };
+    const state = await authorize(env);
+
+    expect((await callback(env, state)).status).toBe(200);
+    expect((await callback(env, state)).status).toBe(400);
+    expect((await callback(env, 'forged')).status).toBe(400);
+  });
+
+  test('rejects unknown session keys', async () => {
+    const { env } = oauthEnv();
+    const request = new Request('https://mcp.example.com/mcp', {
+      headers: { 'X-Notion-Session-Key': 'nsk_unknown' },
+    });
+    await expect(resolveTenantCredentials(request, env)).rejects.toThrow('Unknown session key');
+  });
+
+  test('is disabled until OAuth is configured', async () => {
+    const response = await handleOAuthRequest(
+      new Request('https://mcp.example.com/oauth/authorize'),
+      {} as Env
+    );
+    expect(response.status).toBe(501);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from 'bun:test';
+import type { PaginatedResponse } from '../src/types/entities.js';
+import {
+  collectPages,
+  continuationAt,
+  decodeContinuation,
+  encodeContinuation,
+  fetchList,
+  refineList,
+} from '../src/utils/pagination.js';
+
+/**
+ * Fake list endpoint over the numbers 0..total-1, with cursors that are
+ * stringified start positions
+ */
+function numbers(total: number) {
+  const calls: Array<{ cursor?: string; pageSize: number }> = [];
+  const fetchPage = async (
+    cursor: string | undefined,
+    pageSize: number
+  ): Promise<PaginatedResponse<number>> => {
+    calls.push({ cursor, pageSize });
+    const start = cursor ? Number(cursor) : 0;
+    const end = Math.min(start + pageSize, total);
+    const results = Array.from({ length: end - start }, (_, i) => start + i);
+    return {
+      object: 'list',
+      results,
+      hasMore: end < total,
+      nextCursor: end < total ? String(end) : undefined,
+    };
+  };
+  return { fetchPage, calls };
+}
+
+describe('continuation tokens', () => {
+  test('round-trip cursor, skip and offset', () => {
+    const token = encodeContinuation({ cursor: 'abc', skip: 3, offset: 7 });
+    expect(decodeContinuation(token)).toEqual({ cursor: 'abc', skip: 3, offset: 7 });
+  });
+
+  test('reject malformed tokens', () => {
+    expect(() => decodeContinuation('not a token')).toThrow('Invalid continuation token');
+  });
+
+  test('reject tokens bound to a different resource', () => {
+    const token = encodeContinuation({ skip: 4, scope: 'page-a' });
+    expect(decodeContinuation(token, 'page-a').skip).toBe(4);
+    expect(() => decodeContinuation(token, 'page-b')).toThrow('different request');
+  });
+});
+
+describe('collectPages', () => {
+  test('collects every page up to maxItems and reports where to resume', async () => {
+    const { fetchPage } = numbers(250);
+    const list = await collectPages(fetchPage, { maxItems: 150 });
+
+    expect(list.results).toEqual(Array.from({ length: 150 }, (_, i) => i));
+    expect(list.hasMore).toBe(true);
+    expect(list.nextCursor).toBe('150');
+  });
+
+  test('shrinks the last page so it ends on maxItems', async () => {
+    const { fetchPage, calls } = numbers(250);
+    await collectPages(fetchPage, { maxItems: 130 });
+
+    expect(calls.map((call) => call.pageSize)).toEqual([100, 30]);
+  });
+});
+
+describe('fetchList', () => {
+  test('a continuation resumes exactly where the previous response stopped', async () => {
+    const { fetchPage } = numbers(50);
+    const first = await fetchList(fetchPage, { pageSize: 20 });
+    const token = continuationAt(first, 12);
+    const second = await fetchList(fetchPage, { pageSize: 20, continuation: token });
+
+    expect(second.results[0]).toBe(12);
+    expect(second.results).toHaveLength(20);
+  });
+
+  test('resumes a token whose skip is at least the page size', async () => {
+    // A fetchAll response of 100 items truncated at 80, resumed as a single page of 10
+    const { fetchPage } = numbers(200);
+    const first = await fetchList(fetchPage, { pageSize: 10, fetchAll: true, maxItems: 100 });
+    const token = continuationAt(first, 80);
+    expect(decodeContinuation(token)).toEqual({ cursor: undefined, skip: 80 });
+
+    const second = await fetchList(fetchPage, { pageSize: 10, continuation: token });
+    expect(second.results).toEqual([80, 81, 82, 83, 84, 85, 86, 87, 88, 89]);
+
+    const third = await fetchList(fetchPage, {
+      pageSize: 10,
+      continuation: continuationAt(second, second.results.length),
+    });
+    expect(third.results[0]).toBe(90);
+  });
+
+  test('continuations of a refined list skip results already returned', async () => {
+    const { fetchPage } = numbers(30);
+    const fetch = (continuation?: string) =>
+      fetchList(fetchPage, { pageSize: 30, fetchAll: true, continuation }).then((list) =>
+        refineList(list, (n) => n % 2 === 0, (a, b) => b - a, continuation)
+      );
+
+    const first = await fetch();
+    expect(first.results.slice(0, 3)).toEqual([28, 26, 24]);
+
+    const second = await fetch(continuationAt(first, 3));
+    expect(second.results.slice(0, 3)).toEqual([22, 20, 18]);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, test } from 'bun:test';
+import type { NotionClient } from '../src/client.js';
+import type { DatabaseProperty } from '../src/types/entities.js';
+import { ValidationError } from '../src/utils/errors.js';
+import { buildPropertyValues, createUserResolver } from '../src/utils/properties.js';
+
+const USER_ID = '5b1e9c7a-0d3f-4c52-9a61-2f7d8e4b6c10';
+const PAGE_ID = '0123456789abcdef0123456789abcdef';
+
+const schema = {
+  Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+  Notes: { id: 'n', name: 'Notes', type: 'rich_text', rich_text: {} },
+  Points: { id: 'p', name: 'Points', type: 'number', number: {} },
+  Priority: { id: 's', name: 'Priority', type: 'select', select: { options: [] } },
+  Stage: {
+    id: 'st',
+    name: 'Stage',
+    type: 'status',
+    status: { options: [{ name: 'Not started' }, { name: 'Done' }] },
+  },
+  Tags: { id: 't', name: 'Tags', type: 'multi_select', multi_select: { options: [] } },
+  Due: { id: 'd', name: 'Due', type: 'date', date: {} },
+  Owner: { id: 'o', name: 'Owner', type: 'people', people: {} },
+  Files: { id: 'f', name: 'Files', type: 'files', files: {} },
+  Done: { id: 'c', name: 'Done', type: 'checkbox', checkbox: {} },
+  Link: { id: 'u', name: 'Link', type: 'url', url: {} },
+  Email: { id: 'e', name: 'Email', type: 'email', email: {} },
+  Phone: { id: 'ph', name: 'Phone', type: 'phone_number', phone_number: {} },
+  Related: { id: 'r', name: 'Related', type: 'relation', relation: {} },
+  Total: { id: 'x', name: 'Total', type: 'formula', formula: {} },
+} as unknown as Record<string, DatabaseProperty>;
+
+/**
+ * Fake client with a single workspace user, counting user list reads
+ */
+function fakeUsers() {
+  let listed = 0;
+  const client = {
+    listUsers: async () => {
+      listed++;
+      return {
+        object: 'list',
+        results: [{ object: 'user', id: USER_ID, person: { email: 'ada@example.com' } }],
+        hasMore: false,
+      };
+    },
+  } as unknown as NotionClient;
+  return { resolveUser: createUserResolver(client), listed: () => listed };
+}
+
+/**
+ * Build a single value and return its payload
+ */
+async function build(name: string, value: unknown): Promise<unknown> {
+  const properties = await buildPropertyValues(schema, { [name]: value }, fakeUsers().resolveUser);
+  return Object.values(properties)[0];
+}
+
+/**
+ * Build a single value and return the error details for it
+ */
+async function rejection(name: string, value: unknown): Promise<string[] | undefined> {
+  const error = await build(name, value).catch((thrown: unknown) => thrown);
+  expect(error).toBeInstanceOf(ValidationError);
+  return (error as ValidationError).details[name];
+}
+
+describe('buildPropertyValues', () => {
+  test('converts text to rich text, matching property names case-insensitively', async () => {
+    expect(await build('Name', 'Launch')).toMatchObject({
+      title: [{ type: 'text', text: { content: 'Launch' } }],
+    });
+    expect(await build('notes', 42)).toMatchObject({ rich_text: [{ text: { content: '42' } }] });
+  });
+
+  test('parses numbers and rejects anything else', async () => {
+    expect(await build('Points', '3.50')).toEqual({ number: 3.5 });
+    expect(await build('Points', 0)).toEqual({ number: 0 });
+    expect(await rejection('Points', 'lots')).toEqual(["Expected a number, got 'lots'"]);
+    expect(await rejection('Points', true)).toEqual(["Expected a number, got 'true'"]);
+    expect(await rejection('Points', ' ')).toBeDefined();
+  });
+
+  test('accepts new select options and matches status options case-insensitively', async () => {
+    expect(await build('Priority', 'Urgent')).toEqual({ select: { name: 'Urgent' } });
+    expect(await build('Stage', 'done')).toEqual({ status: { name: 'Done' } });
+    expect(await rejection('Stage', 'Blocked')).toEqual([
+      "Unknown status 'Blocked'. Expected one of: Not started, Done",
+    ]);
+    expect(await rejection('Priority', { name: 'High' })).toEqual(['Expected a string']);
+  });
+
+  test('splits multi-select values given as a comma-separated string or a list', async () => {
+    const expected = { multi_select: [{ name: 'a' }, { name: 'b' }] };
+    expect(await build('Tags', 'a, b,')).toEqual(expected);
+    expect(await build('Tags', ['a', ' b '])).toEqual(expected);
+  });
+
+  test('validates dates and date ranges', async () => {
+    expect(await build('Due', '2026-11-01')).toEqual({ date: { start: '2026-11-01' } });
+    expect(
+      await build('Due', { start: '2026-11-01T09:00:00Z', end: '2026-11-02', time_zone: 'UTC' })
+    ).toEqual({
+      date: { start: '2026-11-01T09:00:00Z', end: '2026-11-02', time_zone: 'UTC' },
+    });
+    expect(await rejection('Due', 'next week')).toEqual([
+      "Invalid date 'next week'. Use YYYY-MM-DD or an ISO 8601 date-time",
+    ]);
+    expect(await rejection('Due', '2026-13-45')).toBeDefined();
+    expect(await rejection('Due', { start: '2026-11-01', end: '11/02/2026' })).toBeDefined();
+  });
+
+  test('resolves people by ID or email and rejects unknown users', async () => {
+    expect(await build('Owner', [USER_ID, 'ADA@example.com'])).toEqual({
+      people: [
+        { object: 'user', id: USER_ID },
+        { object: 'user', id: USER_ID },
+      ],
+    });
+    expect(await rejection('Owner', 'bob@example.com')).toEqual([
+      "No workspace user matches 'bob@example.com'",
+    ]);
+  });
+
+  test('converts files, checkboxes, URLs, emails, phone numbers and relations', async () => {
+    expect(await build('Files', 'https://example.com/docs/plan.pdf?v=2')).toEqual({
+      files: [
+        {
+          name: 'plan.pdf',
+          type: 'external',
+          external: { url: 'https://example.com/docs/plan.pdf?v=2' },
+        },
+      ],
+    });
+    expect(await build('Done', 'Yes')).toEqual({ checkbox: true });
+    expect(await build('Done', '')).toEqual({ checkbox: false });
+    expect(await rejection('Done', 'maybe')).toEqual(["Expected a boolean, got 'maybe'"]);
+    expect(await build('Link', 'https://example.com')).toEqual({ url: 'https://example.com' });
+    expect(await build('Email', ' ada@example.com ')).toEqual({ email: 'ada@example.com' });
+    expect(await rejection('Email', 'ada')).toEqual(["Invalid email address 'ada'"]);
+    expect(await build('Phone', '+1 555 0100')).toEqual({ phone_number: '+1 555 0100' });
+    expect(await build('Related', [PAGE_ID])).toEqual({ relation: [{ id: PAGE_ID }] });
+    expect(await rejection('Related', 'Roadmap')).toEqual([
+      'Relations must be page IDs, got: Roadmap',
+    ]);
+  });
+
+  test('clears values with null', async () => {
+    expect(await build('Tags', null)).toEqual({ multi_select: [] });
+    expect(await build('Done', null)).toEqual({ checkbox: false });
+    expect(await build('Due', null)).toEqual({ date: null });
+  });
+
+  test('reports every invalid value, computed property and unknown property at once', async () => {
+    const { resolveUser } = fakeUsers();
+    const error = await buildPropertyValues(
+      schema,
+      { Points: 'x', Total: 1, Color: 'red', Name: 'Fine' },
+      resolveUser
+    ).catch((thrown: ValidationError) => thrown);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(Object.keys(error.details)).toEqual(['Points', 'Total', 'Color']);
+    expect(error.details.Total).toEqual([
+      "Property of type 'formula' is computed and cannot be set",
+    ]);
+  });
+});
+
+describe('createUserResolver', () => {
+  test('lists workspace users once, on the first email lookup', async () => {
+    const { resolveUser, listed } = fakeUsers();
+    expect(await resolveUser(USER_ID)).toBe(USER_ID);
+    expect(listed()).toBe(0);
+
+    expect(await resolveUser('ada@example.com')).toBe(USER_ID);
+    expect(await resolveUser('bob@example.com')).toBeUndefined();
+    expect(listed()).toBe(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+import { ValidationError } from '../src/utils/errors.js';
+import { compileUserRegex } from '../src/utils/regex.js';
+
+/**
+ * Message of the validation error a pattern is rejected with
+ */
+function rejection(source: string): string {
+  try {
+    compileUserRegex(source, 'i', 'pattern');
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).details.pattern[0];
+  }
+  throw new Error(`${source} was accepted`);
+}
+
+describe('compileUserRegex', () => {
+  test('accepts ordinary patterns', () => {
+    for (const source of ['^Q\\d+ report$', '(draft|final)s?', '[(+*)]+', '(ab){3}', 'a+b*']) {
+      expect(compileUserRegex(source, 'i', 'pattern')).toBeInstanceOf(RegExp);
+    }
+  });
+
+  test('rejects nested quantifiers', () => {
+    expect(rejection('(a+)+')).toContain('Nested quantifiers');
+    expect(rejection('((ab)*c)*')).toContain('Nested quantifiers');
+    expect(rejection('(?:\\w+\\s?){1,}$')).toContain('Nested quantifiers');
+  });
+
+  test('rejects backreferences', () => {
+    expect(rejection('(a)\\1')).toBe('Backreferences are not supported');
+    expect(rejection('(?<x>a)\\k<x>')).toBe('Backreferences are not supported');
+  });
+
+  test('reports syntax errors against the argument', () => {
+    expect(rejection('(unclosed')).toContain('Invalid regular expression');
+  });
+});
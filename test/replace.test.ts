@@ -0,0 +1,194 @@
+import { describe, expect, test } from 'bun:test';
+import type { NotionClient } from '../src/client.js';
+import type { Block, RichTextItem } from '../src/types/entities.js';
+import { ValidationError } from '../src/utils/errors.js';
+import { searchPageContent } from '../src/utils/find.js';
+import { findAndReplace } from '../src/utils/replace.js';
+
+/**
+ * Text rich text item, optionally bold
+ */
+function text(content: string, bold = false): RichTextItem {
+  return {
+    type: 'text',
+    text: { content, link: null },
+    annotations: {
+      bold,
+      italic: false,
+      strikethrough: false,
+      underline: false,
+      code: false,
+      color: 'default',
+    },
+    plain_text: content,
+    href: null,
+  } as RichTextItem;
+}
+
+/**
+ * Page mention rich text item
+ */
+function mention(title: string): RichTextItem {
+  return {
+    type: 'mention',
+    mention: { type: 'page', page: { id: 'other-page' } },
+    plain_text: title,
+    href: null,
+  } as unknown as RichTextItem;
+}
+
+/**
+ * Block of the given type with rich text, or other content for table rows
+ * and child pages
+ */
+function block(id: string, type: string, content: Record<string, unknown>, children = false) {
+  return { object: 'block', id, type, has_children: children, [type]: content } as unknown as Block;
+}
+
+/**
+ * Fake client over a page whose blocks are given by parent ID
+ */
+function fakePage(tree: Record<string, Block[]>) {
+  const updates: Array<{ blockId: string; content: Record<string, unknown> }> = [];
+  const client = {
+    getPage: async (pageId: string) => ({
+      object: 'page',
+      id: pageId,
+      properties: { title: { type: 'title', title: [text(`Page ${pageId}`)] } },
+    }),
+    getBlockChildren: async (blockId: string) => ({
+      object: 'list',
+      results: tree[blockId] ?? [],
+      hasMore: false,
+    }),
+    updateBlock: async (blockId: string, content: Record<string, unknown>) => {
+      updates.push({ blockId, content });
+      return block(blockId, 'paragraph', {});
+    },
+  } as unknown as NotionClient;
+  return { client, updates };
+}
+
+const TREE: Record<string, Block[]> = {
+  page: [
+    block('h1', 'heading_1', { rich_text: [text('Plans for 2025')] }),
+    block('p1', 'paragraph', { rich_text: [text('Ship the '), text('2025 roadmap', true)] }, true),
+    block('p2', 'paragraph', { rich_text: [text('See '), mention('2025 goals')] }),
+    block('row', 'table_row', { cells: [[text('Q1 2025')], [text('done')]] }),
+    block('sub', 'child_page', { title: 'Archive 2025' }, true),
+  ],
+  p1: [block('p1a', 'bulleted_list_item', { rich_text: [text('Budget 2025-01')] })],
+  sub: [block('s1', 'paragraph', { rich_text: [text('Old 2025 notes')] })],
+};
+
+describe('findAndReplace', () => {
+  test('previews every match with its context without writing', async () => {
+    const { client, updates } = fakePage(TREE);
+    const result = await findAndReplace(client, 'page', { find: '2025', replace: '2026' }, false);
+
+    expect(updates).toEqual([]);
+    expect(result.applied).toBe(false);
+    expect(result.matches.map((match) => match.blockId)).toEqual([
+      'h1',
+      'p1',
+      'p1a',
+      'p2',
+      'row',
+    ]);
+    expect(result.matches[1].context).toBe('Ship the [[2025]] roadmap');
+    expect(result.matches[3].skipped).toBe('Match includes a mention or equation');
+    expect(result.blocksChanged).toBe(4);
+  });
+
+  test('replaces text in place and keeps the annotations around it', async () => {
+    const { client, updates } = fakePage(TREE);
+    await findAndReplace(client, 'page', { find: '2025', replace: '2026' }, true);
+
+    const paragraph = updates.find((update) => update.blockId === 'p1');
+    const richText = (paragraph?.content.paragraph as { rich_text: RichTextItem[] }).rich_text;
+    expect(richText.map((item) => [item.text?.content, item.annotations?.bold])).toEqual([
+      ['Ship the ', false],
+      ['2026 roadmap', true],
+    ]);
+
+    const row = updates.find((update) => update.blockId === 'row');
+    const cells = (row?.content.table_row as { cells: RichTextItem[][] }).cells;
+    expect(cells.map((cell) => cell[0].text?.content)).toEqual(['Q1 2026', 'done']);
+
+    // The child page is a separate page and the mention cannot be edited
+    expect(updates.map((update) => update.blockId)).not.toContain('s1');
+    expect(updates.map((update) => update.blockId)).not.toContain('p2');
+  });
+
+  test('takes the annotations of the item where a match spanning items starts', async () => {
+    const { client, updates } = fakePage(TREE);
+    await findAndReplace(client, 'page', { find: 'the 2025', replace: 'our' }, true);
+
+    const richText = (updates[0].content.paragraph as { rich_text: RichTextItem[] }).rich_text;
+    expect(richText.map((item) => [item.text?.content, item.annotations?.bold])).toEqual([
+      ['Ship our', false],
+      [' roadmap', true],
+    ]);
+  });
+
+  test('expands regex groups in the replacement', async () => {
+    const { client, updates } = fakePage(TREE);
+    await findAndReplace(
+      client,
+      'page',
+      { find: '(\\d{4})-(\\d{2})', regex: true, replace: '$2/$1' },
+      true
+    );
+
+    const item = (updates[0].content.bulleted_list_item as { rich_text: RichTextItem[] })
+      .rich_text[0];
+    expect(item.text?.content).toBe('Budget 01/2025');
+  });
+
+  test('matches case-insensitively only when asked to', async () => {
+    const { client } = fakePage(TREE);
+    const exact = await findAndReplace(client, 'page', { find: 'plans', replace: 'x' }, false);
+    const loose = await findAndReplace(
+      client,
+      'page',
+      { find: 'plans', replace: 'x', caseSensitive: false },
+      false
+    );
+
+    expect(exact.matches).toHaveLength(0);
+    expect(loose.matches).toHaveLength(1);
+  });
+
+  test('rejects invalid patterns', async () => {
+    const { client } = fakePage(TREE);
+    const replace = findAndReplace(client, 'page', { find: '(', regex: true, replace: '' }, false);
+    await expect(replace).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('searchPageContent', () => {
+  test('reports matching blocks with the headings above them', async () => {
+    const { client } = fakePage(TREE);
+    const result = await searchPageContent(client, 'page', { find: 'roadmap' }, { maxResults: 10 });
+
+    expect(result.hits).toHaveLength(1);
+    expect(result.hits[0]).toMatchObject({
+      blockId: 'p1',
+      headingPath: ['Plans for 2025'],
+      context: 'Ship the 2025 [[roadmap]]',
+    });
+  });
+
+  test('searches child pages when asked to', async () => {
+    const { client } = fakePage(TREE);
+    const result = await searchPageContent(
+      client,
+      'page',
+      { find: 'notes' },
+      { includeChildPages: true, maxResults: 10 }
+    );
+
+    expect(result.pagesSearched).toBe(2);
+    expect(result.hits.map((hit) => [hit.pageId, hit.blockId])).toEqual([['sub', 's1']]);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { createNotionClient } from '../src/client.js';
+import { NotionApiError, RateLimitError, ValidationError } from '../src/utils/errors.js';
+import { getRetryDelay, type RetryPolicy, withRetry } from '../src/utils/retry.js';
+
+const POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 4, maxElapsedMs: 1000 };
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('getRetryDelay', () => {
+  test('doubles the backoff ceiling per attempt up to the maximum', () => {
+    spyOn(Math, 'random').mockReturnValue(1);
+    const policy = { ...POLICY, baseDelayMs: 500, maxDelayMs: 3000 };
+    const error = new NotionApiError('Server error', 500, undefined, true);
+
+    expect([1, 2, 3, 4].map((attempt) => getRetryDelay(error, attempt, policy))).toEqual([
+      500, 1000, 2000, 3000,
+    ]);
+  });
+
+  test('applies full jitter below the ceiling', () => {
+    spyOn(Math, 'random').mockReturnValue(0.25);
+    const error = new NotionApiError('Server error', 500, undefined, true);
+    expect(getRetryDelay(error, 3, { ...POLICY, baseDelayMs: 500, maxDelayMs: 8000 })).toBe(500);
+  });
+
+  test('waits as long as the Retry-After header asks when rate limited', () => {
+    expect(getRetryDelay(new RateLimitError('Slow down', 7), 1, POLICY)).toBe(7000);
+  });
+});
+
+describe('withRetry', () => {
+  test('retries retryable failures until the operation succeeds', async () => {
+    const attempts: number[] = [];
+    const result = await withRetry(async (attempt) => {
+      attempts.push(attempt);
+      if (attempt < 3) throw new NotionApiError('Server error', 502, undefined, true);
+      return 'done';
+    }, POLICY);
+
+    expect(result).toBe('done');
+    expect(attempts).toEqual([1, 2, 3]);
+  });
+
+  test('gives up after the attempt limit and records the attempts made', async () => {
+    let calls = 0;
+    const error = await withRetry(async () => {
+      calls++;
+      throw new NotionApiError('Server error', 503, undefined, true);
+    }, POLICY).catch((thrown: NotionApiError) => thrown);
+
+    expect(calls).toBe(3);
+    expect(error.attempts).toBe(3);
+  });
+
+  test('does not retry errors that are not retryable', async () => {
+    let calls = 0;
+    const failing = withRetry(async () => {
+      calls++;
+      throw new ValidationError('Bad input', {});
+    }, POLICY);
+
+    await expect(failing).rejects.toBeInstanceOf(ValidationError);
+    expect(calls).toBe(1);
+  });
+
+  test('gives up when the next delay would exceed the time budget', async () => {
+    let calls = 0;
+    const failing = withRetry(
+      async () => {
+        calls++;
+        throw new RateLimitError('Slow down', 60);
+      },
+      { ...POLICY, maxElapsedMs: 5000 }
+    );
+
+    await expect(failing).rejects.toBeInstanceOf(RateLimitError);
+    expect(calls).toBe(1);
+  });
+});
+
+describe('NotionClient retries', () => {
+  /**
+   * Replace fetch with one that answers with the given statuses in turn and
+   * counts the calls
+   */
+  function fakeFetch(statuses: number[]) {
+    let calls = 0;
+    spyOn(globalThis, 'fetch').mockImplementation((async () => {
+      const status = statuses[Math.min(calls++, statuses.length - 1)];
+      const headers = status === 429 ? { 'Retry-After': '0' } : undefined;
+      const body = status === 200 ? { object: 'page', id: 'page' } : { message: 'Failed' };
+      return Response.json(body, { status, headers });
+    }) as unknown as typeof fetch);
+    return () => calls;
+  }
+
+  const client = () =>
+    createNotionClient({ type: 'integration', integrationToken: 'secret' }, { retry: POLICY });
+
+  test('retries reads after server errors', async () => {
+    const calls = fakeFetch([500, 500, 200]);
+    await client().getPage('page');
+    expect(calls()).toBe(3);
+  });
+
+  test('does not repeat a page creation after a server error', async () => {
+    const calls = fakeFetch([500, 200]);
+    await expect(client().createPage('parent', 'page_id', {})).rejects.toThrow('Failed');
+    expect(calls()).toBe(1);
+  });
+
+  test('does not repeat a block append or comment after a network error', async () => {
+    let calls = 0;
+    spyOn(globalThis, 'fetch').mockImplementation((async () => {
+      calls++;
+      throw new TypeError('network connection lost');
+    }) as unknown as typeof fetch);
+
+    await expect(client().appendBlockChildren('block', [])).rejects.toThrow('Network error');
+    await expect(client().createComment('page', 'page_id', [])).rejects.toThrow('Network error');
+    expect(calls).toBe(2);
+  });
+
+  test('retries writes that were rate limited', async () => {
+    const calls = fakeFetch([429, 200]);
+    await client().createPage('parent', 'page_id', {});
+    expect(calls()).toBe(2);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test';
+import type { NotionClient } from '../src/client.js';
+import type { Block } from '../src/types/entities.js';
+import { PermissionDeniedError } from '../src/utils/errors.js';
+import { ScopedNotionClient } from '../src/utils/scope.js';
+
+/**
+ * Fake client over blocks with the given parents, recording block reads and
+ * the writes that reach it. IDs not in the map are at the workspace level.
+ */
+function fakeWorkspace(parents: Record<string, { type: string; id: string }>) {
+  const blockReads: string[] = [];
+  const writes: string[] = [];
+
+  const block = (id: string): Block => {
+    const parent = parents[id];
+    return {
+      object: 'block',
+      id,
+      type: 'paragraph',
+      parent: parent ? { type: parent.type, [parent.type]: parent.id } : { type: 'workspace' },
+    } as unknown as Block;
+  };
+
+  const client = {
+    getBlock: async (blockId: string) => {
+      blockReads.push(blockId);
+      return block(blockId);
+    },
+    getPage: async (pageId: string) => ({ object: 'page', id: pageId }),
+    updatePage: async (pageId: string) => {
+      writes.push(`update ${pageId}`);
+      return { object: 'page', id: pageId };
+    },
+    appendBlockChildren: async (blockId: string) => {
+      writes.push(`append ${blockId}`);
+      return { object: 'list', results: [], hasMore: false };
+    },
+    createComment: async (parentId: string) => {
+      writes.push(`comment ${parentId}`);
+      return { object: 'comment', id: 'comment' };
+    },
+  } as unknown as NotionClient;
+  return { client, blockReads, writes };
+}
+
+const ROOT = '0123456789abcdef0123456789abcdef';
+
+describe('ScopedNotionClient', () => {
+  test('allows writes below a root and rejects writes outside it', async () => {
+    const { client, writes } = fakeWorkspace({
+      child: { type: 'page_id', id: ROOT },
+      grandchild: { type: 'block_id', id: 'child' },
+      outside: { type: 'page_id', id: 'elsewhere' },
+    });
+    // Roots match however their IDs are written
+    const scoped = new ScopedNotionClient(client, ['01234567-89AB-CDEF-0123-456789ABCDEF']);
+
+    await scoped.appendBlockChildren('grandchild', []);
+    await scoped.updatePage(ROOT, {});
+    await expect(scoped.updatePage('outside', {})).rejects.toBeInstanceOf(PermissionDeniedError);
+    await expect(scoped.appendBlockChildren('elsewhere', [])).rejects.toThrow(
+      "Cannot append blocks to 'elsewhere'"
+    );
+    expect(writes).toEqual(['append grandchild', `update ${ROOT}`]);
+  });
+
+  test('does not restrict reads', async () => {
+    const { client, blockReads } = fakeWorkspace({});
+    const scoped = new ScopedNotionClient(client, [ROOT]);
+
+    expect(await scoped.getPage('outside')).toMatchObject({ id: 'outside' });
+    expect(blockReads).toEqual([]);
+  });
+
+  test('walks through the database of a database row', async () => {
+    const { client, blockReads, writes } = fakeWorkspace({
+      row: { type: 'database_id', id: 'tasks' },
+      tasks: { type: 'page_id', id: ROOT },
+    });
+    const scoped = new ScopedNotionClient(client, [ROOT]);
+
+    await scoped.updatePage('row', {});
+    await scoped.updatePage('row', {});
+    expect(writes).toEqual(['update row', 'update row']);
+    // Ancestry is resolved once per ID
+    expect(blockReads).toEqual(['row', 'tasks']);
+  });
+
+  test('gives up on ancestry deeper than the walk limit', async () => {
+    const parents: Record<string, { type: string; id: string }> = {};
+    for (let i = 0; i < 60; i++) {
+      parents[`block${i}`] = { type: 'block_id', id: i === 59 ? ROOT : `block${i + 1}` };
+    }
+    const { client, blockReads } = fakeWorkspace(parents);
+    const scoped = new ScopedNotionClient(client, [ROOT]);
+
+    // The root is 49 parents above block11 and 50 above block10
+    expect(await scoped.isWithinRoots('block11')).toBe(true);
+    blockReads.length = 0;
+    expect(await scoped.isWithinRoots('block10')).toBe(false);
+    expect(blockReads).toHaveLength(50);
+  });
+
+  test('allows page comments in scope and rejects discussion replies', async () => {
+    const { client, writes } = fakeWorkspace({ page: { type: 'page_id', id: ROOT } });
+    const scoped = new ScopedNotionClient(client, [ROOT]);
+
+    await scoped.createComment('page', 'page_id', []);
+    await expect(scoped.createComment('outside', 'page_id', [])).rejects.toBeInstanceOf(
+      PermissionDeniedError
+    );
+    await expect(scoped.createComment('discussion', 'discussion_id', [])).rejects.toThrow(
+      'Replies to discussions are not allowed'
+    );
+    expect(writes).toEqual(['comment page']);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import type { Page } from '../src/types/entities.js';
+import { ValidationError } from '../src/utils/errors.js';
+import { MAX_PATTERN_LENGTH } from '../src/utils/regex.js';
+import { buildResultPredicate } from '../src/utils/search.js';
+
+/**
+ * Page search result with the given title, optionally in the trash
+ */
+function page(title: string, inTrash = false): Page {
+  return {
+    object: 'page',
+    id: title,
+    in_trash: inTrash,
+    properties: { title: { type: 'title', title: [{ type: 'text', plain_text: title }] } },
+  } as unknown as Page;
+}
+
+describe('buildResultPredicate', () => {
+  test('matches titles against a regular expression, ignoring case', () => {
+    const titles = ['Q1 Report', 'Q12 Report', 'Roadmap 2026', 'Old roadmap', 'Notes'];
+    const matching = (titlePattern: string) => {
+      const keep = buildResultPredicate({ titlePattern });
+      return titles.filter((title) => keep(page(title)));
+    };
+
+    expect(matching('^q\\d report$')).toEqual(['Q1 Report']);
+    expect(matching('roadmap')).toEqual(['Roadmap 2026', 'Old roadmap']);
+    expect(matching('^(notes|old)\\b')).toEqual(['Old roadmap', 'Notes']);
+  });
+
+  test('filters by trash status', () => {
+    const keep = buildResultPredicate({ archived: true });
+    expect(keep(page('Trashed', true))).toBe(true);
+    expect(keep(page('Live'))).toBe(false);
+  });
+
+  test('rejects invalid, overlong and exponential patterns', () => {
+    for (const titlePattern of [
+      '(',
+      'x'.repeat(MAX_PATTERN_LENGTH + 1),
+      '(a+)+$',
+      '(x\\w*){2,}',
+      '(a)\\1',
+    ]) {
+      expect(() => buildResultPredicate({ titlePattern })).toThrow(ValidationError);
+    }
+  });
+});
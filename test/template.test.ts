@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { createTemplateSubstitution } from '../src/utils/template.js';
+
+describe('createTemplateSubstitution', () => {
+  test('replaces placeholders, with optional spaces inside the braces', () => {
+    const { transform, missing } = createTemplateSubstitution({
+      client: 'Acme',
+      'project.name': 'Launch',
+    });
+
+    expect(transform('{{client}} / {{ project.name }} / {{client}}')).toBe(
+      'Acme / Launch / Acme'
+    );
+    expect(missing.size).toBe(0);
+  });
+
+  test('keeps unknown placeholders and records them as missing', () => {
+    const { transform, missing } = createTemplateSubstitution({ client: 'Acme' });
+
+    expect(transform('Dear {{ contact }}, re {{client}} {{budget}}')).toBe(
+      'Dear {{ contact }}, re Acme {{budget}}'
+    );
+    expect(transform('{{contact}}')).toBe('{{contact}}');
+    expect([...missing]).toEqual(['contact', 'budget']);
+  });
+
+  test('leaves text that is not a placeholder alone', () => {
+    const { transform, missing } = createTemplateSubstitution({ a: 'x' });
+    expect(transform('{a} {{ }} {{a b}} {{{a}}}')).toBe('{a} {{ }} {{a b}} {x}');
+    expect(missing.size).toBe(0);
+  });
+
+  test('does not treat inherited object keys as variables', () => {
+    const { transform, missing } = createTemplateSubstitution({});
+    expect(transform('{{constructor}} {{toString}}')).toBe('{{constructor}} {{toString}}');
+    expect([...missing]).toEqual(['constructor', 'toString']);
+  });
+
+  test('fills in the date builtin as the UTC date', () => {
+    // Late evening west of UTC is already the next day in UTC
+    const now = new Date('2026-10-19T23:30:00-05:00');
+    const { transform } = createTemplateSubstitution({}, now);
+    expect(transform('Notes {{date}}')).toBe('Notes 2026-10-20');
+
+    const overridden = createTemplateSubstitution({ date: 'tomorrow' }, now);
+    expect(overridden.transform('{{date}}')).toBe('tomorrow');
+  });
+});